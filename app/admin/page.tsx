@@ -0,0 +1,277 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Copy, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+import { getStoredAdminToken, setStoredAdminToken } from '@/lib/api-client';
+import type { ApiKey } from '@/lib/api-keys/types';
+
+type ListedKey = ApiKey & { running: number };
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '—');
+
+// Issue, adjust and revoke API keys. Needs the server's ADMIN_TOKEN.
+export default function AdminPage() {
+  const [token, setToken] = useState('');
+  const [tokenInput, setTokenInput] = useState('');
+  const [keys, setKeys] = useState<ListedKey[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({ name: '', rateLimit: '', maxConcurrent: '' });
+  const [issued, setIssued] = useState<{ name: string; secret: string } | null>(null);
+
+  useEffect(() => {
+    const stored = getStoredAdminToken();
+    setToken(stored);
+    setTokenInput(stored);
+  }, []);
+
+  // Admin API request; shows the API's error message on failure
+  const send = useCallback(
+    async (url: string, method = 'GET', body?: unknown) => {
+      setError(null);
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(body ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setError(data.error || data.message || 'Request failed');
+        return null;
+      }
+      return data;
+    },
+    [token]
+  );
+
+  const loadKeys = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const data = await send('/api/admin/keys');
+      if (data) setKeys(data.keys);
+    } finally {
+      setLoading(false);
+    }
+  }, [send, token]);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const saveToken = () => {
+    const value = tokenInput.trim();
+    setStoredAdminToken(value);
+    setToken(value);
+  };
+
+  const issueKey = async () => {
+    const body = {
+      name: form.name,
+      ...(form.rateLimit ? { rateLimit: Number(form.rateLimit) } : {}),
+      ...(form.maxConcurrent ? { maxConcurrent: Number(form.maxConcurrent) } : {}),
+    };
+    const data = await send('/api/admin/keys', 'POST', body);
+    if (data) {
+      setIssued({ name: data.key.name, secret: data.secret });
+      setForm({ name: '', rateLimit: '', maxConcurrent: '' });
+      loadKeys();
+    }
+  };
+
+  const updateLimit = async (key: ListedKey, field: 'rateLimit' | 'maxConcurrent', value: string) => {
+    const num = Number(value);
+    if (!Number.isInteger(num) || num < 1 || num === key[field]) return;
+    if (await send(`/api/admin/keys/${key.id}`, 'PATCH', { [field]: num })) {
+      loadKeys();
+    }
+  };
+
+  const revokeKey = async (key: ListedKey) => {
+    if (!window.confirm(`Revoke the key "${key.name}"? Clients using it stop working right away.`)) return;
+    if (await send(`/api/admin/keys/${key.id}`, 'DELETE')) {
+      loadKeys();
+    }
+  };
+
+  const inputClass =
+    'px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <main className="min-h-screen bg-gray-950 text-gray-100 p-4 md:p-8">
+      <div className="max-w-5xl mx-auto">
+        <h1 className="text-3xl font-bold mb-8 flex items-center gap-3">
+          <KeyRound className="w-7 h-7" />
+          API Keys
+        </h1>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveToken();
+          }}
+          className="bg-gray-900 rounded-lg p-4 mb-6 border border-gray-800 flex items-center gap-2"
+        >
+          <input
+            id="adminToken"
+            name="adminToken"
+            type="password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            placeholder="Admin token (ADMIN_TOKEN)"
+            autoComplete="off"
+            className={`${inputClass} flex-1`}
+          />
+          <button type="submit" className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium">
+            Unlock
+          </button>
+        </form>
+
+        {error && (
+          <div className="bg-red-900/30 border border-red-800 text-red-300 rounded-lg p-3 mb-6 text-sm">{error}</div>
+        )}
+
+        {issued && (
+          <div className="bg-green-900/30 border border-green-800 rounded-lg p-4 mb-6 text-sm">
+            <p className="text-green-300 mb-2">
+              Key for {issued.name} issued. Copy it now; it can&apos;t be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 bg-gray-950 px-3 py-2 rounded font-mono break-all">{issued.secret}</code>
+              <button
+                type="button"
+                onClick={() => navigator.clipboard?.writeText(issued.secret)}
+                className="p-2 text-gray-400 hover:text-white"
+                title="Copy"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {token && (
+          <>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                issueKey();
+              }}
+              className="bg-gray-900 rounded-lg p-4 mb-6 border border-gray-800 flex flex-wrap items-center gap-2"
+            >
+              <input
+                id="keyName"
+                name="keyName"
+                value={form.name}
+                onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="Issued to (name)"
+                className={`${inputClass} flex-1 min-w-[12rem]`}
+              />
+              <input
+                id="keyRateLimit"
+                name="keyRateLimit"
+                type="number"
+                min={1}
+                value={form.rateLimit}
+                onChange={(e) => setForm((prev) => ({ ...prev, rateLimit: e.target.value }))}
+                placeholder="Requests/min"
+                className={`${inputClass} w-36`}
+              />
+              <input
+                id="keyMaxConcurrent"
+                name="keyMaxConcurrent"
+                type="number"
+                min={1}
+                value={form.maxConcurrent}
+                onChange={(e) => setForm((prev) => ({ ...prev, maxConcurrent: e.target.value }))}
+                placeholder="Scrapes at once"
+                className={`${inputClass} w-36`}
+              />
+              <button
+                type="submit"
+                disabled={!form.name.trim()}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 rounded-lg text-sm font-medium flex items-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                Issue key
+              </button>
+            </form>
+
+            <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-gray-400 text-left border-b border-gray-800">
+                  <tr>
+                    <th className="p-3">Name</th>
+                    <th className="p-3">Key</th>
+                    <th className="p-3">Requests/min</th>
+                    <th className="p-3">Scrapes at once</th>
+                    <th className="p-3">Usage</th>
+                    <th className="p-3">Last used</th>
+                    <th className="p-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {keys.map((key) => (
+                    <tr key={key.id} className={`border-b border-gray-800 ${key.revokedAt ? 'opacity-50' : ''}`}>
+                      <td className="p-3">{key.name}</td>
+                      <td className="p-3 font-mono text-gray-400">{key.prefix}…</td>
+                      <td className="p-3">
+                        <input
+                          type="number"
+                          min={1}
+                          defaultValue={key.rateLimit}
+                          disabled={!!key.revokedAt}
+                          onBlur={(e) => updateLimit(key, 'rateLimit', e.target.value)}
+                          className={`${inputClass} w-24 py-1`}
+                        />
+                      </td>
+                      <td className="p-3">
+                        <input
+                          type="number"
+                          min={1}
+                          defaultValue={key.maxConcurrent}
+                          disabled={!!key.revokedAt}
+                          onBlur={(e) => updateLimit(key, 'maxConcurrent', e.target.value)}
+                          className={`${inputClass} w-24 py-1`}
+                        />
+                        {key.running > 0 && <span className="ml-2 text-blue-400">{key.running} running</span>}
+                      </td>
+                      <td className="p-3 text-gray-300 whitespace-nowrap">
+                        {key.usage.requests} requests, {key.usage.scrapes} scrapes
+                        {key.usage.rejected > 0 && <span className="text-yellow-400">, {key.usage.rejected} rejected</span>}
+                      </td>
+                      <td className="p-3 text-gray-400 whitespace-nowrap">{formatTime(key.lastUsedAt)}</td>
+                      <td className="p-3 text-right">
+                        {key.revokedAt ? (
+                          <span className="text-gray-500" title={formatTime(key.revokedAt)}>Revoked</span>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => revokeKey(key)}
+                            className="text-gray-500 hover:text-red-400"
+                            title="Revoke"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {loading && (
+                <div className="p-4 flex justify-center">
+                  <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                </div>
+              )}
+              {!loading && keys.length === 0 && <p className="p-4 text-gray-500 text-sm">No API keys issued yet.</p>}
+            </div>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminToken } from '@/lib/api-keys/guard';
+import { revokeApiKey, updateApiKey } from '@/lib/api-keys/store';
+import { parseApiKeyInput } from '@/lib/api-keys/validate';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Rename a key or change its limits, e.g. { rateLimit: 120, maxConcurrent: 4 }
+export const PATCH = withAdminToken(async (request: NextRequest, { params }: RouteContext) => {
+  const id = parseInt(params.id, 10);
+  const body = await request.json().catch(() => null);
+  if (!Number.isFinite(id) || !body) {
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+  }
+
+  let changes;
+  try {
+    changes = parseApiKeyInput(body, true);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const key = await updateApiKey(id, changes);
+    if (!key) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+    return NextResponse.json(key);
+  } catch (error: any) {
+    console.error('API keys error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update API key', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// Revoke a key. It stops working right away; its usage counters are kept.
+export const DELETE = withAdminToken(async (_request: NextRequest, { params }: RouteContext) => {
+  const id = parseInt(params.id, 10);
+  if (!Number.isFinite(id)) {
+    return NextResponse.json({ error: 'Invalid API key id' }, { status: 400 });
+  }
+
+  try {
+    const key = await revokeApiKey(id);
+    if (!key) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+    return NextResponse.json(key);
+  } catch (error: any) {
+    console.error('API keys error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
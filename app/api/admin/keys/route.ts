@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminToken } from '@/lib/api-keys/guard';
+import { getApiKeyLimiter } from '@/lib/api-keys/limiter';
+import { createApiKey, listApiKeys } from '@/lib/api-keys/store';
+import { parseApiKeyInput } from '@/lib/api-keys/validate';
+
+// Usage counters change between requests, so never render this at build time
+export const dynamic = 'force-dynamic';
+
+// All keys with their limits, usage counters and scrapes running right now
+export const GET = withAdminToken(async () => {
+  try {
+    const limiter = getApiKeyLimiter();
+    const keys = (await listApiKeys()).map((key) => ({ ...key, running: limiter.running(key.id) }));
+    return NextResponse.json({ keys });
+  } catch (error: any) {
+    console.error('API keys error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load API keys', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// Issue a key: { name, rateLimit?, maxConcurrent? }. The response has the key
+// itself as `secret`; it isn't stored and can't be shown again.
+export const POST = withAdminToken(async (request: NextRequest) => {
+  const body = await request.json().catch(() => null);
+
+  let input;
+  try {
+    input = parseApiKeyInput(body);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const { key, secret } = await createApiKey({ ...input, name: input.name! });
+    return NextResponse.json({ key, secret }, { status: 201 });
+  } catch (error: any) {
+    console.error('API keys error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API key', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listAlertEvents } from '@/lib/alerts/store';
+import { withApiKey } from '@/lib/api-keys/guard';
+
+// List triggered alerts, newest first (?since=<ISO timestamp> for only newer ones)
+export const GET = withApiKey(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const since = searchParams.get('since') || undefined;
+  const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 500);
+
+  try {
+    const events = await listAlertEvents(since, limit);
+    return NextResponse.json({ events, count: events.length });
+  } catch (error: any) {
+    console.error('Alerts error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load alerts', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAlertCondition } from '@/lib/alerts/engine';
+import { deleteRule, updateRule } from '@/lib/alerts/store';
+import { AlertCondition } from '@/lib/alerts/types';
+import { withAdminToken } from '@/lib/api-keys/guard';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Update name, enabled flag and/or condition of a rule
+export const PATCH = withAdminToken(async (request: NextRequest, { params }: RouteContext) => {
+  const id = parseInt(params.id, 10);
+  const body = await request.json().catch(() => null);
+  if (!Number.isFinite(id) || !body) {
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+  }
+
+  const changes: { name?: string; enabled?: boolean; condition?: AlertCondition } = {};
+  try {
+    if (typeof body.name === 'string' && body.name.trim()) changes.name = body.name.trim();
+    if (typeof body.enabled === 'boolean') changes.enabled = body.enabled;
+    if (body.condition !== undefined) changes.condition = parseAlertCondition(body.condition);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const rule = await updateRule(id, changes);
+    if (!rule) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+    }
+    return NextResponse.json(rule);
+  } catch (error: any) {
+    console.error('Alert rules error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update alert rule', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAdminToken(async (_request: NextRequest, { params }: RouteContext) => {
+  const id = parseInt(params.id, 10);
+  if (!Number.isFinite(id)) {
+    return NextResponse.json({ error: 'Invalid alert rule id' }, { status: 400 });
+  }
+
+  try {
+    if (!(await deleteRule(id))) {
+      return NextResponse.json({ error: 'Alert rule not found' }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error: any) {
+    console.error('Alert rules error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete alert rule', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
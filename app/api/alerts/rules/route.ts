@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseAlertCondition } from '@/lib/alerts/engine';
+import { createRule, listRules } from '@/lib/alerts/store';
+import { withAdminToken, withApiKey } from '@/lib/api-keys/guard';
+
+// Read from the database on every request instead of at build time
+export const dynamic = 'force-dynamic';
+
+export const GET = withApiKey(async () => {
+  try {
+    const rules = await listRules();
+    return NextResponse.json({ rules });
+  } catch (error: any) {
+    console.error('Alert rules error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load alert rules', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// Create a rule: { name, enabled?, condition: { type, ... } }
+export const POST = withAdminToken(async (request: NextRequest) => {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.name !== 'string' || !body.name.trim()) {
+    return NextResponse.json({ error: 'name is required' }, { status: 400 });
+  }
+
+  let condition;
+  try {
+    condition = parseAlertCondition(body.condition);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const rule = await createRule(body.name.trim(), condition, body.enabled !== false);
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error: any) {
+    console.error('Alert rules error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create alert rule', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
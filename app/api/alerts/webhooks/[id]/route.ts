@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteWebhook, updateWebhook } from '@/lib/alerts/store';
+import { parseWebhookInput } from '@/lib/alerts/webhooks';
+import { withAdminToken } from '@/lib/api-keys/guard';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export const PATCH = withAdminToken(async (request: NextRequest, { params }: RouteContext) => {
+  const id = parseInt(params.id, 10);
+  if (!Number.isFinite(id)) {
+    return NextResponse.json({ error: 'Invalid webhook id' }, { status: 400 });
+  }
+
+  let changes;
+  try {
+    changes = parseWebhookInput(await request.json().catch(() => null), true);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const webhook = await updateWebhook(id, changes);
+    if (!webhook) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+    return NextResponse.json(webhook);
+  } catch (error: any) {
+    console.error('Webhooks error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update webhook', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withAdminToken(async (_request: NextRequest, { params }: RouteContext) => {
+  const id = parseInt(params.id, 10);
+  if (!Number.isFinite(id)) {
+    return NextResponse.json({ error: 'Invalid webhook id' }, { status: 400 });
+  }
+
+  try {
+    if (!(await deleteWebhook(id))) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error: any) {
+    console.error('Webhooks error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete webhook', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWebhook } from '@/lib/alerts/store';
+import { deliverAlert } from '@/lib/alerts/webhooks';
+import { withAdminToken } from '@/lib/api-keys/guard';
+import { normalizePosition } from '@/lib/position';
+
+// Send a sample alert to a webhook to check its URL and payload format. Admin
+// only, like all webhook management: the server POSTs to whatever URL is set.
+export const POST = withAdminToken(async (_request: NextRequest, { params }: { params: { id: string } }) => {
+  const webhook = await getWebhook(parseInt(params.id, 10));
+  if (!webhook) {
+    return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+  }
+
+  const position = normalizePosition({
+    trader: 'FirstOrder',
+    marketName: 'Test alert',
+    marketUrl: 'https://polymarket.com/',
+    outcome: 'Yes 1,000 shares at 50¢',
+    currentPrice: '55¢',
+    value: '$550.00',
+  });
+  const error = await deliverAlert(
+    webhook,
+    { ruleId: 0, ruleName: 'Test', trader: position.trader, message: 'This is a test alert', position },
+    new Date().toISOString()
+  );
+
+  return NextResponse.json({ delivered: !error, error }, { status: error ? 502 : 200 });
+});
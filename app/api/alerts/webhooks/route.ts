@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createWebhook, listWebhooks } from '@/lib/alerts/store';
+import { Webhook } from '@/lib/alerts/types';
+import { parseWebhookInput } from '@/lib/alerts/webhooks';
+import { withAdminToken } from '@/lib/api-keys/guard';
+
+// Read from the database on every request instead of at build time
+export const dynamic = 'force-dynamic';
+
+export const GET = withAdminToken(async () => {
+  try {
+    const webhooks = await listWebhooks();
+    return NextResponse.json({ webhooks });
+  } catch (error: any) {
+    console.error('Webhooks error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load webhooks', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// Create a webhook: { name, url, format: generic|slack|discord|telegram, chatId? }
+export const POST = withAdminToken(async (request: NextRequest) => {
+  const body = await request.json().catch(() => null);
+
+  let input;
+  try {
+    input = parseWebhookInput(body);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  try {
+    const webhook = await createWebhook(input as Pick<Webhook, 'name' | 'url' | 'format' | 'chatId'>);
+    return NextResponse.json(webhook, { status: 201 });
+  } catch (error: any) {
+    console.error('Webhooks error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create webhook', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey } from '@/lib/api-keys/guard';
+import { getSnapshot } from '@/lib/history/store';
+
+// Get one snapshot including its positions
+export const GET = withApiKey(async (_request: NextRequest, { params }: { params: { id: string } }) => {
+  const id = parseInt(params.id, 10);
+  if (!Number.isFinite(id)) {
+    return NextResponse.json({ error: 'Invalid snapshot id' }, { status: 400 });
+  }
+
+  try {
+    const snapshot = await getSnapshot(id);
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+    }
+    return NextResponse.json(snapshot);
+  } catch (error: any) {
+    console.error('History error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load snapshot', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
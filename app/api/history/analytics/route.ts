@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toAnalyticsPoint } from '@/lib/analytics';
+import { withApiKey } from '@/lib/api-keys/guard';
+import { listTraderSnapshots } from '@/lib/history/store';
+
+// Portfolio stats of a trader's stored snapshots, oldest first, for charts over time
+export const GET = withApiKey(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const trader = searchParams.get('trader');
+  const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 500);
+
+  if (!trader) {
+    return NextResponse.json({ error: 'trader parameter is required' }, { status: 400 });
+  }
+
+  try {
+    const snapshots = await listTraderSnapshots(trader, limit);
+    const points = snapshots
+      .reverse()
+      .map((snapshot) => toAnalyticsPoint(snapshot.id, snapshot.scrapedAt, snapshot.positions));
+    return NextResponse.json({ trader, points, count: points.length });
+  } catch (error: any) {
+    console.error('History analytics error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load history', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey } from '@/lib/api-keys/guard';
+import { diffPositions } from '@/lib/history/diff';
+import {
+  Snapshot,
+  getLatestSnapshot,
+  getPreviousSnapshot,
+  getSnapshot,
+  summarizeSnapshot,
+} from '@/lib/history/store';
+
+// Diff two snapshots of the same trader.
+// ?to defaults to the trader's latest snapshot, ?from to the one before ?to.
+export const GET = withApiKey(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const trader = searchParams.get('trader');
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+
+  if (!trader && !toParam) {
+    return NextResponse.json(
+      { error: 'trader or to parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const to: Snapshot | null = toParam
+      ? await getSnapshot(parseInt(toParam, 10))
+      : await getLatestSnapshot(trader!);
+    if (!to) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+    }
+
+    const from: Snapshot | null = fromParam
+      ? await getSnapshot(parseInt(fromParam, 10))
+      : await getPreviousSnapshot(to);
+    if (fromParam && !from) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+    }
+    if (from && from.trader.toLowerCase() !== to.trader.toLowerCase()) {
+      return NextResponse.json(
+        { error: 'Snapshots belong to different traders' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      from: from ? summarizeSnapshot(from) : null,
+      to: summarizeSnapshot(to),
+      diff: diffPositions(from?.positions || [], to.positions),
+    });
+  } catch (error: any) {
+    console.error('History diff error:', error);
+    return NextResponse.json(
+      { error: 'Failed to diff snapshots', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey } from '@/lib/api-keys/guard';
+import { listSnapshots } from '@/lib/history/store';
+
+// List stored scrape snapshots, newest first
+export const GET = withApiKey(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const trader = searchParams.get('trader') || undefined;
+  const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 500);
+
+  try {
+    const snapshots = await listSnapshots(trader, limit);
+    return NextResponse.json({ snapshots, count: snapshots.length });
+  } catch (error: any) {
+    console.error('History error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load history', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
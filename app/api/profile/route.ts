@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey } from '@/lib/api-keys/guard';
+import { scrapeErrorBody, toScrapeError } from '@/lib/errors';
+import { parseScrapeParams } from '@/lib/scrape';
+import { getPositionSource } from '@/lib/sources';
+import { getTraderResolver } from '@/lib/trader-resolver';
+
+// Increase timeout for this route (5 minutes)
+export const maxDuration = 300;
+
+// Profile header of a trader: display name, wallet, portfolio value, PnL,
+// volume, markets traded and join date
+export const GET = withApiKey(async (request: NextRequest) => {
+  const params = parseScrapeParams(request.nextUrl.searchParams);
+  if ('error' in params) {
+    return NextResponse.json({ error: params.error, code: params.code }, { status: 400 });
+  }
+
+  const source = getPositionSource(params.source);
+  if (!source.fetchProfile) {
+    return NextResponse.json(
+      { error: `Source ${source.id} does not support profiles`, code: 'INVALID_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const trader = await getTraderResolver().resolve(params.trader);
+    const profile = await source.fetchProfile(trader.profileUrl);
+    return NextResponse.json({ profile });
+  } catch (error: any) {
+    console.error('Profile scraping error:', error);
+
+    const scrapeError = toScrapeError(error);
+    return NextResponse.json(scrapeErrorBody(scrapeError), { status: scrapeError.status });
+  }
+}, { scrape: true });
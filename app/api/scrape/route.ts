@@ -1,630 +1,107 @@
 import { NextRequest, NextResponse } from 'next/server';
-import puppeteer from 'puppeteer';
-
-export interface Position {
-  trader: string;
-  marketName: string;
-  marketUrl: string;
-  outcome: string;
-  currentPrice: string;
-  value: string;
-}
+import { withApiKey } from '@/lib/api-keys/guard';
+import { SCRAPE_ERRORS, scrapeErrorBody, toScrapeError } from '@/lib/errors';
+import { exportPositions, isExportFormat } from '@/lib/export';
+import { parseScrapeParams, scrapeAndRecord } from '@/lib/scrape';
+import { CachedScrapeResult, getScrapeCache } from '@/lib/scrape-cache';
+import type { ScrapeDiagnostics } from '@/lib/sources';
+import { getTraderResolver } from '@/lib/trader-resolver';
 
 // Increase timeout for this route (5 minutes)
 export const maxDuration = 300;
 
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const profileUrl = searchParams.get('profileUrl');
-
-  if (!profileUrl) {
-    return NextResponse.json(
-      { error: 'profileUrl parameter is required' },
-      { status: 400 }
-    );
+export const GET = withApiKey(async (request: NextRequest) => {
+  const params = parseScrapeParams(request.nextUrl.searchParams);
+  if ('error' in params) {
+    return NextResponse.json({ error: params.error, code: params.code }, { status: 400 });
   }
 
-  // Validate URL
-  try {
-    new URL(profileUrl);
-  } catch {
-    return NextResponse.json(
-      { error: 'Invalid URL format' },
-      { status: 400 }
-    );
+  // ?format=csv|xlsx returns the positions as a file; json (default) is the normal response
+  const format = request.nextUrl.searchParams.get('format') || 'json';
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: `Unknown format: ${format}`, code: 'INVALID_REQUEST' }, { status: 400 });
   }
 
-  let browser;
-  try {
-    // Launch browser
-    browser = await puppeteer.launch({
-      headless: true,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--disable-gpu',
-      ],
-    });
+  // ?debug=1 adds a screenshot, the matched row HTML and the extraction trace
+  // (Puppeteer source only; null otherwise)
+  const debug = request.nextUrl.searchParams.get('debug') === '1' && format === 'json';
+  let diagnostics: ScrapeDiagnostics | null = null;
+  const debugFields = () => (debug ? { diagnostics } : {});
 
-    const page = await browser.newPage();
-    
-    // Set viewport
-    await page.setViewport({ width: 1920, height: 1080 });
-    
-    // Set user agent
-    await page.setUserAgent(
-      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-    );
-
-    // Navigate to the page with retry logic
-    try {
-      await page.goto(profileUrl, {
-        waitUntil: 'domcontentloaded',
-        timeout: 120000,
-      });
-    } catch (navError) {
-      // Retry with networkidle
-      try {
-        await page.goto(profileUrl, {
-          waitUntil: 'networkidle',
-          timeout: 120000,
-        });
-      } catch {
-        // Last resort
-        await page.goto(profileUrl, { timeout: 120000 });
-        await new Promise(resolve => setTimeout(resolve, 5000));
-      }
-    }
+  // Results come from the server-side scrape cache; ?fresh=1 scrapes again.
+  // Debug requests always scrape, since diagnostics aren't cached.
+  const fresh = request.nextUrl.searchParams.get('fresh') === '1';
 
-    // Wait for page to load
-    await new Promise(resolve => setTimeout(resolve, 3000));
-
-    // Check if page loaded correctly
-    const pageTitle = await page.title();
-    const pageUrl = page.url();
-    
-    // Verify we're on the right page
-    if (!pageUrl.includes('polymarket.com')) {
-      throw new Error('Invalid page: not a Polymarket URL');
-    }
-
-    // Extract trader name from profile URL
-    // Examples: https://polymarket.com/@FirstOrder -> FirstOrder
-    //           https://polymarket.com/@username -> username
-    let traderName = '';
-    try {
-      const urlObj = new URL(profileUrl);
-      const pathMatch = urlObj.pathname.match(/@([^/?]+)/);
-      if (pathMatch && pathMatch[1]) {
-        traderName = pathMatch[1];
-      } else {
-        // Fallback: try to extract from page URL
-        const pagePathMatch = pageUrl.match(/@([^/?]+)/);
-        if (pagePathMatch && pagePathMatch[1]) {
-          traderName = pagePathMatch[1];
-        }
-      }
-    } catch (e) {
-      console.warn('Could not extract trader name from URL:', e);
-    }
+  try {
+    // The same trader given by username or wallet shares one cache entry
+    const trader = await getTraderResolver().resolve(params.trader);
 
-    // Wait for market links to appear (with multiple attempts)
-    let linksFound = false;
-    for (let attempt = 0; attempt < 5; attempt++) {
-      const linkCount = await page.evaluate(() => {
-        return document.querySelectorAll('a[href*="/event/"]').length;
+    let result: CachedScrapeResult;
+    if (debug) {
+      const scraped = await scrapeAndRecord(trader.profileUrl, params.source, {
+        onDiagnostics: (collected) => (diagnostics = collected),
       });
-      
-      if (linkCount > 0) {
-        linksFound = true;
-        break;
-      }
-      
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    }
-
-    if (!linksFound) {
-      // Try waiting for any table or position-related element
-      try {
-        await page.waitForSelector('table, tbody, [class*="position"]', {
-          timeout: 10000,
-        });
-      } catch {
-        // Continue anyway
-      }
+      result = { ...scraped, scrapedAt: new Date().toISOString(), age: 0, cache: 'bypass' };
+    } else {
+      result = await getScrapeCache().get(trader.profileUrl, params.source, { fresh });
     }
-
-    // Optimized scrolling to load all content (lazy loading)
-    await page.evaluate(async () => {
-      const scrollStep = 500; // Increased step for faster scrolling
-      const scrollDelay = 300; // Reduced delay
-      const maxScrolls = 50; // Reduced max scrolls
-      const waitForLoad = 500; // Reduced wait time
-
-      let lastHeight = 0;
-      let lastLinkCount = 0;
-      let scrollCount = 0;
-      let stableCount = 0;
-
-      const countMarketLinks = () => {
-        return document.querySelectorAll('a[href*="/event/"]').length;
-      };
-
-      while (scrollCount < maxScrolls && stableCount < 3) { // Reduced stable count
-        window.scrollBy(0, scrollStep);
-        await new Promise((resolve) => setTimeout(resolve, scrollDelay));
-
-        await new Promise((resolve) => setTimeout(resolve, waitForLoad));
-
-        const currentHeight = document.body.scrollHeight;
-        const currentLinkCount = countMarketLinks();
-
-        if (currentHeight === lastHeight && currentLinkCount === lastLinkCount) {
-          stableCount++;
-        } else {
-          stableCount = 0;
-        }
-
-        lastHeight = currentHeight;
-        lastLinkCount = currentLinkCount;
-        scrollCount++;
-      }
-
-      // Final scroll to bottom
-      window.scrollTo(0, document.body.scrollHeight);
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      // Scroll back to top
-      window.scrollTo(0, 0);
-      await new Promise((resolve) => setTimeout(resolve, 500));
-    });
-
-    // Wait for React to render (reduced wait time)
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    // Log link count before extraction
-    const linkCountBefore = await page.evaluate(() => {
-      return document.querySelectorAll('a[href*="/event/"]').length;
-    });
-    console.log(`Found ${linkCountBefore} market links before extraction`);
-
-    // Extract positions data using improved logic
-    const positions = await page.evaluate((trader) => {
-      const results: Position[] = [];
-
-      // Find ALL market links (not just with specific classes)
-      const allMarketLinks = Array.from(
-        document.querySelectorAll('a[href*="/event/"]')
-      ) as HTMLAnchorElement[];
-
-      // First try to find links with flex-1 and cursor-pointer (main pattern)
-      let marketLinks = allMarketLinks.filter((link) => {
-        const classes = link.className || '';
-        return (
-          classes.includes('flex-1') &&
-          classes.includes('cursor-pointer') &&
-          link.href.includes('/event/')
-        );
-      });
-
-      // If not enough links found, use all links
-      if (marketLinks.length < 5) {
-        marketLinks = allMarketLinks.filter((link) => {
-          return link.href && link.href.includes('/event/');
-        });
-      }
-
-      // For each market link, find its container and extract data
-      marketLinks.forEach((link) => {
-        try {
-          // Find parent container that contains only this market link
-          let container: Element | null = null;
-          
-          // Strategy 1: Try to find tr (table row) that contains this link
-          const tr = link.closest('tr');
-          if (tr) {
-            const linksInTr = tr.querySelectorAll('a[href*="/event/"]');
-            if (linksInTr.length === 1 && linksInTr[0] === link) {
-              container = tr;
-            }
-          }
-          
-          // Strategy 2: Try to find div with position-related classes
-          if (!container) {
-            const div = link.closest('div[class*="position"]') || 
-                       link.closest('div[class*="row"]') ||
-                       link.closest('div[role="row"]');
-            if (div) {
-              const linksInDiv = div.querySelectorAll('a[href*="/event/"]');
-              if (linksInDiv.length === 1 && linksInDiv[0] === link) {
-                container = div;
-              }
-            }
-          }
-          
-          // Strategy 3: Find the closest parent that looks like a row/container
-          if (!container) {
-            let current: Element | null = link.parentElement;
-            let depth = 0;
-            while (current && depth < 5) {
-              const linksInCurrent = current.querySelectorAll('a[href*="/event/"]');
-              // If this element contains only our link and has multiple children, it's likely a container
-              if (linksInCurrent.length === 1 && 
-                  linksInCurrent[0] === link && 
-                  current.children.length > 2) {
-                container = current;
-                break;
-              }
-              current = current.parentElement;
-              depth++;
-            }
-          }
-          
-          // Strategy 4: Fallback to parent's parent
-          if (!container) {
-            container = link.parentElement?.parentElement || link.parentElement;
-          }
-
-          if (!container) return;
-
-          // Extract market name and URL
-          const marketName = link.innerText?.trim() || link.textContent?.trim() || '';
-          let marketUrl = link.href || link.getAttribute('href') || '';
-          
-          if (marketUrl && !marketUrl.startsWith('http')) {
-            if (marketUrl.startsWith('/')) {
-              marketUrl = `https://polymarket.com${marketUrl}`;
-            } else {
-              marketUrl = `https://polymarket.com/${marketUrl}`;
-            }
-          }
-
-          if (!marketUrl) return;
-
-          // Get full container text and HTML for parsing
-          const containerText = container.textContent || container.innerText || '';
-          const containerHTML = container.innerHTML || '';
-
-          // If container is a table row, try to extract from cells
-          const isTableRow = container.tagName === 'TR';
-          const cells = isTableRow ? Array.from(container.querySelectorAll('td, th')) : [];
-
-          // Extract avg price (for exclusion) - look for "at X¢" pattern
-          let avgPrice = '';
-          const avgPatterns = [
-            /at\s+(\d+\.?\d*)\s*¢/i,
-            /avg[:\s]+(\d+\.?\d*)\s*¢/i,
-            /average[:\s]+(\d+\.?\d*)\s*¢/i,
-          ];
-          for (const pattern of avgPatterns) {
-            const match = containerText.match(pattern);
-            if (match && match[1]) {
-              avgPrice = match[1];
-              break;
-            }
-          }
-
-          // Extract current price using multiple strategies (not avg)
-          let currentPrice = '';
-          
-          // Strategy 0: If table row, look for current price in cells (not avg)
-          if (isTableRow && cells.length > 0) {
-            for (const cell of cells) {
-              const cellText = cell.textContent || '';
-              const cellLower = cellText.toLowerCase();
-              // Look for price pattern that's not avg
-              const priceMatch = cellText.match(/(\d+\.?\d*)\s*¢/);
-              if (priceMatch) {
-                // Skip if it's avg price
-                if (!cellLower.includes('at') && !cellLower.includes('avg') && !cellLower.includes('average')) {
-                  currentPrice = priceMatch[0];
-                  break;
-                }
-              }
-            }
-          }
-          
-          // Strategy 1: Find all price elements (spans, divs with ¢)
-          const priceElements = Array.from(container.querySelectorAll('span, div, p, td, th')).filter(el => {
-            const text = el.textContent || '';
-            return /\d+\.?\d*\s*¢/.test(text);
-          });
-
-          // Strategy 2: Look for price that is NOT avg
-          for (const el of priceElements) {
-            const text = el.textContent || '';
-            const priceMatch = text.match(/(\d+\.?\d*)\s*¢/);
-            if (priceMatch) {
-              const fullText = el.textContent || '';
-              const parentText = el.parentElement?.textContent || '';
-              const context = (fullText + ' ' + parentText).toLowerCase();
-              
-              // Check if it's avg price - skip if it is
-              const isAvg = /at\s+\d+\.?\d*\s*¢/i.test(context) || 
-                           /avg[:\s]+\d+\.?\d*\s*¢/i.test(context) ||
-                           /average[:\s]+\d+\.?\d*\s*¢/i.test(context);
-              
-              if (!isAvg) {
-                currentPrice = priceMatch[0];
-                break;
-              }
-            }
-          }
-
-          // Strategy 3: Look for all prices and take the one that's not avg
-          if (!currentPrice) {
-            const allPrices = containerText.match(/(\d+\.?\d*)\s*¢/g);
-            if (allPrices && allPrices.length > 0) {
-              for (const priceMatch of allPrices) {
-                const priceValue = priceMatch.match(/(\d+\.?\d*)/)?.[1];
-                if (priceValue && priceValue !== avgPrice) {
-                  const priceIndex = containerText.indexOf(priceMatch);
-                  const beforeText = containerText.substring(
-                    Math.max(0, priceIndex - 50),
-                    priceIndex
-                  ).toLowerCase();
-                  
-                  // Check if it's clearly not avg
-                  if (!beforeText.includes('at') && !beforeText.includes('avg') && !beforeText.includes('average')) {
-                    currentPrice = priceMatch;
-                    break;
-                  }
-                }
-              }
-            }
-          }
-
-          // Extract value (dollar amount) using multiple strategies
-          let value = '';
-          
-          // Strategy 0: If table row, look for value in cells
-          if (isTableRow && cells.length > 0) {
-            for (const cell of cells) {
-              const cellText = cell.textContent || '';
-              const valueMatch = cellText.match(/\$[\d,]+\.?\d*/);
-              if (valueMatch) {
-                const cellLower = cellText.toLowerCase();
-                // Prefer cells with value/PnL context
-                if (cellLower.includes('value') || cellLower.includes('pnl') || 
-                    cellLower.includes('profit') || cellLower.includes('loss')) {
-                  value = valueMatch[0];
-                  break;
-                } else if (!value) {
-                  // Take first dollar amount as fallback
-                  value = valueMatch[0];
-                }
-              }
-            }
-          }
-          
-          // Strategy 1: Look for dollar amounts in specific elements
-          const valueElements = Array.from(container.querySelectorAll('span, div, p, td, th')).filter(el => {
-            const text = el.textContent || '';
-            return /\$[\d,]+/.test(text);
-          });
-
-          for (const el of valueElements) {
-            const text = el.textContent || '';
-            const valueMatch = text.match(/\$[\d,]+\.?\d*/);
-            if (valueMatch) {
-              // Check if it's in a value/PnL context
-              const context = (el.textContent || el.parentElement?.textContent || '').toLowerCase();
-              if (context.includes('value') || context.includes('pnl') || context.includes('profit') || context.includes('loss')) {
-                value = valueMatch[0];
-                break;
-              } else if (!value) {
-                // Take first dollar amount as fallback
-                value = valueMatch[0];
-              }
-            }
-          }
-
-          // Strategy 2: Look for value patterns in text
-          if (!value) {
-            const valuePatterns = [
-              /\$[\d,]+\.?\d*/,
-              /value[:\s]+\$?([\d,]+\.?\d*)/i,
-              /PnL[:\s]+\$?([\d,]+\.?\d*)/i,
-              /profit[:\s]+\$?([\d,]+\.?\d*)/i,
-              /loss[:\s]+\$?([\d,]+\.?\d*)/i,
-            ];
-
-            for (const pattern of valuePatterns) {
-              const match = containerText.match(pattern);
-              if (match) {
-                if (match[1]) {
-                  value = `$${match[1]}`;
-                } else {
-                  value = match[0].replace(/value[:\s]+/i, '').replace(/PnL[:\s]+/i, '').replace(/profit[:\s]+/i, '').replace(/loss[:\s]+/i, '').trim();
-                }
-                break;
-              }
-            }
-          }
-
-          // Extract outcome - full text value under market name (e.g., "Down" or "3 799,4 shares at 61¢")
-          // Keep the text as it appears on the site
-          let outcome = '';
-          
-          // Strategy 1: Look for text right after market link (sibling elements)
-          const linkParent = link.parentElement;
-          if (linkParent) {
-            // Check next sibling elements
-            let current: Element | null = linkParent.nextElementSibling;
-            let depth = 0;
-            while (current && depth < 5) {
-              const text = (current.textContent || '').trim();
-              // Look for pattern: "number shares at price" or outcome name
-              if (text.includes('shares') && text.includes('at')) {
-                // Extract full text including shares and price
-                const sharesPattern = /([\d\s,]+\.?\d*)\s+shares\s+at\s+(\d+\.?\d*)\s*¢/i;
-                const match = text.match(sharesPattern);
-                if (match) {
-                  outcome = match[0].trim(); // Full match: "3 799,4 shares at 61¢"
-                  break;
-                }
-              } else if (text.length > 0 && text.length < 50) {
-                // Could be outcome name like "Down", "Up", "Yes", "No"
-                const outcomeNames = ['Down', 'Up', 'Yes', 'No', 'Trump', 'Biden'];
-                if (outcomeNames.some(name => text.includes(name))) {
-                  outcome = text;
-                  break;
-                }
-              }
-              current = current.nextElementSibling;
-              depth++;
-            }
-            
-            // If not found, check parent container's text after market name
-            if (!outcome) {
-              const parentText = linkParent.textContent || '';
-              const marketIndex = parentText.indexOf(marketName);
-              if (marketIndex >= 0) {
-                // Get text after market name (up to 300 chars)
-                const afterMarket = parentText.substring(marketIndex + marketName.length, marketIndex + marketName.length + 300).trim();
-                // Look for shares pattern
-                const sharesPattern = /([\d\s,]+\.?\d*)\s+shares\s+at\s+(\d+\.?\d*)\s*¢/i;
-                const match = afterMarket.match(sharesPattern);
-                if (match) {
-                  outcome = match[0].trim();
-                } else {
-                  // Try to find outcome name or first meaningful text
-                  const firstLine = afterMarket.split('\n')[0].trim();
-                  if (firstLine.length > 0 && firstLine.length < 100) {
-                    outcome = firstLine;
-                  }
-                }
-              }
-            }
-          }
-          
-          // Strategy 2: Search in container text for shares pattern or outcome name
-          if (!outcome) {
-            // Pattern: "number shares at price" - keep full text
-            const sharesPattern = /([\d\s,]+\.?\d*)\s+shares\s+at\s+(\d+\.?\d*)\s*¢/i;
-            const match = containerText.match(sharesPattern);
-            if (match) {
-              outcome = match[0].trim();
-            } else {
-              // Look for outcome name near market name
-              const outcomeNames = ['Down', 'Up', 'Yes', 'No', 'Trump', 'Biden'];
-              const marketIndex = containerText.indexOf(marketName);
-              if (marketIndex >= 0) {
-                const afterMarket = containerText.substring(marketIndex + marketName.length, marketIndex + marketName.length + 200);
-                for (const name of outcomeNames) {
-                  const nameIndex = afterMarket.indexOf(name);
-                  if (nameIndex >= 0 && nameIndex < 100) {
-                    // Get text starting from outcome name
-                    const outcomeText = afterMarket.substring(nameIndex).split('\n')[0].trim();
-                    if (outcomeText.length > 0 && outcomeText.length < 150) {
-                      outcome = outcomeText;
-                      break;
-                    }
-                  }
-                }
-              }
-            }
-          }
-          
-          // Strategy 3: If still not found, try to find text after market name in container
-          if (!outcome) {
-            const marketIndex = containerText.indexOf(marketName);
-            if (marketIndex >= 0) {
-              const afterMarket = containerText.substring(marketIndex + marketName.length).trim();
-              // Get first meaningful line (not empty, reasonable length)
-              const lines = afterMarket.split('\n').map(l => l.trim()).filter(l => l.length > 0);
-              if (lines.length > 0) {
-                const firstLine = lines[0];
-                if (firstLine.length > 0 && firstLine.length < 200) {
-                  outcome = firstLine;
-                }
-              }
-            }
-          }
-
-          // Only add if we have at least market URL
-          if (marketUrl) {
-            const position = {
-              trader: trader || '',
-              marketName: marketName || 'Unknown Market',
-              marketUrl,
-              outcome: outcome || '',
-              currentPrice: currentPrice || '',
-              value: value || '',
-            };
-            
-            // Log for debugging (only first few)
-            if (results.length < 3) {
-              console.log('Parsed position:', {
-                market: position.marketName.substring(0, 50),
-                outcome: position.outcome || '(empty)',
-                currentPrice: position.currentPrice || '(empty)',
-                value: position.value || '(empty)',
-              });
-            }
-            
-            results.push(position);
-          }
-        } catch (error) {
-          // Skip this position if there's an error
-          console.error('Error extracting position:', error);
-        }
+    const { positions, snapshotId, alerts, warnings, loadReport, scrapedAt, age, cache } = result;
+
+    if (format !== 'json') {
+      const file = exportPositions(positions, format, trader.trader);
+      return new NextResponse(file.body, {
+        headers: {
+          'Content-Type': file.contentType,
+          'Content-Disposition': `attachment; filename="${file.filename}"`,
+        },
       });
+    }
 
-      // Remove duplicates based on marketUrl
-      const uniqueResults: Position[] = [];
-      const seenUrls = new Set<string>();
-
-      for (const pos of results) {
-        const normalizedUrl = pos.marketUrl.split('?')[0].split('#')[0].toLowerCase().replace(/\/$/, '');
-        if (!seenUrls.has(normalizedUrl)) {
-          seenUrls.add(normalizedUrl);
-          uniqueResults.push(pos);
-        }
-      }
-
-      return uniqueResults;
-    }, traderName);
-
-    await browser.close();
-
-    // Log results for debugging
-    console.log(`Scraped ${positions.length} positions from ${profileUrl}`);
-
+    // The source confirmed the profile has no open positions
     if (positions.length === 0) {
-      return NextResponse.json(
-        {
-          error: 'No positions found',
-          message: 'The page may not have loaded correctly or the profile has no positions. Make sure the URL includes ?tab=positions',
-          positions: [],
-          count: 0,
-        },
-        { status: 200 }
-      );
+      return NextResponse.json({
+        code: 'EMPTY_PORTFOLIO',
+        message: SCRAPE_ERRORS.EMPTY_PORTFOLIO.hint,
+        positions: [],
+        count: 0,
+        trader,
+        warnings,
+        loadReport,
+        scrapedAt,
+        age,
+        cache,
+        ...debugFields(),
+      });
     }
 
-    return NextResponse.json({ positions, count: positions.length });
+    // Version of the selector profile that matched (DOM scrapes only)
+    const selectorProfile = positions.find((pos) => pos.extraction)?.extraction?.profile ?? null;
+
+    return NextResponse.json({
+      positions,
+      count: positions.length,
+      trader,
+      snapshotId,
+      alerts,
+      warnings,
+      loadReport,
+      selectorProfile,
+      scrapedAt,
+      age,
+      cache,
+      ...debugFields(),
+    });
   } catch (error: any) {
     console.error('Scraping error:', error);
-    
-    if (browser) {
-      try {
-        await browser.close();
-      } catch (closeError) {
-        console.error('Error closing browser:', closeError);
-      }
-    }
 
+    const scrapeError = toScrapeError(error);
     return NextResponse.json(
       {
-        error: 'Scraping failed',
-        message: error.message || 'Unknown error occurred',
+        ...scrapeErrorBody(scrapeError),
         details: process.env.NODE_ENV === 'development' ? error.stack : undefined,
+        ...debugFields(),
       },
-      { status: 500 }
+      { status: scrapeError.status }
     );
   }
-}
-
+}, { scrape: true });
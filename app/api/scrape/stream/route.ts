@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withApiKey } from '@/lib/api-keys/guard';
+import { SCRAPE_ERRORS, scrapeErrorBody, toScrapeError } from '@/lib/errors';
+import { parseScrapeParams } from '@/lib/scrape';
+import { getScrapeCache } from '@/lib/scrape-cache';
+import { formatEvent } from '@/lib/sse';
+import { getTraderResolver } from '@/lib/trader-resolver';
+
+export const maxDuration = 300;
+
+const KEEP_ALIVE_INTERVAL = 15000; // Comment line so proxies don't drop a quiet stream
+
+// Same as /api/scrape, streamed as Server-Sent Events:
+//   progress  { stage, ... }              navigating, links-found, scrolling, fetching, extracting
+//   positions { positions, total }        newly parsed positions, to fill the table early
+//   done      { positions, count, trader, snapshotId, alerts, warnings, loadReport, scrapedAt, age, cache, code?, message? }
+//   error     { error, code, message, retryable }
+// A cached result is sent as "done" right away (?fresh=1 skips the cache).
+export const GET = withApiKey(async (request: NextRequest) => {
+  const params = parseScrapeParams(request.nextUrl.searchParams);
+  if ('error' in params) {
+    return NextResponse.json({ error: params.error, code: params.code }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Client went away; the scrape still finishes and is recorded
+          closed = true;
+        }
+      };
+      const send = (event: string, data: unknown) => write(formatEvent(event, data));
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL);
+      request.signal.addEventListener('abort', () => (closed = true));
+
+      try {
+        const trader = await getTraderResolver().resolve(params.trader);
+        const result = await getScrapeCache().get(trader.profileUrl, params.source, {
+          fresh: request.nextUrl.searchParams.get('fresh') === '1',
+          onProgress: ({ stage, ...progress }) => {
+            if (stage === 'positions') {
+              send('positions', progress);
+            } else {
+              send('progress', { stage, ...progress });
+            }
+          },
+        });
+
+        send('done', {
+          positions: result.positions,
+          count: result.positions.length,
+          trader,
+          snapshotId: result.snapshotId,
+          alerts: result.alerts,
+          warnings: result.warnings,
+          loadReport: result.loadReport,
+          scrapedAt: result.scrapedAt,
+          age: result.age,
+          cache: result.cache,
+          ...(result.positions.length === 0
+            ? { code: 'EMPTY_PORTFOLIO', message: SCRAPE_ERRORS.EMPTY_PORTFOLIO.hint }
+            : {}),
+        });
+      } catch (error: any) {
+        console.error('Scraping error:', error);
+        send('error', scrapeErrorBody(toScrapeError(error)));
+      } finally {
+        clearInterval(keepAlive);
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}, { scrape: true });
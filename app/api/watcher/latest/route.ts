@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { withApiKey } from '@/lib/api-keys/guard';
+import { getLatestSnapshotForProfile, summarizeSnapshot } from '@/lib/history/store';
+import { enrichPositions } from '@/lib/markets/enrich';
+import { getWatcher } from '@/lib/watcher/scheduler';
+
+export const dynamic = 'force-dynamic';
+
+// Latest stored positions for every profile on the watchlist
+export const GET = withApiKey(async () => {
+  try {
+    const targets = await getWatcher().targets();
+    const snapshots = (
+      await Promise.all(targets.map((target) => getLatestSnapshotForProfile(target.profileUrl)))
+    ).filter((snapshot): snapshot is NonNullable<typeof snapshot> => snapshot !== null);
+
+    return NextResponse.json({
+      // Stored without market metadata
+      positions: await enrichPositions(snapshots.flatMap((snapshot) => snapshot.positions)),
+      snapshots: snapshots.map(summarizeSnapshot),
+    });
+  } catch (error: any) {
+    console.error('Watcher latest error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load latest positions', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAdminToken, withApiKey } from '@/lib/api-keys/guard';
+import { getWatcher } from '@/lib/watcher/scheduler';
+
+// Status changes between requests, so never render this at build time
+export const dynamic = 'force-dynamic';
+
+export const GET = withApiKey(async () => {
+  try {
+    return NextResponse.json(await getWatcher().status());
+  } catch (error: any) {
+    console.error('Watcher status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load watcher status', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// Control the watcher: { action: 'start' | 'stop' | 'run', profileUrl? }
+export const POST = withAdminToken(async (request: NextRequest) => {
+  const body = await request.json().catch(() => null);
+  const watcher = getWatcher();
+
+  try {
+    switch (body?.action) {
+      case 'start':
+        watcher.start();
+        break;
+      case 'stop':
+        watcher.stop();
+        break;
+      case 'run': {
+        const profileUrl = typeof body.profileUrl === 'string' ? body.profileUrl : undefined;
+        if (!(await watcher.runNow(profileUrl))) {
+          return NextResponse.json(
+            { error: profileUrl ? 'Profile is not on the watchlist' : 'Watchlist is empty' },
+            { status: 404 }
+          );
+        }
+        break;
+      }
+      default:
+        return NextResponse.json({ error: 'action must be one of: start, stop, run' }, { status: 400 });
+    }
+
+    return NextResponse.json(await watcher.status());
+  } catch (error: any) {
+    console.error('Watcher error:', error);
+    return NextResponse.json(
+      { error: 'Watcher action failed', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
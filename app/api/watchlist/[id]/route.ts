@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest, withApiKey } from '@/lib/api-keys/guard';
+import { parseTraderInput } from '@/lib/trader';
+import { getTraderResolver } from '@/lib/trader-resolver';
+import { deleteWatchlistEntry, findWatchlistEntryForTrader, updateWatchlistEntry } from '@/lib/watchlist/store';
+import { parseWatchlistInput } from '@/lib/watchlist/validate';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Update any field of a watchlist entry, e.g. { enabled: false } or { tags: ['whales'] }.
+// Changing the schedule or source needs the admin token, as when adding.
+export const PATCH = withApiKey(async (request: NextRequest, { params }: RouteContext) => {
+  const id = parseInt(params.id, 10);
+  const body = await request.json().catch(() => null);
+  if (!Number.isFinite(id) || !body) {
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+  }
+
+  let changes;
+  try {
+    changes = parseWatchlistInput(body, true);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if ((changes.schedule !== undefined || changes.source !== undefined) && !isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Admin token required to change the schedule or source' }, { status: 403 });
+  }
+
+  try {
+    if (changes.profileUrl) {
+      const trader = await getTraderResolver().resolve(parseTraderInput(changes.profileUrl));
+      changes.profileUrl = trader.profileUrl;
+      const existing = await findWatchlistEntryForTrader(trader);
+      if (existing && existing.id !== id) {
+        return NextResponse.json({ error: 'Trader is already on the watchlist' }, { status: 409 });
+      }
+    }
+
+    const entry = await updateWatchlistEntry(id, changes);
+    if (!entry) {
+      return NextResponse.json({ error: 'Watchlist entry not found' }, { status: 404 });
+    }
+    return NextResponse.json(entry);
+  } catch (error: any) {
+    console.error('Watchlist error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update watchlist entry', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withApiKey(async (_request: NextRequest, { params }: RouteContext) => {
+  const id = parseInt(params.id, 10);
+  if (!Number.isFinite(id)) {
+    return NextResponse.json({ error: 'Invalid watchlist entry id' }, { status: 400 });
+  }
+
+  try {
+    if (!(await deleteWatchlistEntry(id))) {
+      return NextResponse.json({ error: 'Watchlist entry not found' }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error: any) {
+    console.error('Watchlist error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete watchlist entry', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest, withApiKey } from '@/lib/api-keys/guard';
+import { parseTraderInput } from '@/lib/trader';
+import { getTraderResolver } from '@/lib/trader-resolver';
+import { createWatchlistEntry, findWatchlistEntryForTrader, listWatchlist } from '@/lib/watchlist/store';
+import { parseWatchlistInput } from '@/lib/watchlist/validate';
+
+// Watchlist entries, optionally only those in a group or with a tag
+export const GET = withApiKey(async (request: NextRequest) => {
+  const searchParams = request.nextUrl.searchParams;
+  const group = searchParams.get('group');
+  const tag = searchParams.get('tag')?.toLowerCase();
+
+  try {
+    const entries = (await listWatchlist())
+      .filter((entry) => !group || entry.group === group)
+      .filter((entry) => !tag || entry.tags.includes(tag));
+    return NextResponse.json({ entries });
+  } catch (error: any) {
+    console.error('Watchlist error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load watchlist', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
+
+// Add a trader: { input: url | @username | wallet, label?, tags?, group?, enabled?, schedule?, source? }
+// A schedule or source needs the admin token: the watcher scrapes scheduled
+// entries on the server's behalf, outside any API key's limits.
+export const POST = withApiKey(async (request: NextRequest) => {
+  const body = await request.json().catch(() => null);
+
+  let input;
+  try {
+    input = parseWatchlistInput(body);
+  } catch (error: any) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if ((input.schedule || input.source) && !isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Admin token required to set a schedule or source' }, { status: 403 });
+  }
+
+  try {
+    // Stored by username when the trader has one, so either form finds the entry
+    const trader = await getTraderResolver().resolve(parseTraderInput(input.profileUrl!));
+    if (await findWatchlistEntryForTrader(trader)) {
+      return NextResponse.json({ error: 'Trader is already on the watchlist' }, { status: 409 });
+    }
+    const entry = await createWatchlistEntry({ ...input, profileUrl: trader.profileUrl });
+    return NextResponse.json(entry, { status: 201 });
+  } catch (error: any) {
+    console.error('Watchlist error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add to watchlist', message: error.message || 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+});
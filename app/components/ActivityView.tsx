@@ -0,0 +1,270 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ExternalLink, History, Loader2 } from 'lucide-react';
+import type { ClosedPosition, Trade } from '@/lib/activity';
+import { apiFetch } from '@/lib/api-client';
+import { formatCents, formatShares, formatUsd } from '@/lib/format';
+import type { SourceId } from '@/lib/sources/types';
+import type { WatchlistEntry } from '@/lib/watchlist/types';
+
+interface ActivityViewProps {
+  entries: WatchlistEntry[];
+  source: SourceId;
+}
+
+interface ClosedState {
+  positions: ClosedPosition[];
+  realizedPnl: number;
+  error: string | null;   // Set when the source can't list closed positions
+}
+
+const thClass = 'px-4 py-3 text-left text-sm font-semibold text-gray-300';
+const tdClass = 'px-4 py-3 text-gray-300';
+
+const formatTime = (timestamp: string | null) => (timestamp ? new Date(timestamp).toLocaleString() : '-');
+
+const pnlClass = (pnl: number | null) =>
+  pnl === null || pnl === 0 ? 'text-gray-300' : pnl > 0 ? 'text-green-400' : 'text-red-400';
+
+function describeTrade(trade: Trade): string {
+  if (trade.type === 'trade') return trade.action === 'sell' ? 'Sell' : 'Buy';
+  return trade.type.charAt(0).toUpperCase() + trade.type.slice(1);
+}
+
+async function fetchJson(url: string) {
+  const response = await apiFetch(url);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `HTTP ${response.status}`);
+  }
+  return data;
+}
+
+// Trade history and closed positions of one watchlist trader
+export default function ActivityView({ entries, source }: ActivityViewProps) {
+  const [entryId, setEntryId] = useState<number | null>(null);
+  const [trades, setTrades] = useState<Trade[] | null>(null);
+  const [closed, setClosed] = useState<ClosedState | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to the first trader once the watchlist has loaded
+  useEffect(() => {
+    if (entryId === null || !entries.some((entry) => entry.id === entryId)) {
+      setEntryId(entries[0]?.id ?? null);
+    }
+  }, [entries, entryId]);
+
+  const entry = entries.find((e) => e.id === entryId);
+  const activitySource = entry?.source || source;
+
+  const load = async () => {
+    if (!entry) return;
+    const profileParam = `profileUrl=${encodeURIComponent(entry.profileUrl)}`;
+
+    setLoading(true);
+    setError(null);
+    setTrades(null);
+    setClosed(null);
+
+    const [activityResult, closedResult] = await Promise.allSettled([
+      fetchJson(`/api/activity?${profileParam}&source=${activitySource}`),
+      // Only the data API lists closed positions; the profile page has no list to scrape
+      fetchJson(`/api/closed-positions?${profileParam}&source=data-api`),
+    ]);
+
+    if (activityResult.status === 'fulfilled') {
+      setTrades(activityResult.value.trades);
+    } else {
+      setError(activityResult.reason.message);
+    }
+    setClosed(
+      closedResult.status === 'fulfilled'
+        ? { positions: closedResult.value.positions, realizedPnl: closedResult.value.realizedPnl, error: null }
+        : { positions: [], realizedPnl: 0, error: closedResult.reason.message }
+    );
+    setLoading(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-900 rounded-lg p-4 border border-gray-800 flex flex-wrap items-center gap-3">
+        <label htmlFor="activityTrader" className="text-sm text-gray-300">
+          Trader
+        </label>
+        <select
+          id="activityTrader"
+          name="activityTrader"
+          value={entryId ?? ''}
+          onChange={(e) => setEntryId(parseInt(e.target.value, 10))}
+          disabled={entries.length === 0}
+          className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-white text-sm"
+        >
+          {entries.length === 0 && <option value="">Add a trader to the watchlist first</option>}
+          {entries.map((e) => (
+            <option key={e.id} value={e.id}>
+              {e.label || e.trader}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={load}
+          disabled={!entry || loading}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed rounded-lg text-sm font-medium flex items-center gap-2"
+        >
+          {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <History className="w-4 h-4" />}
+          Load activity
+        </button>
+        {closed && !closed.error && (
+          <p className="ml-auto text-sm text-gray-400">
+            Realized PnL:{' '}
+            <span className={`font-mono font-semibold ${pnlClass(closed.realizedPnl)}`}>
+              {formatUsd(closed.realizedPnl)}
+            </span>
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-700 rounded-lg p-4">
+          <p className="text-red-200">{error}</p>
+        </div>
+      )}
+
+      {loading && (
+        <div className="bg-gray-900 rounded-lg border border-gray-800 p-12 text-center">
+          <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4 text-blue-500" />
+          <p className="text-gray-400">Loading activity... Browser scraping may take a few minutes.</p>
+        </div>
+      )}
+
+      {trades && (
+        <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
+          <h3 className="px-4 py-3 border-b border-gray-800 font-semibold">
+            Trades <span className="text-sm font-normal text-gray-400">({trades.length})</span>
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-800 border-b border-gray-700">
+                <tr>
+                  <th className={thClass}>Time</th>
+                  <th className={thClass}>Type</th>
+                  <th className={thClass}>Market</th>
+                  <th className={thClass}>Outcome</th>
+                  <th className={thClass}>Shares</th>
+                  <th className={thClass}>Price</th>
+                  <th className={thClass}>Value</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-800">
+                {trades.length > 0 ? (
+                  trades.map((trade, index) => (
+                    <tr key={`${trade.transactionHash || trade.marketUrl}-${index}`} className="hover:bg-gray-800/50 transition-colors">
+                      <td className={`${tdClass} text-sm whitespace-nowrap`}>{formatTime(trade.timestamp)}</td>
+                      <td
+                        className={`px-4 py-3 font-medium ${
+                          trade.action === 'buy' ? 'text-green-400' : trade.action === 'sell' ? 'text-red-400' : 'text-gray-300'
+                        }`}
+                      >
+                        {describeTrade(trade)}
+                      </td>
+                      <td className="px-4 py-3">
+                        <a
+                          href={trade.marketUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-400 hover:text-blue-300 flex items-center gap-1 group"
+                        >
+                          {trade.marketName || 'Unknown Market'}
+                          <ExternalLink className="w-3 h-3 opacity-0 group-hover:opacity-100 transition-opacity" />
+                        </a>
+                      </td>
+                      <td className={tdClass}>{trade.side || '-'}</td>
+                      <td className={`${tdClass} font-mono`}>{trade.shares !== null ? formatShares(trade.shares) : '-'}</td>
+                      <td className={`${tdClass} font-mono`}>{trade.price !== null ? formatCents(trade.price) : '-'}</td>
+                      <td className={`${tdClass} font-mono`}>{trade.usdValue !== null ? formatUsd(trade.usdValue) : '-'}</td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-gray-400">
+                      No activity found
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {closed && (
+        <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
+          <h3 className="px-4 py-3 border-b border-gray-800 font-semibold">
+            Closed positions <span className="text-sm font-normal text-gray-400">({closed.positions.length})</span>
+            {activitySource !== 'data-api' && (
+              <span className="ml-2 text-xs font-normal text-gray-500">from the data API</span>
+            )}
+          </h3>
+          {closed.error ? (
+            <p className="px-4 py-6 text-sm text-gray-400">{closed.error}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-800 border-b border-gray-700">
+                  <tr>
+                    <th className={thClass}>Closed</th>
+                    <th className={thClass}>Market</th>
+                    <th className={thClass}>Outcome</th>
+                    <th className={thClass}>Shares</th>
+                    <th className={thClass}>Avg Price</th>
+                    <th className={thClass}>Exit Price</th>
+                    <th className={thClass}>Realized PnL</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800">
+                  {closed.positions.length > 0 ? (
+                    closed.positions.map((pos, index) => (
+                      <tr key={`${pos.marketUrl}-${pos.side}-${index}`} className="hover:bg-gray-800/50 transition-colors">
+                        <td className={`${tdClass} text-sm whitespace-nowrap`}>{formatTime(pos.closedAt)}</td>
+                        <td className="px-4 py-3">
+                          <a
+                            href={pos.marketUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-400 hover:text-blue-300 flex items-center gap-1 group"
+                          >
+                            {pos.marketName || 'Unknown Market'}
+                            <ExternalLink className="w-3 h-3 opacity-0 group-hover:opacity-100 transition-opacity" />
+                          </a>
+                        </td>
+                        <td className={tdClass}>
+                          {pos.side || '-'}
+                          {pos.resolved && <span className="ml-2 text-xs text-gray-500">resolved</span>}
+                        </td>
+                        <td className={`${tdClass} font-mono`}>{pos.shares !== null ? formatShares(pos.shares) : '-'}</td>
+                        <td className={`${tdClass} font-mono`}>{pos.avgPrice !== null ? formatCents(pos.avgPrice) : '-'}</td>
+                        <td className={`${tdClass} font-mono`}>{pos.exitPrice !== null ? formatCents(pos.exitPrice) : '-'}</td>
+                        <td className={`px-4 py-3 font-mono ${pnlClass(pos.realizedPnl)}`}>
+                          {pos.realizedPnl !== null ? formatUsd(pos.realizedPnl) : '-'}
+                        </td>
+                      </tr>
+                    ))
+                  ) : (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-8 text-center text-gray-400">
+                        No closed positions found
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
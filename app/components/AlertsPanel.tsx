@@ -0,0 +1,386 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Bell, ChevronDown, ChevronRight, Plus, Send, Trash2 } from 'lucide-react';
+import { AlertCondition, AlertEvent, AlertRule, Webhook, WebhookFormat } from '@/lib/alerts/types';
+import { adminFetch, apiFetch } from '@/lib/api-client';
+import { formatCents, formatUsd } from '@/lib/format';
+
+interface AlertsPanelProps {
+  refreshKey: number;  // Changes after every scrape so new alerts are loaded
+}
+
+type ConditionType = AlertCondition['type'];
+
+const inputClass =
+  'px-2 py-1.5 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-white text-xs';
+
+function describeCondition(condition: AlertCondition): string {
+  const trader = condition.trader ? `@${condition.trader.replace(/^@/, '')}` : 'Any trader';
+  switch (condition.type) {
+    case 'position-opened':
+      return `${trader} opens a position${condition.minValue ? ` over ${formatUsd(condition.minValue)}` : ''}`;
+    case 'market-match':
+      return `${trader} enters a market matching "${condition.pattern}"`;
+    case 'price-cross':
+      return `Price of a position${condition.market ? ` in "${condition.market}"` : ''} held by ${trader.toLowerCase()} crosses ${condition.direction} ${formatCents(condition.threshold)}`;
+  }
+}
+
+// Alert rules, webhook targets and the list of triggered alerts
+export default function AlertsPanel({ refreshKey }: AlertsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const [ruleForm, setRuleForm] = useState({
+    name: '',
+    type: 'position-opened' as ConditionType,
+    trader: '',
+    minValue: '',
+    pattern: '',
+    threshold: '90',
+    direction: 'above' as 'above' | 'below',
+    market: '',
+  });
+  const [webhookForm, setWebhookForm] = useState({
+    name: '',
+    url: '',
+    format: 'generic' as WebhookFormat,
+    chatId: '',
+  });
+
+  const loadEvents = useCallback(async () => {
+    try {
+      const response = await apiFetch('/api/alerts?limit=50');
+      if (response.ok) {
+        setEvents((await response.json()).events);
+      }
+    } catch (e) {
+      console.warn('Error loading alerts:', e);
+    }
+  }, []);
+
+  const loadConfig = useCallback(async () => {
+    try {
+      const [rulesResponse, webhooksResponse] = await Promise.all([
+        apiFetch('/api/alerts/rules'),
+        adminFetch('/api/alerts/webhooks'),
+      ]);
+      if (rulesResponse.ok) setRules((await rulesResponse.json()).rules);
+      if (webhooksResponse.ok) {
+        setWebhooks((await webhooksResponse.json()).webhooks);
+      } else if (webhooksResponse.status === 401) {
+        setFormError('Webhooks and rule changes need the admin token; enter it on the /admin page');
+      }
+    } catch (e) {
+      console.warn('Error loading alert config:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents, refreshKey]);
+
+  useEffect(() => {
+    if (expanded) {
+      loadConfig();
+    }
+  }, [expanded, loadConfig]);
+
+  // POST/PATCH/DELETE helper that surfaces API validation errors in the form.
+  // Changing rules and webhooks needs the admin token (entered on /admin).
+  const send = async (url: string, method: string, body?: unknown) => {
+    setFormError(null);
+    const response = await adminFetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setFormError(data.error || data.message || 'Request failed');
+      return null;
+    }
+    return data;
+  };
+
+  const addRule = async () => {
+    const condition =
+      ruleForm.type === 'position-opened'
+        ? { type: ruleForm.type, trader: ruleForm.trader, minValue: ruleForm.minValue }
+        : ruleForm.type === 'market-match'
+          ? { type: ruleForm.type, trader: ruleForm.trader, pattern: ruleForm.pattern }
+          : {
+              type: ruleForm.type,
+              trader: ruleForm.trader,
+              market: ruleForm.market,
+              direction: ruleForm.direction,
+              threshold: Number(ruleForm.threshold) / 100,
+            };
+    if (await send('/api/alerts/rules', 'POST', { name: ruleForm.name, condition })) {
+      setRuleForm((prev) => ({ ...prev, name: '', pattern: '', market: '' }));
+      loadConfig();
+    }
+  };
+
+  const addWebhook = async () => {
+    if (await send('/api/alerts/webhooks', 'POST', webhookForm)) {
+      setWebhookForm({ name: '', url: '', format: 'generic', chatId: '' });
+      loadConfig();
+    }
+  };
+
+  const testWebhook = async (webhook: Webhook) => {
+    setFormError(null);
+    const response = await adminFetch(`/api/alerts/webhooks/${webhook.id}/test`, { method: 'POST' });
+    const data = await response.json().catch(() => ({}));
+    setFormError(data.delivered ? `Test alert sent to ${webhook.name}` : data.error || 'Test delivery failed');
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-lg border border-gray-800 mb-6">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="flex items-center gap-2 font-semibold">
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <Bell className="w-4 h-4" />
+          Alerts
+          {events.length > 0 && (
+            <span className="text-xs font-normal text-gray-400">({events.length} recent)</span>
+          )}
+        </span>
+      </button>
+
+      {events.length > 0 && (
+        <ul className="px-4 pb-3 space-y-1 max-h-48 overflow-y-auto">
+          {events.slice(0, expanded ? 50 : 3).map((event) => (
+            <li key={event.id} className="text-xs flex items-start gap-2">
+              <span className="text-gray-500 font-mono flex-shrink-0">
+                {new Date(event.triggeredAt).toLocaleString()}
+              </span>
+              <span className="text-amber-300 flex-shrink-0">{event.ruleName}</span>
+              <a
+                href={event.position.marketUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-gray-300 hover:text-blue-300"
+              >
+                {event.message}
+              </a>
+              {event.deliveryErrors.length > 0 && (
+                <span className="text-red-400 flex-shrink-0" title={event.deliveryErrors.join('\n')}>
+                  (delivery failed)
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {expanded && (
+        <div className="border-t border-gray-800 p-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {formError && (
+            <p className="lg:col-span-2 text-sm text-amber-300">{formError}</p>
+          )}
+
+          {/* Rules */}
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Rules</h3>
+            <ul className="space-y-1 mb-3">
+              {rules.map((rule) => (
+                <li key={rule.id} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    onChange={async (e) => {
+                      if (await send(`/api/alerts/rules/${rule.id}`, 'PATCH', { enabled: e.target.checked })) loadConfig();
+                    }}
+                    className="w-3 h-3 rounded bg-gray-800 border-gray-700"
+                  />
+                  <span className={rule.enabled ? 'text-gray-200' : 'text-gray-500'}>
+                    <span className="font-medium">{rule.name}</span> — {describeCondition(rule.condition)}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={async () => {
+                      if (await send(`/api/alerts/rules/${rule.id}`, 'DELETE')) loadConfig();
+                    }}
+                    className="ml-auto text-gray-500 hover:text-red-400"
+                    title="Delete rule"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+              {rules.length === 0 && <li className="text-xs text-gray-500">No rules yet</li>}
+            </ul>
+
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                value={ruleForm.name}
+                onChange={(e) => setRuleForm((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="Rule name"
+                className={inputClass}
+              />
+              <select
+                value={ruleForm.type}
+                onChange={(e) => setRuleForm((prev) => ({ ...prev, type: e.target.value as ConditionType }))}
+                className={inputClass}
+              >
+                <option value="position-opened">Opens a position</option>
+                <option value="market-match">Enters matching market</option>
+                <option value="price-cross">Price crosses</option>
+              </select>
+              <input
+                value={ruleForm.trader}
+                onChange={(e) => setRuleForm((prev) => ({ ...prev, trader: e.target.value }))}
+                placeholder="Trader (empty = any)"
+                className={inputClass}
+              />
+              {ruleForm.type === 'position-opened' && (
+                <input
+                  type="number"
+                  value={ruleForm.minValue}
+                  onChange={(e) => setRuleForm((prev) => ({ ...prev, minValue: e.target.value }))}
+                  placeholder="Min value ($)"
+                  className={inputClass}
+                />
+              )}
+              {ruleForm.type === 'market-match' && (
+                <input
+                  value={ruleForm.pattern}
+                  onChange={(e) => setRuleForm((prev) => ({ ...prev, pattern: e.target.value }))}
+                  placeholder="Market text or regex"
+                  className={inputClass}
+                />
+              )}
+              {ruleForm.type === 'price-cross' && (
+                <>
+                  <div className="flex gap-1">
+                    <select
+                      value={ruleForm.direction}
+                      onChange={(e) => setRuleForm((prev) => ({ ...prev, direction: e.target.value as 'above' | 'below' }))}
+                      className={`${inputClass} flex-1`}
+                    >
+                      <option value="above">Above</option>
+                      <option value="below">Below</option>
+                    </select>
+                    <input
+                      type="number"
+                      value={ruleForm.threshold}
+                      onChange={(e) => setRuleForm((prev) => ({ ...prev, threshold: e.target.value }))}
+                      placeholder="¢"
+                      className={`${inputClass} w-16`}
+                    />
+                  </div>
+                  <input
+                    value={ruleForm.market}
+                    onChange={(e) => setRuleForm((prev) => ({ ...prev, market: e.target.value }))}
+                    placeholder="Market filter (optional)"
+                    className={inputClass}
+                  />
+                </>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={addRule}
+              className="mt-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg text-xs font-medium flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" />
+              Add rule
+            </button>
+          </div>
+
+          {/* Webhooks */}
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Webhooks</h3>
+            <ul className="space-y-1 mb-3">
+              {webhooks.map((webhook) => (
+                <li key={webhook.id} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={webhook.enabled}
+                    onChange={async (e) => {
+                      if (await send(`/api/alerts/webhooks/${webhook.id}`, 'PATCH', { enabled: e.target.checked })) loadConfig();
+                    }}
+                    className="w-3 h-3 rounded bg-gray-800 border-gray-700"
+                  />
+                  <span className={webhook.enabled ? 'text-gray-200' : 'text-gray-500'}>
+                    <span className="font-medium">{webhook.name}</span> ({webhook.format})
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => testWebhook(webhook)}
+                    className="ml-auto text-gray-500 hover:text-blue-400"
+                    title="Send test alert"
+                  >
+                    <Send className="w-3 h-3" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={async () => {
+                      if (await send(`/api/alerts/webhooks/${webhook.id}`, 'DELETE')) loadConfig();
+                    }}
+                    className="text-gray-500 hover:text-red-400"
+                    title="Delete webhook"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+              {webhooks.length === 0 && <li className="text-xs text-gray-500">No webhooks yet</li>}
+            </ul>
+
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                value={webhookForm.name}
+                onChange={(e) => setWebhookForm((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="Name"
+                className={inputClass}
+              />
+              <select
+                value={webhookForm.format}
+                onChange={(e) => setWebhookForm((prev) => ({ ...prev, format: e.target.value as WebhookFormat }))}
+                className={inputClass}
+              >
+                <option value="generic">Generic JSON</option>
+                <option value="slack">Slack</option>
+                <option value="discord">Discord</option>
+                <option value="telegram">Telegram</option>
+              </select>
+              <input
+                value={webhookForm.url}
+                onChange={(e) => setWebhookForm((prev) => ({ ...prev, url: e.target.value }))}
+                placeholder="https://..."
+                className={`${inputClass} col-span-2`}
+              />
+              {webhookForm.format === 'telegram' && (
+                <input
+                  value={webhookForm.chatId}
+                  onChange={(e) => setWebhookForm((prev) => ({ ...prev, chatId: e.target.value }))}
+                  placeholder="Telegram chat ID"
+                  className={`${inputClass} col-span-2`}
+                />
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={addWebhook}
+              className="mt-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg text-xs font-medium flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" />
+              Add webhook
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  AnalyticsPoint,
+  computeAnalytics,
+  NEAR_RESOLUTION_HIGH,
+  NEAR_RESOLUTION_LOW,
+} from '@/lib/analytics';
+import { apiFetch } from '@/lib/api-client';
+import { formatCents, formatCompactUsd, formatUsd } from '@/lib/format';
+import { Position } from '@/lib/position';
+import { BarList, Histogram, LineChart } from './Charts';
+
+interface AnalyticsViewProps {
+  positions: Position[];
+}
+
+const HISTORY_LIMIT = 200;
+const TOP_CATEGORIES = 8;
+
+const formatPct = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+const pnlClass = (pnl: number) => (pnl > 0 ? 'text-green-400' : pnl < 0 ? 'text-red-400' : 'text-gray-200');
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-gray-900 rounded-lg border border-gray-800 p-4">
+      <h3 className="text-sm font-semibold text-gray-300 mb-3">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+function Metric({ label, value, className = 'text-gray-100' }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="bg-gray-900 rounded-lg border border-gray-800 p-4">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className={`text-xl font-mono font-semibold ${className}`}>{value}</p>
+    </div>
+  );
+}
+
+// Portfolio stats of the (filtered) positions, per trader or across all of
+// them, plus charts over the trader's stored snapshots
+export default function AnalyticsView({ positions }: AnalyticsViewProps) {
+  const [trader, setTrader] = useState('');   // '' = all traders
+  const [history, setHistory] = useState<AnalyticsPoint[] | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  const traders = useMemo(
+    () => Array.from(new Set(positions.map((pos) => pos.trader).filter(Boolean))).sort(),
+    [positions]
+  );
+
+  const stats = useMemo(
+    () => computeAnalytics(trader ? positions.filter((pos) => pos.trader === trader) : positions),
+    [positions, trader]
+  );
+
+  // Snapshots are stored per trader, so history needs one selected
+  useEffect(() => {
+    setHistory(null);
+    if (!trader) return;
+
+    let cancelled = false;
+    setHistoryLoading(true);
+    apiFetch(`/api/history/analytics?trader=${encodeURIComponent(trader)}&limit=${HISTORY_LIMIT}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled) setHistory(data?.points ?? []);
+      })
+      .catch((e) => console.warn('Error loading analytics history:', e))
+      .finally(() => {
+        if (!cancelled) setHistoryLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trader]);
+
+  const categories = stats.exposureByCategory.slice(0, TOP_CATEGORIES);
+  const otherCategories = stats.exposureByCategory.slice(TOP_CATEGORIES);
+  if (otherCategories.length > 0) {
+    const value = otherCategories.reduce((sum, c) => sum + c.value, 0);
+    const share = otherCategories.reduce((sum, c) => sum + c.share, 0);
+    categories.push({ category: 'Other', value, share, count: otherCategories.reduce((sum, c) => sum + c.count, 0) });
+  }
+
+  const series = (pick: (point: AnalyticsPoint) => number) =>
+    (history || []).map((point) => ({ time: point.scrapedAt, value: pick(point) }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="analyticsTrader" className="text-sm text-gray-300">
+          Trader
+        </label>
+        <select
+          id="analyticsTrader"
+          name="analyticsTrader"
+          value={trader}
+          onChange={(e) => setTrader(e.target.value)}
+          className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-white text-sm"
+        >
+          <option value="">All traders</option>
+          {traders.map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+        <p className="text-sm text-gray-500">Based on the {stats.positionCount} positions matching the filters</p>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <Metric label="Total value" value={formatCompactUsd(stats.totalValue)} />
+        <Metric
+          label="Unrealized PnL"
+          value={`${formatUsd(stats.unrealizedPnl)}${
+            stats.unrealizedPnlPct !== null ? ` (${formatPct(stats.unrealizedPnlPct)})` : ''
+          }`}
+          className={pnlClass(stats.unrealizedPnl)}
+        />
+        <Metric label="Top 5 share" value={formatPct(stats.concentration.find((c) => c.top === 5)?.share ?? 0)} />
+        <Metric
+          label={`Near resolution (>${formatCents(NEAR_RESOLUTION_HIGH)} or <${formatCents(NEAR_RESOLUTION_LOW)})`}
+          value={`${stats.nearResolution.count} · ${formatCompactUsd(stats.nearResolution.value)}`}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <Card title="Exposure by category">
+          {categories.length > 0 ? (
+            <BarList
+              items={categories.map((c) => ({
+                label: c.category,
+                value: c.value,
+                detail: formatPct(c.share),
+              }))}
+              format={formatCompactUsd}
+            />
+          ) : (
+            <p className="text-sm text-gray-500">No positions</p>
+          )}
+        </Card>
+
+        <Card title="Concentration">
+          <BarList
+            items={stats.concentration.map((c) => ({
+              label: `Top ${c.top}`,
+              value: c.share * 100,
+              detail: formatCompactUsd(c.value),
+            }))}
+            format={(value) => `${value.toFixed(1)}%`}
+          />
+        </Card>
+
+        <Card title="Entry prices (positions per 10¢)">
+          <Histogram
+            bins={stats.entryPrices.map((bucket, i) => ({
+              label: `${Math.round(bucket.from * 100)}`,
+              value: bucket.count,
+              // Bought near 0 or 1: little upside left / long shots
+              highlight: i === 0 || i === stats.entryPrices.length - 1,
+            }))}
+          />
+        </Card>
+      </div>
+
+      <Card title="Over time">
+        {!trader ? (
+          <p className="text-sm text-gray-500">Select a trader to chart their stored snapshots.</p>
+        ) : historyLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-blue-500" />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <p className="text-xs text-gray-400 mb-2">Total value</p>
+              <LineChart points={series((p) => p.totalValue)} format={formatCompactUsd} />
+            </div>
+            <div>
+              <p className="text-xs text-gray-400 mb-2">Unrealized PnL</p>
+              <LineChart points={series((p) => p.unrealizedPnl)} format={formatCompactUsd} />
+            </div>
+            <div>
+              <p className="text-xs text-gray-400 mb-2">Top 5 share</p>
+              <LineChart points={series((p) => p.top5Share)} format={formatPct} />
+            </div>
+            <div>
+              <p className="text-xs text-gray-400 mb-2">Positions near resolution</p>
+              <LineChart points={series((p) => p.nearResolution)} format={(v) => String(Math.round(v))} />
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { getStoredApiKey, setStoredApiKey } from '@/lib/api-client';
+
+// API key sent with every request (needed once the server has ADMIN_TOKEN
+// set). Saving reloads the page so every panel loads with the new key.
+export default function ApiKeyField() {
+  const [value, setValue] = useState('');
+  const [saved, setSaved] = useState('');
+
+  useEffect(() => {
+    const key = getStoredApiKey();
+    setValue(key);
+    setSaved(key);
+  }, []);
+
+  const save = () => {
+    const key = value.trim();
+    if (key === saved) return;
+    setStoredApiKey(key);
+    window.location.reload();
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        save();
+      }}
+      className="flex items-center gap-2 text-sm"
+    >
+      <KeyRound className="w-4 h-4 text-gray-400" />
+      <input
+        id="apiKey"
+        name="apiKey"
+        type="password"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="API key"
+        autoComplete="off"
+        className="w-48 px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      <button
+        type="submit"
+        disabled={value.trim() === saved}
+        className="px-2 py-1 bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-50 rounded-lg border border-gray-700 text-xs font-medium"
+      >
+        Save
+      </button>
+    </form>
+  );
+}
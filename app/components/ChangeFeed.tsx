@@ -0,0 +1,95 @@
+'use client';
+
+import { History, X } from 'lucide-react';
+import { formatShares, formatUsd } from '@/lib/format';
+import { ChangeType, PositionChange } from '@/lib/history/diff';
+
+export interface ChangeFeedEntry {
+  id: string;
+  change: PositionChange;
+  detectedAt: number;
+}
+
+const BADGES: Record<ChangeType, { label: string; className: string }> = {
+  opened: { label: 'NEW', className: 'bg-green-900/60 text-green-300 border-green-700' },
+  increased: { label: 'INCREASED', className: 'bg-blue-900/60 text-blue-300 border-blue-700' },
+  decreased: { label: 'REDUCED', className: 'bg-amber-900/60 text-amber-300 border-amber-700' },
+  closed: { label: 'CLOSED', className: 'bg-gray-800 text-gray-400 border-gray-600' },
+  price: { label: 'PRICE', className: 'bg-purple-900/60 text-purple-300 border-purple-700' },
+};
+
+export function ChangeBadge({ type }: { type: ChangeType }) {
+  const badge = BADGES[type];
+  return (
+    <span className={`inline-block px-1.5 py-0.5 rounded border text-[10px] font-semibold tracking-wide ${badge.className}`}>
+      {badge.label}
+    </span>
+  );
+}
+
+interface ChangeFeedProps {
+  entries: ChangeFeedEntry[];
+  onClear: () => void;
+}
+
+// Side panel listing the most recent changes detected between refreshes
+export default function ChangeFeed({ entries, onClear }: ChangeFeedProps) {
+  return (
+    <aside className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden h-fit">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+        <h2 className="text-sm font-semibold flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Recent changes
+        </h2>
+        {entries.length > 0 && (
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-gray-400 hover:text-white"
+            title="Clear changes"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {entries.length > 0 ? (
+        <ul className="divide-y divide-gray-800 max-h-[600px] overflow-y-auto">
+          {entries.map(({ id, change, detectedAt }) => (
+            <li key={id} className="px-4 py-2 text-xs">
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <ChangeBadge type={change.type} />
+                <span className="text-gray-500 font-mono">
+                  {new Date(detectedAt).toLocaleTimeString()}
+                </span>
+              </div>
+              <p className="text-gray-300">
+                <span className="font-medium">{change.position.trader || '-'}</span>
+                {change.position.side ? ` · ${change.position.side}` : ''}
+              </p>
+              <a
+                href={change.position.marketUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-400 hover:text-blue-300 line-clamp-2"
+              >
+                {change.position.marketName || 'Unknown Market'}
+              </a>
+              {(change.sharesDelta !== null || change.valueDelta !== null) && (
+                <p className="text-gray-500 font-mono mt-0.5">
+                  {change.sharesDelta !== null && `${change.sharesDelta > 0 ? '+' : ''}${formatShares(change.sharesDelta)} shares`}
+                  {change.sharesDelta !== null && change.valueDelta !== null && ' · '}
+                  {change.valueDelta !== null && `${change.valueDelta > 0 ? '+' : ''}${formatUsd(change.valueDelta)}`}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="px-4 py-6 text-center text-xs text-gray-500">
+          Changes appear here after the next refresh
+        </p>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,128 @@
+// Minimal SVG/Tailwind charts for the analytics view (no chart library)
+
+interface BarListItem {
+  label: string;
+  value: number;
+  detail?: string;
+}
+
+// Horizontal bars scaled to the largest value
+export function BarList({ items, format }: { items: BarListItem[]; format: (value: number) => string }) {
+  const max = Math.max(...items.map((item) => item.value), 0);
+
+  return (
+    <ul className="space-y-2">
+      {items.map((item) => (
+        <li key={item.label} className="text-sm">
+          <div className="flex justify-between gap-2 mb-1">
+            <span className="text-gray-300 truncate">{item.label}</span>
+            <span className="font-mono text-gray-400 flex-shrink-0">
+              {format(item.value)}
+              {item.detail && <span className="ml-2 text-gray-500">{item.detail}</span>}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-800 rounded">
+            <div
+              className="h-2 bg-blue-600 rounded"
+              style={{ width: `${max > 0 ? (item.value / max) * 100 : 0}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface HistogramBin {
+  label: string;
+  value: number;
+  highlight?: boolean;
+}
+
+// Vertical bars with a label under each
+export function Histogram({ bins, height = 120 }: { bins: HistogramBin[]; height?: number }) {
+  const max = Math.max(...bins.map((bin) => bin.value), 0);
+  const width = 100 / Math.max(bins.length, 1);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 100 ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }}>
+        {bins.map((bin, i) => {
+          const barHeight = max > 0 ? (bin.value / max) * (height - 4) : 0;
+          return (
+            <rect
+              key={bin.label}
+              x={i * width + width * 0.1}
+              y={height - barHeight}
+              width={width * 0.8}
+              height={barHeight}
+              className={bin.highlight ? 'fill-yellow-500' : 'fill-blue-600'}
+            >
+              <title>{`${bin.label}: ${bin.value}`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      <div className="flex text-[10px] text-gray-500 mt-1">
+        {bins.map((bin) => (
+          <span key={bin.label} className="text-center" style={{ width: `${width}%` }}>
+            {bin.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface LinePoint {
+  time: string;   // ISO
+  value: number;
+}
+
+// Line over time with the latest value and min/max
+export function LineChart({
+  points,
+  format,
+  height = 80,
+}: {
+  points: LinePoint[];
+  format: (value: number) => string;
+  height?: number;
+}) {
+  if (points.length < 2) {
+    return <p className="text-sm text-gray-500">Not enough history yet</p>;
+  }
+
+  const values = points.map((p) => p.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const start = new Date(points[0].time).getTime();
+  const duration = new Date(points[points.length - 1].time).getTime() - start || 1;
+
+  const path = points
+    .map((p) => {
+      const x = ((new Date(p.time).getTime() - start) / duration) * 100;
+      const y = height - 2 - ((p.value - min) / span) * (height - 4);
+      return `${x.toFixed(2)},${y.toFixed(2)}`;
+    })
+    .join(' ');
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-500 mb-1">
+        <span>
+          {format(min)} – {format(max)}
+        </span>
+        <span className="font-mono text-gray-200">{format(values[values.length - 1])}</span>
+      </div>
+      <svg viewBox={`0 0 100 ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }}>
+        <polyline points={path} fill="none" className="stroke-blue-500" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+        <span>{new Date(points[0].time).toLocaleString()}</span>
+        <span>{new Date(points[points.length - 1].time).toLocaleString()}</span>
+      </div>
+    </div>
+  );
+}
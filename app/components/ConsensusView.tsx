@@ -0,0 +1,101 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ExternalLink, Users } from 'lucide-react';
+import { buildConsensus } from '@/lib/consensus';
+import { formatCents, formatShares, formatUsd } from '@/lib/format';
+import { Position } from '@/lib/position';
+
+interface ConsensusViewProps {
+  positions: Position[];
+}
+
+// Markets grouped across traders: who holds which side and how much
+export default function ConsensusView({ positions }: ConsensusViewProps) {
+  const [overlapOnly, setOverlapOnly] = useState(true);
+
+  const markets = useMemo(
+    () => buildConsensus(positions, overlapOnly ? 2 : 1),
+    [positions, overlapOnly]
+  );
+
+  return (
+    <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+        <p className="text-sm text-gray-400">
+          {markets.length} market{markets.length !== 1 ? 's' : ''}
+          {overlapOnly ? ' held by 2+ traders' : ''}
+        </p>
+        <label htmlFor="overlapOnly" className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            id="overlapOnly"
+            name="overlapOnly"
+            type="checkbox"
+            checked={overlapOnly}
+            onChange={(e) => setOverlapOnly(e.target.checked)}
+            className="w-4 h-4 rounded bg-gray-800 border-gray-700 text-blue-600 focus:ring-blue-500"
+          />
+          Only overlapping markets
+        </label>
+      </div>
+
+      {markets.length > 0 ? (
+        <div className="divide-y divide-gray-800">
+          {markets.map((market) => (
+            <div key={market.marketUrl} className="px-4 py-3">
+              <div className="flex items-center justify-between gap-4 mb-2">
+                <a
+                  href={market.marketUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-400 hover:text-blue-300 flex items-center gap-1 group font-medium"
+                >
+                  {market.marketName || 'Unknown Market'}
+                  <ExternalLink className="w-3 h-3 opacity-0 group-hover:opacity-100 transition-opacity" />
+                </a>
+                <div className="flex items-center gap-3 text-sm text-gray-400 flex-shrink-0">
+                  <span className="flex items-center gap-1">
+                    <Users className="w-4 h-4" />
+                    {market.traderCount}
+                  </span>
+                  <span className="font-mono">{formatUsd(market.totalValue)}</span>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {market.sides.map((side) => (
+                  <div key={side.side} className="bg-gray-800/50 rounded-lg px-3 py-2">
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="font-semibold text-gray-200">{side.side}</span>
+                      <span className="font-mono text-gray-400">
+                        {formatShares(side.shares)} shares · {formatUsd(side.currentValue)}
+                      </span>
+                    </div>
+                    <ul className="text-xs text-gray-400 space-y-0.5">
+                      {market.holders
+                        .filter((h) => h.side.toLowerCase() === side.side.toLowerCase())
+                        .map((holder) => (
+                          <li key={holder.trader} className="flex justify-between gap-2">
+                            <span className="text-gray-300">{holder.trader || '-'}</span>
+                            <span className="font-mono">
+                              {holder.shares !== null ? `${formatShares(holder.shares)} sh` : '-'}
+                              {holder.avgPrice !== null ? ` @ ${formatCents(holder.avgPrice)}` : ''}
+                              {holder.currentValue !== null ? ` · ${formatUsd(holder.currentValue)}` : ''}
+                            </span>
+                          </li>
+                        ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="px-4 py-8 text-center text-gray-400">
+          {overlapOnly ? 'No markets are held by more than one trader' : 'No positions match the filter criteria'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { EXPORT_FORMATS, ExportFormat, exportPositions } from '@/lib/export';
+import { Position } from '@/lib/position';
+
+interface ExportMenuProps {
+  filtered: Position[];   // Current filtered/sorted view
+  all: Position[];        // Full dataset
+}
+
+function download(positions: Position[], format: ExportFormat) {
+  const file = exportPositions(positions, format);
+  const url = URL.createObjectURL(new Blob([file.body], { type: file.contentType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Download the position table as CSV, JSON or XLSX
+export default function ExportMenu({ filtered, all }: ExportMenuProps) {
+  const [scope, setScope] = useState<'filtered' | 'all'>('filtered');
+  const positions = scope === 'filtered' ? filtered : all;
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <Download className="w-4 h-4 text-gray-400" />
+      <select
+        id="exportScope"
+        name="exportScope"
+        value={scope}
+        onChange={(e) => setScope(e.target.value as 'filtered' | 'all')}
+        className="px-2 py-1 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-white text-sm"
+        title="Rows to export"
+      >
+        <option value="filtered">Filtered view ({filtered.length})</option>
+        <option value="all">All positions ({all.length})</option>
+      </select>
+      <div className="flex rounded-lg border border-gray-700 overflow-hidden">
+        {EXPORT_FORMATS.map((format) => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => download(positions, format)}
+            disabled={positions.length === 0}
+            className="px-2 py-1 bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-50 uppercase text-xs font-medium"
+          >
+            {format}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+import { apiFetch } from '@/lib/api-client';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { formatCompactUsd } from '@/lib/format';
+import type { TraderProfile } from '@/lib/profile';
+import type { SourceId } from '@/lib/sources/types';
+import type { WatchlistEntry } from '@/lib/watchlist/types';
+
+interface ProfileCardsProps {
+  entries: WatchlistEntry[];
+  source: SourceId;
+  refreshKey: number;   // Changes after each scrape; stale profiles are reloaded then
+}
+
+interface ProfileState {
+  profile: TraderProfile | null;
+  loading: boolean;
+  error: string | null;
+  loadedAt: number;
+}
+
+const PROFILE_MAX_AGE = 10 * 60 * 1000; // Profile stats change slowly, reload at most every 10 minutes
+const PROFILE_CONCURRENCY = 2;
+
+const shortWallet = (wallet: string) => `${wallet.slice(0, 6)}…${wallet.slice(-4)}`;
+
+const formatJoined = (joinedAt: string) =>
+  new Date(joinedAt).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+function Stat({ label, value, className = 'text-gray-200' }: { label: string; value: string; className?: string }) {
+  return (
+    <div>
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className={`font-mono text-sm ${className}`}>{value}</p>
+    </div>
+  );
+}
+
+// Summary card (profile header stats) per tracked trader
+export default function ProfileCards({ entries, source, refreshKey }: ProfileCardsProps) {
+  const [profiles, setProfiles] = useState<{ [entryId: number]: ProfileState }>({});
+  // Read by the refresh effect, which should only run when refreshKey changes
+  const profilesRef = useRef(profiles);
+  profilesRef.current = profiles;
+  const entriesRef = useRef(entries);
+  entriesRef.current = entries;
+
+  const load = useCallback(async (targets: WatchlistEntry[]) => {
+    if (targets.length === 0) return;
+
+    setProfiles((prev) => {
+      const next = { ...prev };
+      targets.forEach((entry) => {
+        next[entry.id] = { profile: prev[entry.id]?.profile ?? null, loading: true, error: null, loadedAt: Date.now() };
+      });
+      return next;
+    });
+
+    await mapWithConcurrency(targets, PROFILE_CONCURRENCY, async (entry) => {
+      let update: Partial<ProfileState>;
+      try {
+        const response = await apiFetch(
+          `/api/profile?profileUrl=${encodeURIComponent(entry.profileUrl)}&source=${entry.source || source}`
+        );
+        const data = await response.json().catch(() => ({}));
+        update = response.ok
+          ? { profile: data.profile, error: null }
+          : { error: data.message || data.error || `HTTP ${response.status}` };
+      } catch (e: any) {
+        update = { error: e.message || 'Failed to load profile' };
+      }
+      setProfiles((prev) => ({ ...prev, [entry.id]: { ...prev[entry.id], ...update, loading: false } }));
+    });
+  }, [source]);
+
+  // After each scrape, load profiles that are missing or stale
+  useEffect(() => {
+    if (refreshKey === 0) return;
+    const now = Date.now();
+    load(entriesRef.current.filter((entry) => {
+      const state = profilesRef.current[entry.id];
+      return !state || (!state.loading && now - state.loadedAt > PROFILE_MAX_AGE);
+    }));
+  }, [refreshKey, load]);
+
+  const cards = entries.filter((entry) => profiles[entry.id]);
+  if (cards.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold">Traders</h2>
+        <button
+          type="button"
+          onClick={() => load(cards.filter((entry) => !profiles[entry.id].loading))}
+          className="text-gray-400 hover:text-gray-200"
+          title="Reload profile stats"
+        >
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-3">
+        {cards.map((entry) => {
+          const { profile, loading, error } = profiles[entry.id];
+          return (
+            <div key={entry.id} className="bg-gray-900 rounded-lg border border-gray-800 p-4">
+              <div className="flex items-start justify-between gap-2 mb-3">
+                <div className="min-w-0">
+                  <a
+                    href={entry.profileUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-semibold text-gray-100 hover:text-blue-400 flex items-center gap-1"
+                  >
+                    <span className="truncate">{entry.label || profile?.displayName || entry.trader}</span>
+                    <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                  </a>
+                  <p className="text-xs text-gray-500 truncate">
+                    {profile?.walletAddress ? shortWallet(profile.walletAddress) : `@${entry.trader}`}
+                    {profile?.joinedAt && ` · Joined ${formatJoined(profile.joinedAt)}`}
+                  </p>
+                </div>
+                {loading && <Loader2 className="w-4 h-4 animate-spin text-blue-500 flex-shrink-0" />}
+              </div>
+              {profile ? (
+                <div className="grid grid-cols-2 gap-2">
+                  <Stat
+                    label="Portfolio"
+                    value={profile.portfolioValue !== null ? formatCompactUsd(profile.portfolioValue) : '-'}
+                  />
+                  <Stat
+                    label="Total PnL"
+                    value={profile.totalPnl !== null ? formatCompactUsd(profile.totalPnl) : '-'}
+                    className={
+                      profile.totalPnl === null || profile.totalPnl === 0
+                        ? 'text-gray-200'
+                        : profile.totalPnl > 0 ? 'text-green-400' : 'text-red-400'
+                    }
+                  />
+                  <Stat label="Volume" value={profile.volume !== null ? formatCompactUsd(profile.volume) : '-'} />
+                  <Stat label="Markets" value={profile.marketsTraded !== null ? profile.marketsTraded.toLocaleString('en-US') : '-'} />
+                </div>
+              ) : (
+                !loading && <p className="text-sm text-gray-500">No profile data</p>
+              )}
+              {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Clock, ExternalLink, Loader2, Plus, RotateCw, Trash2 } from 'lucide-react';
+import { adminFetch, apiFetch } from '@/lib/api-client';
+import { SCRAPE_ERRORS, ScrapeErrorCode, ScrapeWarning } from '@/lib/errors';
+import type { LoadReport } from '@/lib/sources';
+import type { WatchlistEntry } from '@/lib/watchlist/types';
+
+export interface ScrapeStatus {
+  loading: boolean;
+  error: string | null;
+  code?: ScrapeErrorCode;       // Set with error (EMPTY_PORTFOLIO is informational)
+  warnings?: ScrapeWarning[];   // Rows with unparsed fields from the last scrape
+  incomplete?: LoadReport['stopReason'];   // Why the position list was cut off
+  progress?: string;            // Latest streamed progress while loading
+  cachedAt?: string;            // Scrape time of a result served from the server cache
+}
+
+interface WatchlistPanelProps {
+  entries: WatchlistEntry[];
+  onEntriesChange: (entries: WatchlistEntry[]) => void;
+  status: { [entryId: number]: ScrapeStatus };
+  onRetry: (entry: WatchlistEntry) => void;
+  groupFilter: string;          // '' = all groups
+  onGroupFilterChange: (group: string) => void;
+  disabled?: boolean;
+}
+
+const inputClass =
+  'px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-white text-sm';
+
+// Error with a hint per error code and a retry button for transient
+// failures, or a warning about rows with unparsed fields
+const STOP_REASONS: Record<LoadReport['stopReason'], string> = {
+  'end': 'reached the end',
+  'max-steps': 'stopped at the scroll step limit',
+  'time-limit': 'stopped at the time limit',
+  'max-pages': 'stopped at the page limit',
+};
+
+// "just now", "5m ago", "2h ago"
+const formatAge = (iso: string) => {
+  const seconds = Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 1000));
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return `${Math.floor(seconds / 3600)}h ago`;
+};
+
+function EntryStatus({ status, onRetry, disabled }: { status?: ScrapeStatus; onRetry: () => void; disabled?: boolean }) {
+  if (!status || status.loading) return null;
+
+  if (status.error) {
+    const info = SCRAPE_ERRORS[status.code || 'INTERNAL'];
+    if (status.code === 'EMPTY_PORTFOLIO') {
+      return <div className="ml-6 text-sm text-gray-500">{info.hint}</div>;
+    }
+
+    return (
+      <div className="ml-6 text-sm text-red-400 flex flex-wrap items-center gap-x-2">
+        <span className="font-medium">{info.title}:</span>
+        <span>{status.error}</span>
+        {info.hint !== status.error && <span className="text-gray-400">{info.hint}</span>}
+        {info.retryable && (
+          <button
+            type="button"
+            onClick={onRetry}
+            disabled={disabled}
+            className="flex items-center gap-1 text-blue-400 hover:text-blue-300 disabled:opacity-50"
+          >
+            <RotateCw className="w-3 h-3" />
+            Retry
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const warnings = status.warnings || [];
+  if (warnings.length === 0 && !status.cachedAt && !status.incomplete) return null;
+
+  return (
+    <>
+      {status.cachedAt && (
+        <div className="ml-6 text-sm text-gray-500 flex items-center gap-x-2">
+          <span title={new Date(status.cachedAt).toLocaleString()}>Cached result from {formatAge(status.cachedAt)}</span>
+          <button
+            type="button"
+            onClick={onRetry}
+            disabled={disabled}
+            className="flex items-center gap-1 text-blue-400 hover:text-blue-300 disabled:opacity-50"
+          >
+            <RotateCw className="w-3 h-3" />
+            Refresh
+          </button>
+        </div>
+      )}
+      {status.incomplete && (
+        <div className="ml-6 text-sm text-yellow-500 flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3" />
+          Position list may be incomplete: {STOP_REASONS[status.incomplete]}
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div
+          className="ml-6 text-sm text-yellow-500 flex items-center gap-1"
+          title={warnings.map((w) => `${w.marketName} (${w.outcome}): ${w.fields.join(', ')}`).join('\n')}
+        >
+          <AlertTriangle className="w-3 h-3" />
+          {warnings.length} {warnings.length === 1 ? 'row has' : 'rows have'} values that could not be parsed
+        </div>
+      )}
+    </>
+  );
+}
+
+// Managed list of traders to scrape, stored on the server
+export default function WatchlistPanel({
+  entries,
+  onEntriesChange,
+  status,
+  onRetry,
+  groupFilter,
+  onGroupFilterChange,
+  disabled,
+}: WatchlistPanelProps) {
+  const [form, setForm] = useState({ input: '', label: '', group: '', tags: '', schedule: '' });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await apiFetch('/api/watchlist');
+      if (response.ok) {
+        onEntriesChange((await response.json()).entries);
+      }
+    } catch (e) {
+      console.warn('Error loading watchlist:', e);
+    }
+  }, [onEntriesChange]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const groups = useMemo(
+    () => Array.from(new Set(entries.map((entry) => entry.group).filter((group): group is string => !!group))).sort(),
+    [entries]
+  );
+
+  // POST/PATCH/DELETE helper that surfaces API validation errors in the form.
+  // Setting a watch schedule needs the admin token (entered on /admin).
+  const send = async (url: string, method: string, body?: unknown, admin = false) => {
+    setFormError(null);
+    const response = await (admin ? adminFetch : apiFetch)(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      setFormError(data.error || data.message || 'Request failed');
+      return null;
+    }
+    return data;
+  };
+
+  const addEntry = async () => {
+    if (!form.input.trim()) return;
+    if (await send('/api/watchlist', 'POST', form, !!form.schedule.trim())) {
+      setForm((prev) => ({ ...prev, input: '', label: '' }));
+      load();
+    }
+  };
+
+  const visibleEntries = entries.filter((entry) => !groupFilter || entry.group === groupFilter);
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <h2 className="text-lg font-semibold mr-2">Watchlist</h2>
+        {groups.length > 0 &&
+          ['', ...groups].map((group) => (
+            <button
+              key={group || 'all'}
+              type="button"
+              onClick={() => onGroupFilterChange(group)}
+              className={`px-2 py-0.5 rounded text-xs ${
+                groupFilter === group ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              {group || 'All'}
+            </button>
+          ))}
+      </div>
+
+      <ul className="space-y-1 mb-4">
+        {visibleEntries.map((entry) => (
+          <li key={entry.id} className="flex flex-col gap-1">
+            <div className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={entry.enabled}
+                disabled={disabled}
+                onChange={async (e) => {
+                  if (await send(`/api/watchlist/${entry.id}`, 'PATCH', { enabled: e.target.checked })) load();
+                }}
+                className="w-4 h-4 rounded bg-gray-800 border-gray-700 text-blue-600 focus:ring-blue-500"
+                title={entry.enabled ? 'Included in scrapes' : 'Skipped by scrapes'}
+              />
+              <a
+                href={entry.profileUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={`flex items-center gap-1 hover:text-blue-400 ${entry.enabled ? 'text-gray-200' : 'text-gray-500'}`}
+              >
+                <span className="font-medium">{entry.label || entry.trader}</span>
+                {entry.label && <span className="text-xs text-gray-500">@{entry.trader}</span>}
+                <ExternalLink className="w-3 h-3" />
+              </a>
+              {entry.group && (
+                <span className="px-1.5 py-0.5 rounded bg-gray-800 text-xs text-gray-300">{entry.group}</span>
+              )}
+              {entry.tags.map((tag) => (
+                <span key={tag} className="px-1.5 py-0.5 rounded bg-blue-900/40 text-xs text-blue-300">
+                  #{tag}
+                </span>
+              ))}
+              {entry.schedule && (
+                <span className="flex items-center gap-1 text-xs text-gray-500" title="Background watcher schedule">
+                  <Clock className="w-3 h-3" />
+                  {entry.schedule}
+                </span>
+              )}
+              {status[entry.id]?.loading && (
+                <span className="flex items-center gap-1 text-xs text-gray-400">
+                  <Loader2 className="w-4 h-4 animate-spin text-blue-500" />
+                  {status[entry.id].progress}
+                </span>
+              )}
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={async () => {
+                  if (await send(`/api/watchlist/${entry.id}`, 'DELETE')) load();
+                }}
+                className="ml-auto text-gray-500 hover:text-red-400 disabled:opacity-50"
+                title="Remove from watchlist"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <EntryStatus status={status[entry.id]} onRetry={() => onRetry(entry)} disabled={disabled} />
+          </li>
+        ))}
+        {visibleEntries.length === 0 && (
+          <li className="text-sm text-gray-500">
+            {entries.length === 0 ? 'No traders yet. Add one below.' : 'No traders in this group'}
+          </li>
+        )}
+      </ul>
+
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-2">
+        <input
+          value={form.input}
+          onChange={(e) => setForm((prev) => ({ ...prev, input: e.target.value }))}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addEntry();
+          }}
+          placeholder="Profile URL, @username or 0x wallet"
+          className={`${inputClass} md:col-span-2`}
+        />
+        <input
+          value={form.label}
+          onChange={(e) => setForm((prev) => ({ ...prev, label: e.target.value }))}
+          placeholder="Label (optional)"
+          className={inputClass}
+        />
+        <input
+          value={form.group}
+          onChange={(e) => setForm((prev) => ({ ...prev, group: e.target.value }))}
+          placeholder="Group (optional)"
+          list="watchlist-groups"
+          className={inputClass}
+        />
+        <datalist id="watchlist-groups">
+          {groups.map((group) => (
+            <option key={group} value={group} />
+          ))}
+        </datalist>
+        <input
+          value={form.tags}
+          onChange={(e) => setForm((prev) => ({ ...prev, tags: e.target.value }))}
+          placeholder="Tags, comma-separated"
+          className={inputClass}
+        />
+        <div className="flex gap-2">
+          <input
+            value={form.schedule}
+            onChange={(e) => setForm((prev) => ({ ...prev, schedule: e.target.value }))}
+            placeholder="Watch (e.g. 10m)"
+            title="Optional background watcher schedule: interval (10m, 1h) or cron expression"
+            className={`${inputClass} min-w-0 flex-1`}
+          />
+          <button
+            type="button"
+            onClick={addEntry}
+            disabled={!form.input.trim()}
+            className="px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed rounded-lg text-sm font-medium flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        </div>
+      </div>
+      {formError && <p className="mt-2 text-sm text-red-400">{formError}</p>}
+    </div>
+  );
+}
@@ -2,16 +2,88 @@
 
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { Search, RefreshCw, Loader2, ExternalLink, ArrowUpDown, Filter, X } from 'lucide-react';
-import { Position } from './api/scrape/route';
+import ActivityView from './components/ActivityView';
+import AlertsPanel from './components/AlertsPanel';
+import AnalyticsView from './components/AnalyticsView';
+import ApiKeyField from './components/ApiKeyField';
+import ChangeFeed, { ChangeBadge, ChangeFeedEntry } from './components/ChangeFeed';
+import ConsensusView from './components/ConsensusView';
+import ExportMenu from './components/ExportMenu';
+import ProfileCards from './components/ProfileCards';
+import WatchlistPanel, { ScrapeStatus } from './components/WatchlistPanel';
+import { apiFetch } from '@/lib/api-client';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { ScrapeError, toScrapeError } from '@/lib/errors';
+import { formatCents, formatCompactUsd } from '@/lib/format';
+import { ChangeType, diffPositions, flattenDiff } from '@/lib/history/diff';
+import type { SnapshotSummary } from '@/lib/history/store';
+import { decimalSeparator, parsePrice, parseUsd } from '@/lib/parse-number';
+import { ExtractedField, Position, positionKey } from '@/lib/position';
+import type { ScrapeProgress, SourceId } from '@/lib/sources/types';
+import { readEvents } from '@/lib/sse';
+import type { WatchlistEntry } from '@/lib/watchlist/types';
 
-type SortField = 'value' | 'currentPrice' | 'marketName' | 'outcome' | 'trader';
+type SortField = 'value' | 'currentPrice' | 'marketName' | 'outcome' | 'trader' | 'endDate' | 'liquidity';
 type SortDirection = 'asc' | 'desc';
+type ViewMode = 'table' | 'consensus' | 'analytics';
+type Tab = 'positions' | 'activity';
+
+// Scrape result for one watchlist entry, null when the scrape failed or was
+// aborted. emptyTrader is set for a profile without open positions, so its
+// previous positions can be diffed as closed.
+interface ProfileResult {
+  positions: Position[];
+  emptyTrader?: string;
+}
+
+const MAX_FEED_ENTRIES = 50;
+const WATCHER_POLL_INTERVAL = 60000; // Check for new background watcher results every minute
+const ILLIQUID_LIQUIDITY = 1000;     // Markets with less USD liquidity than this are flagged
+const LOW_CONFIDENCE = 0.5;          // Extracted values scored below this are flagged
+
+// "Mar 5 (in 3d)" for a market's scheduled resolution
+function formatEndDate(endDate: string): string {
+  const date = new Date(endDate);
+  const days = Math.round((date.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  const relative = days === 0 ? 'today' : days > 0 ? `in ${days}d` : `${-days}d ago`;
+  return `${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: days > 300 || days < -300 ? 'numeric' : undefined })} (${relative})`;
+}
+
+// Extraction strategy of a scraped field as a tooltip, and whether it's doubtful
+function fieldSource(position: Position, field: ExtractedField): { title?: string; doubtful: boolean } {
+  const source = position.extraction?.fields[field];
+  if (!source) return { doubtful: false };
+  return {
+    title: `Extracted by ${source.strategy} (confidence ${source.confidence})`,
+    doubtful: source.confidence < LOW_CONFIDENCE,
+  };
+}
+
+// Short status text for a streamed scrape progress event
+function describeProgress(progress: ScrapeProgress): string {
+  switch (progress.stage) {
+    case 'navigating':
+      return progress.attempt > 1 ? `Loading page (retry ${progress.attempt - 1})` : 'Loading page';
+    case 'links-found':
+      return `${progress.count} market links found`;
+    case 'scrolling':
+      return `Scrolling ${progress.step}/${progress.maxSteps} (${progress.linksFound} links)`;
+    case 'fetching':
+      return `Fetching page ${progress.page}`;
+    case 'extracting':
+      return 'Extracting positions';
+    case 'positions':
+      return `${progress.total} positions parsed`;
+  }
+}
 
 export default function Home() {
-  const [profileUrls, setProfileUrls] = useState<string[]>(['https://polymarket.com/@FirstOrder?tab=positions', '', '']);
+  const [watchlist, setWatchlist] = useState<WatchlistEntry[]>([]);
+  const [groupFilter, setGroupFilter] = useState('');
+  const [batchConcurrency, setBatchConcurrency] = useState(3);
   const [positions, setPositions] = useState<Position[]>([]);
   const [loading, setLoading] = useState(false);
-  const [loadingStatus, setLoadingStatus] = useState<{ [index: number]: { loading: boolean; error: string | null } }>({});
+  const [loadingStatus, setLoadingStatus] = useState<{ [entryId: number]: ScrapeStatus }>({});
   const [error, setError] = useState<string | null>(null);
   const [filterText, setFilterText] = useState('');
   const [debouncedFilterText, setDebouncedFilterText] = useState('');
@@ -20,6 +92,18 @@ export default function Home() {
   const [timeUntilRefresh, setTimeUntilRefresh] = useState(0);
   const [sortField, setSortField] = useState<SortField | null>(null);
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [source, setSource] = useState<SourceId>('puppeteer');
+  const [viewMode, setViewMode] = useState<ViewMode>('table');
+  const [tab, setTab] = useState<Tab>('positions');
+  
+  // Changes detected between refreshes
+  const [rowChanges, setRowChanges] = useState<{ [key: string]: ChangeType }>({});
+  const [closedPositions, setClosedPositions] = useState<ChangeFeedEntry[]>([]);
+  const [changeFeed, setChangeFeed] = useState<ChangeFeedEntry[]>([]);
+  const [closedRetentionMinutes, setClosedRetentionMinutes] = useState(15);
+  const [alertsVersion, setAlertsVersion] = useState(0);
+  const [scrapeVersion, setScrapeVersion] = useState(0);
+  const [watcherSnapshots, setWatcherSnapshots] = useState<SnapshotSummary[]>([]);
   
   // Column filters (Excel-like)
   const [columnFilters, setColumnFilters] = useState({
@@ -50,110 +134,235 @@ export default function Home() {
   const abortControllerRef = useRef<AbortController | null>(null);
   const debounceTimersRef = useRef<{ [key: string]: NodeJS.Timeout }>({});
   const isLoadingRef = useRef<boolean>(false);
+  const lastResultRef = useRef<Position[]>([]);
+  const watcherSnapshotIdsRef = useRef<string>('');
 
-  // Cache key generator
-  const getCacheKey = (url: string) => `positions_cache_${url}`;
-  const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  // Enabled watchlist entries in the selected group are scraped together
+  const scrapeTargets = useMemo(
+    () => watchlist.filter(entry => entry.enabled && (!groupFilter || entry.group === groupFilter)),
+    [watchlist, groupFilter]
+  );
 
-  // Clear cache when profile URL changes
-  useEffect(() => {
-    // Clear all position caches when URL changes (optional - can be removed if you want to keep cache)
-    // This ensures fresh data when switching profiles
-    return () => {
-      // Cache will be checked on next fetch, expired entries will be removed automatically
-    };
-  }, [profileUrls]);
+  // Add (or update) positions from a partial batch while a scrape is running
+  const mergePartialPositions = useCallback((batch: Position[]) => {
+    setPositions(prev => {
+      const byKey = new Map<string, Position>(prev.map(p => [positionKey(p), p]));
+      batch.forEach(p => byKey.set(positionKey(p), p));
+      return Array.from(byKey.values());
+    });
+  }, []);
 
-  // Fetch single profile positions
-  const fetchSingleProfile = async (url: string, index: number): Promise<Position[]> => {
-    if (!url || !url.trim()) {
-      return [];
-    }
+  // Fetch single profile positions. The server answers from its scrape cache
+  // (shared by every tab and teammate) unless fresh is set.
+  const fetchSingleProfile = useCallback(async (entry: WatchlistEntry, fresh = false): Promise<ProfileResult | null> => {
+    const url = entry.profileUrl;
 
-    // Always fetch fresh data - don't use cache to skip scraping
-    // Cache is only used for storing results after scraping
-    const cacheKey = getCacheKey(url);
-    setLoadingStatus(prev => ({ ...prev, [index]: { loading: true, error: null } }));
+    setLoadingStatus(prev => ({ ...prev, [entry.id]: { loading: true, error: null } }));
+    const setProgress = (progress: ScrapeProgress) =>
+      setLoadingStatus(prev => ({ ...prev, [entry.id]: { loading: true, error: null, progress: describeProgress(progress) } }));
 
     try {
-      console.log(`[Profile ${index + 1}] Fetching positions for:`, url);
+      console.log(`[${entry.trader}] Fetching positions for:`, url);
       
       // Create abort controller for timeout (5 minutes for scraping)
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 300000); // 5 minutes
       
-      const response = await fetch(`/api/scrape?profileUrl=${encodeURIComponent(url)}`, {
+      const response = await apiFetch(`/api/scrape/stream?profileUrl=${encodeURIComponent(url)}&source=${entry.source || source}${fresh ? '&fresh=1' : ''}`, {
         signal: controller.signal,
       });
       
-      clearTimeout(timeoutId);
-      
       // Check if request was aborted
       if (controller.signal.aborted) {
-        return [];
+        clearTimeout(timeoutId);
+        return null;
       }
       
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
+        clearTimeout(timeoutId);
         const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-        throw new Error(errorData.message || errorData.error || 'Failed to scrape positions');
+        throw new ScrapeError(errorData.code || 'INTERNAL', errorData.message || errorData.error || 'Failed to scrape positions');
       }
       
-      const data = await response.json();
+      // Progress and partial batches arrive while the scrape runs, so the
+      // table fills in as positions are parsed; "done" has the final result
+      let data: any = null;
+      let streamError: ScrapeError | null = null;
+      await readEvents(response.body, ({ event, data: payload }) => {
+        const message = JSON.parse(payload);
+        if (event === 'progress') {
+          setProgress(message);
+        } else if (event === 'positions') {
+          setProgress({ stage: 'positions', ...message });
+          mergePartialPositions(message.positions);
+        } else if (event === 'done') {
+          data = message;
+        } else if (event === 'error') {
+          streamError = new ScrapeError(message.code || 'INTERNAL', message.message || message.error);
+        }
+      });
+
+      clearTimeout(timeoutId);
+      if (streamError || !data) {
+        throw streamError || new ScrapeError('INTERNAL', 'Scrape ended without a result');
+      }
 
       // Check if request was aborted after response
       if (controller.signal.aborted) {
-        return [];
+        return null;
       }
 
-      // Check if no positions found (but request was successful)
+      // Rows with unparsed fields are kept but flagged on the watchlist entry
+      const warnings = data.warnings || [];
+      // A list cut off by a scroll/page limit is flagged too
+      const incomplete = data.loadReport && !data.loadReport.complete ? data.loadReport.stopReason : undefined;
+      // Results served from the server cache show their age
+      const cachedAt = data.cache === 'hit' || data.cache === 'stale' ? data.scrapedAt : undefined;
+
+      // The profile loaded and has no open positions
       if (data.positions && data.positions.length === 0) {
         setLoadingStatus(prev => ({ 
           ...prev, 
-          [index]: { 
+          [entry.id]: { 
             loading: false, 
-            error: data.message || 'No positions found' 
+            error: data.message || 'No positions found',
+            code: data.code || 'EMPTY_PORTFOLIO',
+            cachedAt,
           } 
         }));
-        return [];
+        return { positions: [], emptyTrader: data.trader?.trader };
       }
 
-      console.log(`[Profile ${index + 1}] Received positions:`, data.positions?.length || 0);
-      setLoadingStatus(prev => ({ ...prev, [index]: { loading: false, error: null } }));
-      
-      // Cache the results
-      try {
-        localStorage.setItem(cacheKey, JSON.stringify({
-          data,
-          timestamp: Date.now(),
-        }));
-        console.log(`[Profile ${index + 1}] Data cached successfully`);
-      } catch (e) {
-        console.warn(`[Profile ${index + 1}] Error caching data:`, e);
-      }
+      console.log(`[${entry.trader}] Received positions:`, data.positions?.length || 0);
+      setLoadingStatus(prev => ({ ...prev, [entry.id]: { loading: false, error: null, warnings, incomplete, cachedAt } }));
 
-      return data.positions || [];
+      return { positions: data.positions || [] };
     } catch (err: any) {
       // Don't show error if request was aborted
       if (err.name === 'AbortError') {
-        console.log(`[Profile ${index + 1}] Request aborted`);
-        setLoadingStatus(prev => ({ ...prev, [index]: { loading: false, error: null } }));
-        return [];
+        console.log(`[${entry.trader}] Request aborted`);
+        setLoadingStatus(prev => ({ ...prev, [entry.id]: { loading: false, error: null } }));
+        return null;
       }
       
-      console.error(`[Profile ${index + 1}] Error fetching positions:`, err);
-      const errorMessage = err.name === 'AbortError' 
-        ? 'Request timeout (5 minutes exceeded)'
-        : err.message || 'An error occurred while scraping';
+      console.error(`[${entry.trader}] Error fetching positions:`, err);
+      const scrapeError = toScrapeError(err);
       
       setLoadingStatus(prev => ({ 
         ...prev, 
-        [index]: { loading: false, error: errorMessage } 
+        [entry.id]: { loading: false, error: scrapeError.message, code: scrapeError.code } 
       }));
       
-      return [];
+      return null;
+    }
+  }, [source, mergePartialPositions]);
+
+  // Scrape one watchlist entry again, bypassing the server cache (retry after
+  // a failure, or refresh a cached result) and replace that trader's positions
+  const retryProfile = async (entry: WatchlistEntry) => {
+    if (isLoadingRef.current) {
+      return;
+    }
+    isLoadingRef.current = true;
+    setLoading(true);
+
+    try {
+      const result = await fetchSingleProfile(entry, true);
+      if (result) {
+        const emptyTraders = result.emptyTrader ? [result.emptyTrader] : [];
+        const traders = new Set([...result.positions.map(p => p.trader), ...emptyTraders].map(t => t.toLowerCase()));
+        recordResult(result.positions, emptyTraders);
+        setPositions(prev => [...result.positions, ...prev.filter(p => !traders.has(p.trader.toLowerCase()))]);
+      }
+    } finally {
+      isLoadingRef.current = false;
+      setLoading(false);
+      setAlertsVersion(v => v + 1);
     }
   };
 
+  // Compare a refresh with the previous result and record what changed.
+  // Only traders present in both results are compared, so adding a profile or
+  // a failed scrape doesn't show up as opened/closed positions. Traders whose
+  // profile came back empty count as present: all their positions closed.
+  const trackChanges = useCallback((previous: Position[], current: Position[], emptyTraders: string[]) => {
+    const previousTraders = new Set(previous.map(p => p.trader.toLowerCase()));
+    const currentTraders = new Set([...current.map(p => p.trader), ...emptyTraders].map(t => t.toLowerCase()));
+    const inBoth = (p: Position) =>
+      previousTraders.has(p.trader.toLowerCase()) && currentTraders.has(p.trader.toLowerCase());
+
+    const now = Date.now();
+    const entries: ChangeFeedEntry[] = flattenDiff(diffPositions(previous.filter(inBoth), current.filter(inBoth)))
+      .filter(change => change.type !== 'price')
+      .map(change => ({ id: `${change.key}-${change.type}-${now}`, change, detectedAt: now }));
+
+    setRowChanges(Object.fromEntries(
+      entries
+        .filter(entry => entry.change.type !== 'closed')
+        .map(entry => [entry.change.key, entry.change.type])
+    ));
+
+    // Closed positions stay visible until they expire or reappear
+    const currentKeys = new Set(current.map(positionKey));
+    setClosedPositions(prev => [
+      ...entries.filter(entry => entry.change.type === 'closed'),
+      ...prev.filter(entry => !currentKeys.has(entry.change.key)),
+    ]);
+
+    if (entries.length > 0) {
+      setChangeFeed(prev => [...entries, ...prev].slice(0, MAX_FEED_ENTRIES));
+    }
+  }, []);
+
+  // Badge what changed since the previous result. Traders missing from this
+  // result keep their previous positions as the baseline for the next refresh.
+  const recordResult = useCallback((result: Position[], emptyTraders: string[] = []) => {
+    const previousResult = lastResultRef.current;
+    if (previousResult.length > 0) {
+      trackChanges(previousResult, result, emptyTraders);
+    }
+    const resultTraders = new Set([...result.map(p => p.trader), ...emptyTraders].map(t => t.toLowerCase()));
+    lastResultRef.current = [
+      ...result,
+      ...previousResult.filter(p => !resultTraders.has(p.trader.toLowerCase())),
+    ];
+  }, [trackChanges]);
+
+  // Load the latest positions stored by the server-side watcher. Watched
+  // traders are replaced, positions of other traders stay in the table.
+  const loadWatcherPositions = useCallback(async (force = false) => {
+    if (isLoadingRef.current) {
+      return;
+    }
+
+    try {
+      const response = await apiFetch('/api/watcher/latest');
+      if (!response.ok) {
+        return;
+      }
+      const data: { positions: Position[]; snapshots: SnapshotSummary[] } = await response.json();
+
+      const snapshotIds = data.snapshots.map(snapshot => snapshot.id).join(',');
+      if (data.snapshots.length === 0 || (!force && snapshotIds === watcherSnapshotIdsRef.current)) {
+        return;
+      }
+      watcherSnapshotIdsRef.current = snapshotIds;
+      setWatcherSnapshots(data.snapshots);
+
+      // Traders whose latest snapshot is empty closed everything they held
+      const emptyTraders = data.snapshots.filter(snapshot => snapshot.count === 0).map(snapshot => snapshot.trader);
+      const watchedTraders = new Set([...data.positions.map(p => p.trader), ...emptyTraders].map(t => t.toLowerCase()));
+      recordResult(data.positions, emptyTraders);
+      setPositions(prev => [
+        ...data.positions,
+        ...prev.filter(p => !watchedTraders.has(p.trader.toLowerCase())),
+      ]);
+      setAlertsVersion(v => v + 1);
+    } catch (err) {
+      console.warn('Error loading watcher positions:', err);
+    }
+  }, [recordResult]);
+
   // Fetch positions with caching and duplicate request protection (supports multiple URLs)
   const fetchPositions = useCallback(async () => {
     // Protection: prevent duplicate requests using ref instead of state
@@ -162,59 +371,56 @@ export default function Home() {
       return;
     }
 
-    // Filter out empty URLs
-    const validUrls = profileUrls.filter(url => url && url.trim());
-    
-    if (validUrls.length === 0) {
-      setError('Please enter at least one profile URL');
+    if (scrapeTargets.length === 0) {
+      setError('Add at least one enabled trader to the watchlist');
       return;
     }
 
-    // Limit to 3 URLs
-    const urlsToProcess = validUrls.slice(0, 3);
-    
     isLoadingRef.current = true;
     setLoading(true);
     setError(null);
-    setPositions([]);
     
-    // Initialize loading status for all URLs
-    const initialStatus: { [index: number]: { loading: boolean; error: string | null } } = {};
-    urlsToProcess.forEach((_, index) => {
-      initialStatus[index] = { loading: true, error: null };
+    // Queued entries show as loading until their scrape finishes
+    const initialStatus: { [entryId: number]: ScrapeStatus } = {};
+    scrapeTargets.forEach(entry => {
+      initialStatus[entry.id] = { loading: true, error: null };
     });
     setLoadingStatus(initialStatus);
 
     try {
-      // Process up to 3 URLs in parallel
-      const promises = urlsToProcess.map((url, index) => fetchSingleProfile(url, index));
-      const results = await Promise.allSettled(promises);
+      // Scrape the whole batch, at most batchConcurrency profiles at a time
+      const results = await mapWithConcurrency(scrapeTargets, batchConcurrency, (entry) => fetchSingleProfile(entry));
       
       // Combine all results
       const allPositions: Position[] = [];
+      const emptyTraders: string[] = [];
       const errors: string[] = [];
       
       results.forEach((result, index) => {
         if (result.status === 'fulfilled') {
-          allPositions.push(...result.value);
+          allPositions.push(...(result.value?.positions || []));
+          if (result.value?.emptyTrader) {
+            emptyTraders.push(result.value.emptyTrader);
+          }
         } else {
-          const errorMsg = result.reason?.message || `Failed to fetch profile ${index + 1}`;
-          errors.push(`Profile ${index + 1}: ${errorMsg}`);
+          const errorMsg = result.reason?.message || 'Failed to fetch profile';
+          errors.push(`${scrapeTargets[index].trader}: ${errorMsg}`);
         }
       });
 
-      // Remove duplicates based on marketUrl
-      const uniquePositions = allPositions.reduce((acc, pos) => {
-        const normalizedUrl = pos.marketUrl.split('?')[0].split('#')[0].toLowerCase().replace(/\/$/, '');
-        if (!acc.find(p => {
-          const pUrl = p.marketUrl.split('?')[0].split('#')[0].toLowerCase().replace(/\/$/, '');
-          return pUrl === normalizedUrl;
-        })) {
-          acc.push(pos);
+      // Remove duplicates based on (trader, market, outcome) so overlapping traders
+      // and both sides of the same market are kept
+      const seenKeys = new Set<string>();
+      const uniquePositions = allPositions.filter((pos) => {
+        const key = positionKey(pos);
+        if (seenKeys.has(key)) {
+          return false;
         }
-        return acc;
-      }, [] as Position[]);
+        seenKeys.add(key);
+        return true;
+      });
 
+      recordResult(uniquePositions, emptyTraders);
       setPositions(uniquePositions);
       
       if (errors.length > 0 && uniquePositions.length === 0) {
@@ -232,14 +438,16 @@ export default function Home() {
     } finally {
       isLoadingRef.current = false;
       setLoading(false);
+      // Alert rules are evaluated server-side after each scrape
+      setAlertsVersion(v => v + 1);
+      setScrapeVersion(v => v + 1);
     }
-  }, [profileUrls]);
+  }, [scrapeTargets, batchConcurrency, fetchSingleProfile, recordResult]);
 
   // Auto-refresh effect with countdown
   useEffect(() => {
-    const hasValidUrls = profileUrls.some(url => url && url.trim());
     // Only enable auto-refresh if we have positions loaded
-    if (!autoRefresh || !hasValidUrls || positions.length === 0) {
+    if (!autoRefresh || scrapeTargets.length === 0 || positions.length === 0) {
       setTimeUntilRefresh(0);
       if (refreshIntervalRef.current) {
         clearInterval(refreshIntervalRef.current);
@@ -275,7 +483,33 @@ export default function Home() {
         clearInterval(countdownIntervalRef.current);
       }
     };
-  }, [autoRefresh, profileUrls, refreshIntervalMinutes, fetchPositions, positions.length]);
+  }, [autoRefresh, scrapeTargets.length, refreshIntervalMinutes, fetchPositions, positions.length]);
+
+  // Show results from the background watcher on load and pick up new ones
+  useEffect(() => {
+    loadWatcherPositions();
+    const timer = setInterval(() => loadWatcherPositions(), WATCHER_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [loadWatcherPositions]);
+
+  // Drop closed positions once they've been shown for the retention period
+  useEffect(() => {
+    if (closedPositions.length === 0) {
+      return;
+    }
+
+    const prune = () => {
+      const cutoff = Date.now() - closedRetentionMinutes * 60 * 1000;
+      setClosedPositions(prev => {
+        const kept = prev.filter(entry => entry.detectedAt >= cutoff);
+        return kept.length === prev.length ? prev : kept;
+      });
+    };
+
+    prune();
+    const timer = setInterval(prune, 15000);
+    return () => clearInterval(timer);
+  }, [closedPositions.length, closedRetentionMinutes]);
 
   // Get unique values for column filters (Excel-like)
   const uniqueColumnValues = useMemo(() => {
@@ -355,34 +589,21 @@ export default function Home() {
         pos.outcome.toLowerCase().includes(debouncedColumnFilters.outcome.toLowerCase())
       );
     }
-    // Helper function to parse numeric value from string (handles $, commas, ¢)
-    const parseNumericValue = (str: string): number => {
-      if (!str) return 0;
-      
-      // Check if it's in cents (contains ¢ symbol)
-      if (str.includes('¢')) {
-        // Remove ¢ and parse as cents, then convert to dollars
-        const cleaned = str.replace(/[¢,\s]/g, '');
-        return parseFloat(cleaned) / 100 || 0;
-      }
-      
-      // Remove currency symbols, commas, and whitespace
-      const cleaned = str.replace(/[$,\s]/g, '');
-      return parseFloat(cleaned) || 0;
-    };
-    
     if (debouncedColumnFilters.currentPrice) {
       filtered = filtered.filter((pos) =>
         pos.currentPrice.toLowerCase().includes(debouncedColumnFilters.currentPrice.toLowerCase())
       );
     }
     
+    // Range filters accept "55¢", "0.55", "$1,2k" etc. in the browser's locale
+    const decimal = decimalSeparator();
+
     // Apply range filter for Current Price
     if (rangeFilters.currentPrice.min || rangeFilters.currentPrice.max) {
+      const min = parsePrice(rangeFilters.currentPrice.min, { decimal }) ?? -Infinity;
+      const max = parsePrice(rangeFilters.currentPrice.max, { decimal }) ?? Infinity;
       filtered = filtered.filter((pos) => {
-        const priceValue = parseNumericValue(pos.currentPrice);
-        const min = rangeFilters.currentPrice.min ? parseFloat(rangeFilters.currentPrice.min) : -Infinity;
-        const max = rangeFilters.currentPrice.max ? parseFloat(rangeFilters.currentPrice.max) : Infinity;
+        const priceValue = pos.price ?? 0;
         return priceValue >= min && priceValue <= max;
       });
     }
@@ -395,26 +616,38 @@ export default function Home() {
     
     // Apply range filter for Value
     if (rangeFilters.value.min || rangeFilters.value.max) {
+      const min = parseUsd(rangeFilters.value.min, { decimal }) ?? -Infinity;
+      const max = parseUsd(rangeFilters.value.max, { decimal }) ?? Infinity;
       filtered = filtered.filter((pos) => {
-        const valueNum = parseNumericValue(pos.value);
-        const min = rangeFilters.value.min ? parseFloat(rangeFilters.value.min) : -Infinity;
-        const max = rangeFilters.value.max ? parseFloat(rangeFilters.value.max) : Infinity;
+        const valueNum = pos.currentValue ?? 0;
         return valueNum >= min && valueNum <= max;
       });
     }
 
     // Apply sorting
-    if (sortField) {
+    if (sortField === 'endDate' || sortField === 'liquidity') {
+      // Positions without market data go last in either direction
+      const metric = (pos: Position) =>
+        sortField === 'endDate'
+          ? (pos.market?.endDate ? new Date(pos.market.endDate).getTime() : null)
+          : pos.market?.liquidity ?? null;
+      filtered = [...filtered].sort((a, b) => {
+        const aValue = metric(a);
+        const bValue = metric(b);
+        if (aValue === null || bValue === null) return (aValue === null ? 1 : 0) - (bValue === null ? 1 : 0);
+        return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
+      });
+    } else if (sortField) {
       filtered = [...filtered].sort((a, b) => {
         let aValue: string | number = '';
         let bValue: string | number = '';
 
         if (sortField === 'value') {
-          aValue = parseFloat(a.value.replace(/[^0-9.-]+/g, '')) || 0;
-          bValue = parseFloat(b.value.replace(/[^0-9.-]+/g, '')) || 0;
+          aValue = a.currentValue ?? 0;
+          bValue = b.currentValue ?? 0;
         } else if (sortField === 'currentPrice') {
-          aValue = parseFloat(a.currentPrice.replace(/[^0-9.-]+/g, '')) || 0;
-          bValue = parseFloat(b.currentPrice.replace(/[^0-9.-]+/g, '')) || 0;
+          aValue = a.price ?? 0;
+          bValue = b.price ?? 0;
         } else if (sortField === 'trader') {
           aValue = a.trader.toLowerCase();
           bValue = b.trader.toLowerCase();
@@ -439,13 +672,28 @@ export default function Home() {
     return filtered;
   }, [positions, debouncedFilterText, debouncedColumnFilters, rangeFilters, sortField, sortDirection]);
 
+  // Closed positions matching the trader/market filters, shown greyed-out below the table
+  const visibleClosedPositions = useMemo(() => {
+    const text = debouncedFilterText.toLowerCase();
+    return closedPositions.filter(({ change }) => {
+      const trader = change.position.trader.toLowerCase();
+      const market = change.position.marketName.toLowerCase();
+      return (
+        (!text || trader.includes(text) || market.includes(text)) &&
+        trader.includes(debouncedColumnFilters.trader.toLowerCase()) &&
+        market.includes(debouncedColumnFilters.marketName.toLowerCase())
+      );
+    });
+  }, [closedPositions, debouncedFilterText, debouncedColumnFilters]);
+
   // Handle sort
   const handleSort = (field: SortField) => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
     } else {
       setSortField(field);
-      setSortDirection('desc');
+      // Resolves soonest / least liquid first
+      setSortDirection(field === 'endDate' || field === 'liquidity' ? 'asc' : 'desc');
     }
   };
 
@@ -471,62 +719,27 @@ export default function Home() {
   return (
     <main className="min-h-screen bg-gray-950 text-gray-100 p-4 md:p-8">
       <div className="max-w-7xl mx-auto">
-        <h1 className="text-3xl md:text-4xl font-bold mb-8 text-center">
+        <h1 className="text-3xl md:text-4xl font-bold mb-4 text-center">
           Polymarket Positions Parser
         </h1>
+        <div className="flex justify-end mb-4">
+          <ApiKeyField />
+        </div>
 
         {/* Input Section */}
         <div className="bg-gray-900 rounded-lg p-6 mb-6 border border-gray-800">
           <div className="mb-4">
-            <h2 className="text-lg font-semibold mb-2">Profile URLs (up to 3)</h2>
-            <p className="text-sm text-gray-400 mb-4">
-              Enter up to 3 profile URLs to scrape simultaneously. All processes will run in parallel.
-            </p>
+            <WatchlistPanel
+              entries={watchlist}
+              onEntriesChange={setWatchlist}
+              status={loadingStatus}
+              onRetry={retryProfile}
+              groupFilter={groupFilter}
+              onGroupFilterChange={setGroupFilter}
+              disabled={loading}
+            />
           </div>
-          
-          <div className="space-y-3 mb-4">
-            {profileUrls.map((url, index) => (
-              <div key={index} className="flex flex-col gap-2">
-                <div className="flex items-center gap-2">
-                  <label htmlFor={`profileUrl${index}`} className="block text-sm font-medium min-w-[80px]">
-                    Profile {index + 1}:
-                  </label>
-                  <div className="flex-1 relative">
-                    <input
-                      id={`profileUrl${index}`}
-                      name={`profileUrl${index}`}
-                      type="text"
-                      value={url}
-                      onChange={(e) => {
-                        const newUrls = [...profileUrls];
-                        newUrls[index] = e.target.value;
-                        setProfileUrls(newUrls);
-                      }}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter' && !loading) {
-                          fetchPositions();
-                        }
-                      }}
-                      placeholder="https://polymarket.com/@Username?tab=positions"
-                      className="w-full px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-white"
-                      disabled={loading}
-                    />
-                    {loadingStatus[index]?.loading && (
-                      <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
-                        <Loader2 className="w-4 h-4 animate-spin text-blue-500" />
-                      </div>
-                    )}
-                  </div>
-                </div>
-                {loadingStatus[index]?.error && (
-                  <div className="ml-[88px] text-sm text-red-400">
-                    Error: {loadingStatus[index].error}
-                  </div>
-                )}
-              </div>
-            ))}
-          </div>
-          
+
           <div className="flex items-center gap-2">
             <button
               type="button"
@@ -540,7 +753,7 @@ export default function Home() {
                   console.log('Button click ignored - request in progress');
                 }
               }}
-              disabled={loading || !profileUrls.some(url => url && url.trim())}
+              disabled={loading || scrapeTargets.length === 0}
               className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed rounded-lg font-medium flex items-center gap-2 transition-colors"
             >
               {loading ? (
@@ -551,10 +764,34 @@ export default function Home() {
               ) : (
                 <>
                   <RefreshCw className="w-4 h-4" />
-                  Scrape All ({profileUrls.filter(url => url && url.trim()).length} URL{profileUrls.filter(url => url && url.trim()).length !== 1 ? 's' : ''})
+                  Scrape {groupFilter || 'All'} ({scrapeTargets.length} trader{scrapeTargets.length !== 1 ? 's' : ''})
                 </>
               )}
             </button>
+            <select
+              id="source"
+              name="source"
+              value={source}
+              onChange={(e) => setSource(e.target.value as SourceId)}
+              disabled={loading}
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              <option value="puppeteer">Browser scraper</option>
+              <option value="data-api">Polymarket data API</option>
+            </select>
+            <select
+              id="batchConcurrency"
+              name="batchConcurrency"
+              value={batchConcurrency}
+              onChange={(e) => setBatchConcurrency(Number(e.target.value))}
+              disabled={loading}
+              title="How many profiles are scraped at the same time"
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {[1, 2, 3, 5, 10].map(n => (
+                <option key={n} value={n}>{n} at a time</option>
+              ))}
+            </select>
             {loading && (
               <div className="text-sm text-gray-400">
                 Processing {Object.values(loadingStatus).filter(s => s.loading).length} profile(s)...
@@ -562,6 +799,23 @@ export default function Home() {
             )}
           </div>
 
+          {watcherSnapshots.length > 0 && (
+            <div className="mt-3 flex items-center gap-3 text-sm text-gray-400">
+              <span>
+                Server watcher: {watcherSnapshots.length} profile{watcherSnapshots.length !== 1 ? 's' : ''}, last update{' '}
+                {new Date(Math.max(...watcherSnapshots.map(s => new Date(s.scrapedAt).getTime()))).toLocaleString()}
+              </span>
+              <button
+                type="button"
+                onClick={() => loadWatcherPositions(true)}
+                disabled={loading}
+                className="text-blue-400 hover:text-blue-300 disabled:text-gray-600"
+              >
+                Load latest
+              </button>
+            </div>
+          )}
+
           {/* Auto-refresh toggle with interval selection - only show after data is loaded */}
           {positions.length > 0 && (
             <div className="mt-4 flex flex-col md:flex-row items-start md:items-center gap-4">
@@ -600,6 +854,22 @@ export default function Home() {
                   </span>
                 )}
               </div>
+              <div className="flex items-center gap-2">
+                <label htmlFor="closedRetention" className="text-sm">Keep closed positions for</label>
+                <select
+                  id="closedRetention"
+                  name="closedRetention"
+                  value={closedRetentionMinutes}
+                  onChange={(e) => setClosedRetentionMinutes(Number(e.target.value))}
+                  className="px-3 py-1 bg-gray-800 border border-gray-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value={5}>5 minutes</option>
+                  <option value={15}>15 minutes</option>
+                  <option value={30}>30 minutes</option>
+                  <option value={60}>1 hour</option>
+                  <option value={240}>4 hours</option>
+                </select>
+              </div>
             </div>
           )}
         </div>
@@ -611,8 +881,32 @@ export default function Home() {
           </div>
         )}
 
+        {/* Alerts */}
+        <AlertsPanel refreshKey={alertsVersion} />
+
+        {/* Tabs */}
+        <div className="flex gap-1 mb-6 border-b border-gray-800">
+          {(['positions', 'activity'] as Tab[]).map((t) => (
+            <button
+              key={t}
+              type="button"
+              onClick={() => setTab(t)}
+              className={`px-4 py-2 text-sm font-medium -mb-px border-b-2 ${
+                tab === t ? 'border-blue-500 text-white' : 'border-transparent text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {t === 'positions' ? 'Positions' : 'Activity'}
+            </button>
+          ))}
+        </div>
+
+        {/* Trader summaries */}
+        {tab === 'positions' && (
+          <ProfileCards entries={scrapeTargets} source={source} refreshKey={scrapeVersion} />
+        )}
+
         {/* Filter Section */}
-        {positions.length > 0 && (
+        {tab === 'positions' && positions.length > 0 && (
           <div className="bg-gray-900 rounded-lg p-4 mb-6 border border-gray-800">
             {/* Global Search */}
             <div className="relative mb-4">
@@ -754,8 +1048,8 @@ export default function Home() {
                     <input
                       id="filterPriceMin"
                       name="filterPriceMin"
-                      type="number"
-                      step="0.01"
+                      type="text"
+                      inputMode="decimal"
                       value={rangeFilters.currentPrice.min}
                       onChange={(e) => setRangeFilters(prev => ({ 
                         ...prev, 
@@ -768,8 +1062,8 @@ export default function Home() {
                     <input
                       id="filterPriceMax"
                       name="filterPriceMax"
-                      type="number"
-                      step="0.01"
+                      type="text"
+                      inputMode="decimal"
                       value={rangeFilters.currentPrice.max}
                       onChange={(e) => setRangeFilters(prev => ({ 
                         ...prev, 
@@ -827,8 +1121,8 @@ export default function Home() {
                     <input
                       id="filterValueMin"
                       name="filterValueMin"
-                      type="number"
-                      step="0.01"
+                      type="text"
+                      inputMode="decimal"
                       value={rangeFilters.value.min}
                       onChange={(e) => setRangeFilters(prev => ({ 
                         ...prev, 
@@ -841,8 +1135,8 @@ export default function Home() {
                     <input
                       id="filterValueMax"
                       name="filterValueMax"
-                      type="number"
-                      step="0.01"
+                      type="text"
+                      inputMode="decimal"
                       value={rangeFilters.value.max}
                       onChange={(e) => setRangeFilters(prev => ({ 
                         ...prev, 
@@ -870,108 +1164,247 @@ export default function Home() {
               </div>
             </div>
 
-            <p className="text-sm text-gray-400 mt-3">
-              Showing {filteredAndSortedPositions.length} of {positions.length} positions
-            </p>
+            <div className="flex flex-wrap items-center justify-between gap-3 mt-3">
+              <p className="text-sm text-gray-400">
+                Showing {filteredAndSortedPositions.length} of {positions.length} positions
+              </p>
+              <ExportMenu filtered={filteredAndSortedPositions} all={positions} />
+              <div className="flex rounded-lg border border-gray-700 overflow-hidden text-sm">
+                <button
+                  type="button"
+                  onClick={() => setViewMode('table')}
+                  className={`px-3 py-1 ${viewMode === 'table' ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                >
+                  Positions
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setViewMode('consensus')}
+                  className={`px-3 py-1 ${viewMode === 'consensus' ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                >
+                  Consensus
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setViewMode('analytics')}
+                  className={`px-3 py-1 ${viewMode === 'analytics' ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'}`}
+                >
+                  Analytics
+                </button>
+              </div>
+            </div>
           </div>
         )}
 
-        {/* Table */}
-        {positions.length > 0 ? (
-          <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
-            <div className="overflow-x-auto">
-              <table className="w-full">
-                <thead className="bg-gray-800 border-b border-gray-700">
-                  <tr>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold text-gray-300 cursor-pointer hover:bg-gray-750 transition-colors"
-                      onClick={() => handleSort('trader')}
-                    >
-                      <div className="flex items-center gap-2">
-                        Trader
-                        <ArrowUpDown className="w-4 h-4" />
-                      </div>
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold text-gray-300 cursor-pointer hover:bg-gray-750 transition-colors"
-                      onClick={() => handleSort('marketName')}
-                    >
-                      <div className="flex items-center gap-2">
-                        Market
-                        <ArrowUpDown className="w-4 h-4" />
-                      </div>
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold text-gray-300 cursor-pointer hover:bg-gray-750 transition-colors"
-                      onClick={() => handleSort('outcome')}
-                    >
-                      <div className="flex items-center gap-2">
-                        Outcome
-                        <ArrowUpDown className="w-4 h-4" />
-                      </div>
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold text-gray-300 cursor-pointer hover:bg-gray-750 transition-colors"
-                      onClick={() => handleSort('currentPrice')}
-                    >
-                      <div className="flex items-center gap-2">
-                        Current Price
-                        <ArrowUpDown className="w-4 h-4" />
-                      </div>
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold text-gray-300 cursor-pointer hover:bg-gray-750 transition-colors"
-                      onClick={() => handleSort('value')}
-                    >
-                      <div className="flex items-center gap-2">
-                        Current Value
-                        <ArrowUpDown className="w-4 h-4" />
-                      </div>
-                    </th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-gray-800">
-                  {filteredAndSortedPositions.length > 0 ? (
-                    filteredAndSortedPositions.map((position, index) => (
-                      <tr
-                        key={`${position.marketUrl}-${index}`}
-                        className="hover:bg-gray-800/50 transition-colors"
-                      >
-                        <td className="px-4 py-3 text-gray-300 font-medium">
-                          {position.trader || '-'}
-                        </td>
-                        <td className="px-4 py-3">
-                          <a
-                            href={position.marketUrl}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-blue-400 hover:text-blue-300 flex items-center gap-1 group"
+        {tab === 'activity' ? (
+          <ActivityView entries={watchlist} source={source} />
+        ) : positions.length > 0 ? (
+          <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_300px] gap-6 items-start">
+            <div className="min-w-0">
+              {viewMode === 'consensus' ? (
+                /* Consensus view */
+                <ConsensusView positions={filteredAndSortedPositions} />
+              ) : viewMode === 'analytics' ? (
+                /* Analytics view */
+                <AnalyticsView positions={filteredAndSortedPositions} />
+              ) : (
+                /* Table */
+                <div className="bg-gray-900 rounded-lg border border-gray-800 overflow-hidden">
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-800 border-b border-gray-700">
+                        <tr>
+                          <th
+                            className="px-4 py-3 text-left text-sm font-semibold text-gray-300 cursor-pointer hover:bg-gray-750 transition-colors"
+                            onClick={() => handleSort('trader')}
                           >
-                            {position.marketName || 'Unknown Market'}
-                            <ExternalLink className="w-3 h-3 opacity-0 group-hover:opacity-100 transition-opacity" />
-                          </a>
-                        </td>
-                        <td className="px-4 py-3 text-gray-300">
-                          {position.outcome || '-'}
-                        </td>
-                        <td className="px-4 py-3 text-gray-300 font-mono">
-                          {position.currentPrice || '-'}
-                        </td>
-                        <td className="px-4 py-3 text-gray-300 font-mono">
-                          {position.value || '-'}
-                        </td>
-                      </tr>
-                    ))
-                  ) : (
-                    <tr>
-                      <td colSpan={5} className="px-4 py-8 text-center text-gray-400">
-                        No positions match the filter criteria
-                      </td>
-                    </tr>
-                  )}
-                </tbody>
-              </table>
+                            <div className="flex items-center gap-2">
+                              Trader
+                              <ArrowUpDown className="w-4 h-4" />
+                            </div>
+                          </th>
+                          <th
+                            className="px-4 py-3 text-left text-sm font-semibold text-gray-300 cursor-pointer hover:bg-gray-750 transition-colors"
+                            onClick={() => handleSort('marketName')}
+                          >
+                            <div className="flex items-center gap-2">
+                              Market
+                              <ArrowUpDown className="w-4 h-4" />
+                            </div>
+                          </th>
+                          <th
+                            className="px-4 py-3 text-left text-sm font-semibold text-gray-300 cursor-pointer hover:bg-gray-750 transition-colors"
+                            onClick={() => handleSort('outcome')}
+                          >
+                            <div className="flex items-center gap-2">
+                              Outcome
+                              <ArrowUpDown className="w-4 h-4" />
+                            </div>
+                          </th>
+                          <th
+                            className="px-4 py-3 text-left text-sm font-semibold text-gray-300 cursor-pointer hover:bg-gray-750 transition-colors"
+                            onClick={() => handleSort('currentPrice')}
+                          >
+                            <div className="flex items-center gap-2">
+                              Current Price
+                              <ArrowUpDown className="w-4 h-4" />
+                            </div>
+                          </th>
+                          <th
+                            className="px-4 py-3 text-left text-sm font-semibold text-gray-300 cursor-pointer hover:bg-gray-750 transition-colors"
+                            onClick={() => handleSort('value')}
+                          >
+                            <div className="flex items-center gap-2">
+                              Current Value
+                              <ArrowUpDown className="w-4 h-4" />
+                            </div>
+                          </th>
+                          <th
+                            className="px-4 py-3 text-left text-sm font-semibold text-gray-300 cursor-pointer hover:bg-gray-750 transition-colors"
+                            onClick={() => handleSort('endDate')}
+                          >
+                            <div className="flex items-center gap-2">
+                              Resolves
+                              <ArrowUpDown className="w-4 h-4" />
+                            </div>
+                          </th>
+                          <th
+                            className="px-4 py-3 text-left text-sm font-semibold text-gray-300 cursor-pointer hover:bg-gray-750 transition-colors"
+                            onClick={() => handleSort('liquidity')}
+                          >
+                            <div className="flex items-center gap-2">
+                              Liquidity
+                              <ArrowUpDown className="w-4 h-4" />
+                            </div>
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-800">
+                        {filteredAndSortedPositions.length > 0 ? (
+                          filteredAndSortedPositions.map((position, index) => (
+                            <tr
+                              key={`${positionKey(position)}-${index}`}
+                              className="hover:bg-gray-800/50 transition-colors"
+                            >
+                              <td className="px-4 py-3 text-gray-300 font-medium">
+                                <div className="flex items-center gap-2">
+                                  {position.trader || '-'}
+                                  {rowChanges[positionKey(position)] && (
+                                    <ChangeBadge type={rowChanges[positionKey(position)]} />
+                                  )}
+                                </div>
+                              </td>
+                              <td className="px-4 py-3">
+                                {position.market?.eventTitle && position.market.eventTitle !== position.marketName && (
+                                  <p className="text-xs text-gray-500">{position.market.eventTitle}</p>
+                                )}
+                                <a
+                                  href={position.marketUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-blue-400 hover:text-blue-300 flex items-center gap-1 group"
+                                >
+                                  {position.marketName || 'Unknown Market'}
+                                  <ExternalLink className="w-3 h-3 opacity-0 group-hover:opacity-100 transition-opacity" />
+                                </a>
+                              </td>
+                              <td className="px-4 py-3 text-gray-300">
+                                {position.outcome || '-'}
+                              </td>
+                              <td className="px-4 py-3 text-gray-300 font-mono">
+                                <span
+                                  title={fieldSource(position, 'currentPrice').title}
+                                  className={fieldSource(position, 'currentPrice').doubtful ? 'text-yellow-400' : undefined}
+                                >
+                                  {position.currentPrice || '-'}
+                                </span>
+                                {position.market && position.market.bestBid !== null && position.market.bestAsk !== null && (
+                                  <p className="text-xs text-gray-500" title="Best bid / ask for this outcome">
+                                    {formatCents(position.market.bestBid)} / {formatCents(position.market.bestAsk)}
+                                  </p>
+                                )}
+                              </td>
+                              <td className="px-4 py-3 text-gray-300 font-mono">
+                                <span
+                                  title={fieldSource(position, 'value').title}
+                                  className={fieldSource(position, 'value').doubtful ? 'text-yellow-400' : undefined}
+                                >
+                                  {position.value || '-'}
+                                </span>
+                              </td>
+                              <td className="px-4 py-3 text-gray-300 text-sm whitespace-nowrap">
+                                {position.market?.resolved ? (
+                                  <span className="text-gray-500">Resolved</span>
+                                ) : position.market?.endDate ? (
+                                  formatEndDate(position.market.endDate)
+                                ) : (
+                                  '-'
+                                )}
+                                {position.market?.category && (
+                                  <p className="text-xs text-gray-500">{position.market.category}</p>
+                                )}
+                              </td>
+                              <td className="px-4 py-3 font-mono">
+                                {position.market && position.market.liquidity !== null ? (
+                                  <span
+                                    className={position.market.liquidity < ILLIQUID_LIQUIDITY ? 'text-yellow-400' : 'text-gray-300'}
+                                    title={position.market.volume !== null ? `Volume ${formatCompactUsd(position.market.volume)}` : undefined}
+                                  >
+                                    {formatCompactUsd(position.market.liquidity)}
+                                    {position.market.liquidity < ILLIQUID_LIQUIDITY && (
+                                      <span className="ml-2 text-xs font-sans">illiquid</span>
+                                    )}
+                                  </span>
+                                ) : (
+                                  <span className="text-gray-500">-</span>
+                                )}
+                              </td>
+                            </tr>
+                          ))
+                        ) : (
+                          <tr>
+                            <td colSpan={7} className="px-4 py-8 text-center text-gray-400">
+                              No positions match the filter criteria
+                            </td>
+                          </tr>
+                        )}
+                        {visibleClosedPositions.map(({ id, change }) => (
+                          <tr key={id} className="opacity-50">
+                            <td className="px-4 py-3 text-gray-400 font-medium">
+                              <div className="flex items-center gap-2">
+                                {change.position.trader || '-'}
+                                <ChangeBadge type="closed" />
+                              </div>
+                            </td>
+                            <td className="px-4 py-3">
+                              <a
+                                href={change.position.marketUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-gray-400 hover:text-gray-300 line-through"
+                              >
+                                {change.position.marketName || 'Unknown Market'}
+                              </a>
+                            </td>
+                            <td className="px-4 py-3 text-gray-400">
+                              {change.position.outcome || '-'}
+                            </td>
+                            <td className="px-4 py-3 text-gray-400 font-mono">
+                              {change.position.currentPrice || '-'}
+                            </td>
+                            <td className="px-4 py-3 text-gray-400 font-mono">
+                              {change.position.value || '-'}
+                            </td>
+                            <td colSpan={2} />
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
             </div>
+            <ChangeFeed entries={changeFeed} onClear={() => setChangeFeed([])} />
           </div>
         ) : (
           !loading && (
@@ -984,7 +1417,7 @@ export default function Home() {
         )}
 
         {/* Loading State */}
-        {loading && positions.length === 0 && (
+        {tab === 'positions' && loading && positions.length === 0 && (
           <div className="bg-gray-900 rounded-lg border border-gray-800 p-12 text-center">
             <Loader2 className="w-8 h-8 animate-spin mx-auto mb-4 text-blue-500" />
             <p className="text-gray-400 mb-2">Scraping positions... This may take up to 5 minutes.</p>
@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI (cli/index.ts) through tsx. The project's tsconfig
+// is passed explicitly so the @/ path alias resolves from any directory.
+import { fileURLToPath } from 'url';
+
+process.env.TSX_TSCONFIG_PATH ||= fileURLToPath(new URL('../tsconfig.json', import.meta.url));
+
+const { tsImport } = await import('tsx/esm/api');
+await tsImport('../cli/index.ts', import.meta.url);
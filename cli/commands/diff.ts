@@ -0,0 +1,58 @@
+import { diffPositions, flattenDiff } from '@/lib/history/diff';
+import { getLatestSnapshot, getPreviousSnapshot, getSnapshot, Snapshot, summarizeSnapshot } from '@/lib/history/store';
+import { TraderIdentity } from '@/lib/trader';
+import { EXIT_EMPTY, EXIT_FAILED, EXIT_OK, UsageError } from '../errors';
+import { changeRecord, changeTable, OutputFormat, print, printJson } from '../output';
+
+export interface DiffCommandOptions {
+  from?: number;
+  to?: number;
+  format: OutputFormat;
+}
+
+// Compare two stored snapshots of a trader: by default the latest one with
+// the one before it. Snapshots are looked up by the trader's username, or
+// wallet address for a wallet-only profile.
+export async function diffCommand(trader: TraderIdentity | undefined, options: DiffCommandOptions): Promise<number> {
+  if (!trader && options.to === undefined) {
+    throw new UsageError('diff needs a trader or --to');
+  }
+  if (options.format === 'csv') {
+    throw new UsageError('diff does not support --format csv');
+  }
+
+  const to: Snapshot | null = options.to !== undefined
+    ? await getSnapshot(options.to)
+    : await getLatestSnapshot(trader!.username || trader!.wallet!);
+  if (!to) {
+    console.error('No snapshot found');
+    return EXIT_EMPTY;
+  }
+
+  const from = options.from !== undefined ? await getSnapshot(options.from) : await getPreviousSnapshot(to);
+  if (options.from !== undefined && !from) {
+    console.error(`Snapshot ${options.from} not found`);
+    return EXIT_FAILED;
+  }
+  if (from && from.trader.toLowerCase() !== to.trader.toLowerCase()) {
+    console.error('Snapshots belong to different traders');
+    return EXIT_FAILED;
+  }
+
+  const diff = diffPositions(from?.positions || [], to.positions);
+  const changes = flattenDiff(diff);
+
+  switch (options.format) {
+    case 'json':
+      printJson({ from: from ? summarizeSnapshot(from) : null, to: summarizeSnapshot(to), diff });
+      break;
+    case 'ndjson':
+      changes.forEach((change) => printJson(changeRecord(change), true));
+      break;
+    default:
+      print(`${to.trader}: snapshot ${from ? `#${from.id} (${from.scrapedAt})` : '(none)'} -> #${to.id} (${to.scrapedAt})`);
+      print(changes.length > 0 ? changeTable(changes) : 'No changes');
+  }
+
+  return EXIT_OK;
+}
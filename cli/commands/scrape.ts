@@ -0,0 +1,79 @@
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { scrapeErrorBody, toScrapeError } from '@/lib/errors';
+import { toCsv } from '@/lib/export';
+import { scrapeAndRecord, ScrapeResult } from '@/lib/scrape';
+import { SourceId } from '@/lib/sources';
+import { EXIT_EMPTY, EXIT_FAILED, EXIT_OK } from '../errors';
+import { OutputFormat, positionTable, print, printJson } from '../output';
+
+export interface ScrapeCommandOptions {
+  source: SourceId;
+  format: OutputFormat;
+  concurrency: number;
+  verbose: boolean;
+}
+
+// Scrape each profile once (recording snapshots like the API does) and print
+// the positions. Exits non-zero if any profile failed or came back empty.
+export async function scrapeCommand(profileUrls: string[], options: ScrapeCommandOptions): Promise<number> {
+  const results = await mapWithConcurrency(profileUrls, options.concurrency, (profileUrl) =>
+    scrapeAndRecord(profileUrl, options.source, {
+      onProgress: options.verbose
+        ? (progress) => progress.stage !== 'positions' && console.error(`${profileUrl}: ${JSON.stringify(progress)}`)
+        : undefined,
+    })
+  );
+
+  const succeeded: { profileUrl: string; result: ScrapeResult }[] = [];
+  let failed = false;
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      succeeded.push({ profileUrl: profileUrls[i], result: result.value });
+    } else {
+      failed = true;
+      const error = toScrapeError(result.reason);
+      console.error(`Error [${error.code}]: ${profileUrls[i]}: ${error.message}`);
+    }
+  });
+
+  const positions = succeeded.flatMap(({ result }) => result.positions);
+
+  switch (options.format) {
+    case 'json':
+      printJson(
+        results.map((result, i) =>
+          result.status === 'fulfilled'
+            ? {
+                profileUrl: profileUrls[i],
+                count: result.value.positions.length,
+                snapshotId: result.value.snapshotId ?? null,
+                loadReport: result.value.loadReport,
+                positions: result.value.positions,
+              }
+            : { profileUrl: profileUrls[i], ...scrapeErrorBody(toScrapeError(result.reason)) }
+        )
+      );
+      break;
+    case 'ndjson':
+      positions.forEach((pos) => printJson(pos, true));
+      break;
+    case 'csv':
+      print(toCsv(positions));
+      break;
+    default:
+      succeeded.forEach(({ profileUrl, result }) => {
+        print(`\n${profileUrl} (${result.positions.length} positions)`);
+        if (result.positions.length > 0) print(positionTable(result.positions));
+      });
+  }
+
+  succeeded
+    .filter(({ result }) => result.loadReport && !result.loadReport.complete)
+    .forEach(({ profileUrl, result }) => console.error(`Position list may be incomplete (${result.loadReport!.stopReason}): ${profileUrl}`));
+
+  const empty = succeeded.filter(({ result }) => result.positions.length === 0);
+  empty.forEach(({ profileUrl }) => console.error(`No positions found: ${profileUrl}`));
+
+  if (failed) return EXIT_FAILED;
+  return empty.length > 0 ? EXIT_EMPTY : EXIT_OK;
+}
@@ -0,0 +1,101 @@
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { toScrapeError } from '@/lib/errors';
+import { diffPositions, flattenDiff } from '@/lib/history/diff';
+import { Position } from '@/lib/position';
+import { scrapeAndRecord } from '@/lib/scrape';
+import { SourceId } from '@/lib/sources';
+import { describeSchedule, nextRunAfter, Schedule } from '@/lib/watcher/schedule';
+import { listWatchlist } from '@/lib/watchlist/store';
+import { EXIT_OK, UsageError } from '../errors';
+import { changeRecord, changeTable, OutputFormat, print, printJson } from '../output';
+
+export interface WatchCommandOptions {
+  source: SourceId;
+  format: OutputFormat;
+  schedule: Schedule;
+  concurrency: number;
+}
+
+interface Target {
+  profileUrl: string;
+  source: SourceId;
+}
+
+// Scrape the profiles (or the enabled watchlist entries) on a schedule until
+// interrupted, printing what changed since the previous run
+export async function watchCommand(profileUrls: string[], options: WatchCommandOptions): Promise<number> {
+  if (options.format === 'json' || options.format === 'csv') {
+    throw new UsageError('watch prints a stream; use --format table or ndjson');
+  }
+
+  const targets: Target[] = profileUrls.length > 0
+    ? profileUrls.map((profileUrl) => ({ profileUrl, source: options.source }))
+    : (await listWatchlist())
+      .filter((entry) => entry.enabled)
+      .map((entry) => ({ profileUrl: entry.profileUrl, source: entry.source || options.source }));
+  if (targets.length === 0) {
+    throw new UsageError('No profiles given and no enabled watchlist entries');
+  }
+
+  console.error(`Watching ${targets.length} profile(s), ${describeSchedule(options.schedule)}. Ctrl-C to stop.`);
+
+  const previous = new Map<string, Position[]>();
+  let stopped = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    stopped = true;
+    wake?.();
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  while (!stopped) {
+    await runOnce(targets, options, previous);
+
+    const delay = nextRunAfter(options.schedule, new Date()).getTime() - Date.now();
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, Math.max(delay, 0));
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+
+  return EXIT_OK;
+}
+
+async function runOnce(targets: Target[], options: WatchCommandOptions, previous: Map<string, Position[]>) {
+  const results = await mapWithConcurrency(targets, options.concurrency, (target) =>
+    scrapeAndRecord(target.profileUrl, target.source)
+  );
+  const time = new Date().toISOString();
+
+  results.forEach((result, i) => {
+    const { profileUrl } = targets[i];
+
+    if (result.status === 'rejected') {
+      const { code, message } = toScrapeError(result.reason);
+      if (options.format === 'ndjson') {
+        printJson({ time, profileUrl, event: 'error', code, message }, true);
+      } else {
+        console.error(`[${time}] ${profileUrl}: [${code}] ${message}`);
+      }
+      return;
+    }
+
+    const { positions } = result.value;
+    const before = previous.get(profileUrl);
+    // Failed scrapes are skipped above; an empty portfolio closes every position
+    const changes = before ? flattenDiff(diffPositions(before, positions)) : [];
+    previous.set(profileUrl, positions);
+
+    if (options.format === 'ndjson') {
+      printJson({ time, profileUrl, event: 'scraped', count: positions.length }, true);
+      changes.forEach((change) => printJson({ time, profileUrl, event: 'change', ...changeRecord(change) }, true));
+    } else {
+      print(`[${time}] ${profileUrl}: ${positions.length} positions, ${before ? `${changes.length} changes` : 'first run'}`);
+      if (changes.length > 0) print(changeTable(changes));
+    }
+  });
+}
@@ -0,0 +1,8 @@
+// Exit codes of the CLI
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;   // A scrape or lookup failed
+export const EXIT_USAGE = 2;    // Bad arguments
+export const EXIT_EMPTY = 3;    // Ran fine but found nothing (no positions / no snapshots)
+
+// Invalid command line; printed with the usage text
+export class UsageError extends Error {}
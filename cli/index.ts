@@ -0,0 +1,121 @@
+import { parseArgs } from 'util';
+import { getBrowserPool } from '@/lib/browser-pool';
+import { isSourceId, SourceId } from '@/lib/sources';
+import { parseTraderInput } from '@/lib/trader';
+import { getTraderResolver } from '@/lib/trader-resolver';
+import { parseSchedule } from '@/lib/watcher/schedule';
+import { diffCommand } from './commands/diff';
+import { scrapeCommand } from './commands/scrape';
+import { watchCommand } from './commands/watch';
+import { EXIT_FAILED, EXIT_OK, EXIT_USAGE, UsageError } from './errors';
+import { OUTPUT_FORMATS, OutputFormat } from './output';
+
+const USAGE = `Usage: newparcer <command> [options]
+
+Commands:
+  scrape <profile...>     Scrape profiles once and print their positions
+  watch [profile...]      Scrape on a schedule and print changes (default: enabled watchlist entries)
+  diff [trader]           Compare a trader's latest snapshot with the one before (or --from/--to)
+
+Profiles can be URLs, @usernames or 0x wallet addresses.
+
+Options:
+  -s, --source <id>       puppeteer (default) or data-api
+  -f, --format <format>   table (default), json, ndjson or csv
+  -c, --concurrency <n>   Profiles scraped at the same time (default 2)
+  -i, --interval <when>   watch schedule: 30s, 5m, 1h or a cron expression (default 5m)
+      --from <id>         diff: older snapshot id
+      --to <id>           diff: newer snapshot id
+  -v, --verbose           Print scrape progress to stderr
+  -q, --quiet             Hide log output (results and errors only)
+  -h, --help              Show this help
+
+Exit codes: 0 ok, 1 failure, 2 bad arguments, 3 nothing found`;
+
+const toInt = (value: string | undefined, name: string) => {
+  if (value === undefined) return undefined;
+  const num = parseInt(value, 10);
+  if (!Number.isFinite(num) || num < 1) throw new UsageError(`--${name} must be a positive number`);
+  return num;
+};
+
+async function run(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      source: { type: 'string', short: 's', default: 'puppeteer' },
+      format: { type: 'string', short: 'f', default: 'table' },
+      concurrency: { type: 'string', short: 'c', default: '2' },
+      interval: { type: 'string', short: 'i', default: '5m' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      verbose: { type: 'boolean', short: 'v', default: false },
+      quiet: { type: 'boolean', short: 'q', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.error(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  // Library code logs progress with console.log; keep stdout for results
+  console.log = values.quiet ? () => {} : console.error;
+  console.warn = values.quiet ? () => {} : console.warn;
+
+  if (!isSourceId(values.source!)) throw new UsageError(`Unknown source: ${values.source}`);
+  if (!(OUTPUT_FORMATS as string[]).includes(values.format!)) throw new UsageError(`Unknown format: ${values.format}`);
+  const source = values.source as SourceId;
+  const format = values.format as OutputFormat;
+  const concurrency = toInt(values.concurrency, 'concurrency')!;
+
+  // Every profile is checked before anything is scraped
+  const traders = args.map((input) => {
+    try {
+      return parseTraderInput(input);
+    } catch (error: any) {
+      throw new UsageError(error.message);
+    }
+  });
+  // Canonical profile URLs, so a trader given by username or wallet is one profile
+  const resolveProfileUrls = async () =>
+    (await Promise.all(traders.map((trader) => getTraderResolver().resolve(trader)))).map((trader) => trader.profileUrl);
+
+  switch (command) {
+    case 'scrape':
+      if (traders.length === 0) throw new UsageError('scrape needs at least one profile');
+      return scrapeCommand(await resolveProfileUrls(), { source, format, concurrency, verbose: values.verbose! });
+    case 'watch': {
+      let schedule;
+      try {
+        schedule = parseSchedule(values.interval!);
+      } catch (error: any) {
+        throw new UsageError(error.message);
+      }
+      return watchCommand(await resolveProfileUrls(), { source, format, schedule, concurrency });
+    }
+    case 'diff':
+      return diffCommand(traders[0], { from: toInt(values.from, 'from'), to: toInt(values.to, 'to'), format });
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+run(process.argv.slice(2))
+  .catch((error) => {
+    // parseArgs throws TypeErrors with a code for unknown/invalid options
+    if (error instanceof UsageError || error?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    console.error(error?.stack || error);
+    return EXIT_FAILED;
+  })
+  .then(async (code) => {
+    // The shared browser would keep the process alive
+    await getBrowserPool().close();
+    process.exit(code);
+  });
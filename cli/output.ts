@@ -0,0 +1,80 @@
+import { formatCents, formatShares, formatUsd } from '@/lib/format';
+import { PositionChange } from '@/lib/history/diff';
+import { Position } from '@/lib/position';
+
+export type OutputFormat = 'table' | 'json' | 'ndjson' | 'csv';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'ndjson', 'csv'];
+
+export function print(text: string): void {
+  process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
+}
+
+export function printJson(value: unknown, ndjson = false): void {
+  print(ndjson ? JSON.stringify(value) : JSON.stringify(value, null, 2));
+}
+
+const isNumeric = (cell: string) => /^[-+]?\$?[\d,.]+[¢%]?$/.test(cell);
+
+// Plain-text table with padded columns; numeric cells are right-aligned
+export function renderTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map((row) => (row[i] || '').length)));
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, i) => (isNumeric(cell) ? cell.padStart(widths[i]) : cell.padEnd(widths[i])))
+      .join('  ')
+      .trimEnd();
+
+  return [line(headers), widths.map((w) => '-'.repeat(w)).join('  '), ...rows.map(line)].join('\n');
+}
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+const orDash = <T>(value: T | null, format: (value: T) => string) => (value === null ? '-' : format(value));
+
+export function positionTable(positions: Position[]): string {
+  return renderTable(
+    ['Trader', 'Market', 'Outcome', 'Shares', 'Avg', 'Price', 'Value', 'PnL'],
+    positions.map((pos) => [
+      pos.trader,
+      truncate(pos.marketName, 60),
+      pos.side || '-',
+      orDash(pos.shares, formatShares),
+      orDash(pos.avgPrice, formatCents),
+      orDash(pos.price, formatCents),
+      orDash(pos.currentValue, formatUsd),
+      orDash(pos.unrealizedPnl, formatUsd),
+    ])
+  );
+}
+
+export function changeTable(changes: PositionChange[]): string {
+  return renderTable(
+    ['Change', 'Trader', 'Market', 'Outcome', 'Shares Δ', 'Value Δ', 'Price Δ'],
+    changes.map((change) => [
+      change.type.toUpperCase(),
+      change.position.trader,
+      truncate(change.position.marketName, 60),
+      change.position.side || '-',
+      orDash(change.sharesDelta, formatShares),
+      orDash(change.valueDelta, formatUsd),
+      orDash(change.priceDelta, formatCents),
+    ])
+  );
+}
+
+// A change as a flat record for JSON/NDJSON output
+export function changeRecord(change: PositionChange) {
+  return {
+    type: change.type,
+    trader: change.position.trader,
+    market: change.position.marketName,
+    marketUrl: change.position.marketUrl,
+    side: change.position.side,
+    shares: change.position.shares,
+    value: change.position.currentValue,
+    price: change.position.price,
+    sharesDelta: change.sharesDelta,
+    valueDelta: change.valueDelta,
+    priceDelta: change.priceDelta,
+  };
+}
@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // The watcher needs Node APIs (Puppeteer, fs), so skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.WATCHER_ENABLED !== 'false') {
+    const { getWatcher } = await import('./lib/watcher/scheduler');
+    getWatcher().start();
+  }
+}
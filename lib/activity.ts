@@ -0,0 +1,116 @@
+import { parsePrice, parseShares, parseUsd } from '@/lib/parse-number';
+
+export type ActivityType = 'trade' | 'redeem' | 'split' | 'merge' | 'reward' | 'other';
+
+// One entry of a trader's activity/history view
+export interface Trade {
+  trader: string;
+  type: ActivityType;
+  action: 'buy' | 'sell' | null;  // Only set for trades
+  marketName: string;
+  marketUrl: string;
+  side: string;                   // Outcome traded (e.g. "Yes", "No", "Up")
+  shares: number | null;
+  price: number | null;           // Probability (0–1)
+  usdValue: number | null;
+  timestamp: string | null;       // ISO time; null when the page showed none
+  transactionHash: string | null;
+}
+
+// A position the trader no longer holds (sold out or redeemed after resolution)
+export interface ClosedPosition {
+  trader: string;
+  marketName: string;
+  marketUrl: string;
+  side: string;
+  shares: number | null;        // Total shares bought
+  avgPrice: number | null;      // Average entry price (0–1)
+  exitPrice: number | null;     // Last/settlement price (0–1)
+  realizedPnl: number | null;   // USD
+  closedAt: string | null;
+  resolved: boolean;            // Market settled (price 0 or 1) rather than sold
+}
+
+// Activity row as displayed on the profile page (raw text)
+export interface RawActivity {
+  trader: string;
+  marketName: string;
+  marketUrl: string;
+  text: string;   // Full row text, e.g. "Bought Yes 120 shares at 52¢ $62.40 3h ago"
+}
+
+// A number with optional space/comma/dot grouping: "120", "3 799,4", "1,234.50".
+// Stricter than the positions parser since activity rows put several numbers side by side.
+const NUMBER = String.raw`(?<![\d.,])(?:\d{1,3}(?:[\s,.]\d{3})+(?:[.,]\d+)?|\d+(?:[.,]\d+)?)`;
+const SHARES_PATTERN = new RegExp(`(${NUMBER})\\s*shares?`, 'i');
+const PRICE_PATTERN = new RegExp(`(${NUMBER})\\s*¢`);
+const USD_PATTERN = new RegExp(`\\$\\s?(${NUMBER})`);
+const SIDE_PATTERN = new RegExp(`([A-Za-z][\\w'-]*)\\s+(?:(?:${NUMBER})\\s*shares?\\s+)?(?:at\\s+)?(?:${NUMBER})\\s*¢`, 'i');
+
+const TIME_UNITS: [RegExp, number][] = [
+  [/^(s|secs?|seconds?)$/, 1000],
+  [/^(m|mins?|minutes?)$/, 60 * 1000],
+  [/^(h|hrs?|hours?)$/, 60 * 60 * 1000],
+  [/^(d|days?)$/, 24 * 60 * 60 * 1000],
+  [/^(w|wks?|weeks?)$/, 7 * 24 * 60 * 60 * 1000],
+  [/^(mo|mos|months?)$/, 30 * 24 * 60 * 60 * 1000],
+  [/^(y|yrs?|years?)$/, 365 * 24 * 60 * 60 * 1000],
+];
+
+// Parse "3h ago", "2 days ago", "just now" or an absolute date into an ISO time
+export function parseActivityTime(text: string, now = new Date()): string | null {
+  if (/just now/i.test(text)) return now.toISOString();
+
+  const relative = text.match(/(\d+)\s*([a-z]+)\s+ago/i);
+  if (relative) {
+    const unit = TIME_UNITS.find(([pattern]) => pattern.test(relative[2].toLowerCase()));
+    if (unit) return new Date(now.getTime() - parseInt(relative[1], 10) * unit[1]).toISOString();
+  }
+
+  const absolute = text.match(/[A-Z][a-z]{2,8}\.? \d{1,2},? \d{4}(?:,? \d{1,2}:\d{2}(?:\s?[AP]M)?)?/);
+  if (absolute) {
+    const date = new Date(absolute[0].replace('.', ''));
+    if (!isNaN(date.getTime())) return date.toISOString();
+  }
+
+  return null;
+}
+
+function parseActivityType(text: string): { type: ActivityType; action: Trade['action'] } {
+  if (/\b(bought|buy)\b/i.test(text)) return { type: 'trade', action: 'buy' };
+  if (/\b(sold|sell)\b/i.test(text)) return { type: 'trade', action: 'sell' };
+  if (/\bredeem/i.test(text)) return { type: 'redeem', action: null };
+  if (/\bsplit/i.test(text)) return { type: 'split', action: null };
+  if (/\bmerge/i.test(text)) return { type: 'merge', action: null };
+  if (/\breward/i.test(text)) return { type: 'reward', action: null };
+  return { type: 'other', action: null };
+}
+
+// Build a Trade from a scraped activity row
+export function normalizeActivity(raw: RawActivity, now = new Date()): Trade {
+  // The market title can contain numbers and "$", so parse the rest of the row only
+  const text = raw.text.replace(raw.marketName, ' ').replace(/\s+/g, ' ').trim();
+
+  const shares = text.match(SHARES_PATTERN);
+  const price = text.match(PRICE_PATTERN);
+  const usd = text.match(USD_PATTERN);
+  const side = text.match(SIDE_PATTERN);
+
+  return {
+    trader: raw.trader,
+    ...parseActivityType(text),
+    marketName: raw.marketName,
+    marketUrl: raw.marketUrl,
+    side: side && !/^(at|shares?|bought|sold|buy|sell)$/i.test(side[1]) ? side[1] : '',
+    shares: shares ? parseShares(shares[1]) : null,
+    price: price ? parsePrice(`${price[1]}¢`) : null,
+    usdValue: usd ? parseUsd(usd[1]) : null,
+    timestamp: parseActivityTime(text, now),
+    transactionHash: null,
+  };
+}
+
+// Sum of realized PnL over closed positions with a known value
+export function totalRealizedPnl(positions: ClosedPosition[]): number {
+  return positions.reduce((sum, pos) => sum + (pos.realizedPnl ?? 0), 0);
+}
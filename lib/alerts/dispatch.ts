@@ -0,0 +1,32 @@
+import { Position } from '@/lib/position';
+import { evaluateRules } from './engine';
+import { listRules, listWebhooks, recordAlertEvents } from './store';
+import { AlertMatch } from './types';
+import { deliverAlert } from './webhooks';
+
+// Evaluate alert rules for one trader's scrape, deliver matches to every
+// enabled webhook and store them as alert events
+export async function runAlerts(previous: Position[], current: Position[]): Promise<AlertMatch[]> {
+  const rules = await listRules();
+  const matches = evaluateRules(rules, previous, current);
+  if (matches.length === 0) {
+    return [];
+  }
+
+  const triggeredAt = new Date().toISOString();
+  const webhooks = (await listWebhooks()).filter((webhook) => webhook.enabled);
+
+  const delivered = await Promise.all(
+    matches.map(async (match) => {
+      const results = await Promise.all(webhooks.map((webhook) => deliverAlert(webhook, match, triggeredAt)));
+      return { match, deliveryErrors: results.filter((error): error is string => error !== null) };
+    })
+  );
+
+  delivered
+    .filter(({ deliveryErrors }) => deliveryErrors.length > 0)
+    .forEach(({ match, deliveryErrors }) => console.warn(`Alert "${match.ruleName}" delivery failed:`, deliveryErrors));
+
+  await recordAlertEvents(delivered, triggeredAt);
+  return matches;
+}
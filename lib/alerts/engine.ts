@@ -0,0 +1,123 @@
+import { formatCents, formatUsd } from '@/lib/format';
+import { diffPositions } from '@/lib/history/diff';
+import { Position, positionKey } from '@/lib/position';
+import { AlertCondition, AlertMatch, AlertRule, WebhookFormat } from './types';
+
+const WEBHOOK_FORMATS: WebhookFormat[] = ['generic', 'slack', 'discord', 'telegram'];
+
+const sameTrader = (filter: string | undefined, trader: string) =>
+  !filter || filter.replace(/^@/, '').toLowerCase() === trader.toLowerCase();
+
+// Case-insensitive regex, falling back to a plain substring for invalid patterns
+function matchesPattern(pattern: string, text: string): boolean {
+  try {
+    return new RegExp(pattern, 'i').test(text);
+  } catch {
+    return text.toLowerCase().includes(pattern.toLowerCase());
+  }
+}
+
+const describe = (pos: Position) =>
+  `${pos.side ? `${pos.side} on ` : ''}"${pos.marketName}"${pos.currentValue !== null ? ` (${formatUsd(pos.currentValue)})` : ''}`;
+
+function evaluateRule(rule: AlertRule, previous: Position[], current: Position[]): AlertMatch[] {
+  const condition = rule.condition;
+  const match = (position: Position, message: string): AlertMatch => ({
+    ruleId: rule.id,
+    ruleName: rule.name,
+    trader: position.trader,
+    message,
+    position,
+  });
+
+  if (condition.type === 'position-opened' || condition.type === 'market-match') {
+    const opened = diffPositions(previous, current).opened.map((change) => change.position);
+
+    return opened
+      .filter((pos) => sameTrader(condition.trader, pos.trader))
+      .filter((pos) =>
+        condition.type === 'position-opened'
+          ? (pos.currentValue ?? 0) >= (condition.minValue ?? 0)
+          : matchesPattern(condition.pattern, pos.marketName)
+      )
+      .map((pos) => match(pos, `${pos.trader} opened ${describe(pos)}`));
+  }
+
+  // price-cross: previous price on one side of the threshold, current price on the other
+  const previousByKey = new Map<string, Position>(previous.map((pos) => [positionKey(pos), pos]));
+  return current
+    .filter((pos) => sameTrader(condition.trader, pos.trader))
+    .filter((pos) => !condition.market || matchesPattern(condition.market, pos.marketName))
+    .filter((pos) => {
+      const before = previousByKey.get(positionKey(pos));
+      if (!before || before.price === null || pos.price === null) return false;
+      return condition.direction === 'above'
+        ? before.price < condition.threshold && pos.price >= condition.threshold
+        : before.price > condition.threshold && pos.price <= condition.threshold;
+    })
+    .map((pos) =>
+      match(
+        pos,
+        `${describe(pos)} held by ${pos.trader} crossed ${condition.direction} ${formatCents(condition.threshold)} (now ${formatCents(pos.price!)})`
+      )
+    );
+}
+
+// Evaluate enabled rules against the positions before and after a scrape
+export function evaluateRules(rules: AlertRule[], previous: Position[], current: Position[]): AlertMatch[] {
+  return rules
+    .filter((rule) => rule.enabled)
+    .flatMap((rule) => evaluateRule(rule, previous, current));
+}
+
+const optionalString = (value: unknown, field: string): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new Error(`${field} must be a string`);
+  return value.trim();
+};
+
+// Validate a rule condition received from the API
+export function parseAlertCondition(input: any): AlertCondition {
+  if (!input || typeof input !== 'object') {
+    throw new Error('condition is required');
+  }
+
+  const trader = optionalString(input.trader, 'trader');
+
+  switch (input.type) {
+    case 'position-opened': {
+      const minValue = input.minValue === undefined || input.minValue === '' ? undefined : Number(input.minValue);
+      if (minValue !== undefined && (!Number.isFinite(minValue) || minValue < 0)) {
+        throw new Error('minValue must be a non-negative number');
+      }
+      return { type: 'position-opened', trader, minValue };
+    }
+    case 'market-match': {
+      const pattern = optionalString(input.pattern, 'pattern');
+      if (!pattern) throw new Error('pattern is required');
+      return { type: 'market-match', pattern, trader };
+    }
+    case 'price-cross': {
+      const threshold = Number(input.threshold);
+      if (!Number.isFinite(threshold) || threshold <= 0 || threshold >= 1) {
+        throw new Error('threshold must be a probability between 0 and 1 (e.g. 0.9 for 90¢)');
+      }
+      if (input.direction !== 'above' && input.direction !== 'below') {
+        throw new Error('direction must be "above" or "below"');
+      }
+      return {
+        type: 'price-cross',
+        threshold,
+        direction: input.direction,
+        trader,
+        market: optionalString(input.market, 'market'),
+      };
+    }
+    default:
+      throw new Error('condition.type must be one of: position-opened, market-match, price-cross');
+  }
+}
+
+export function isWebhookFormat(value: unknown): value is WebhookFormat {
+  return WEBHOOK_FORMATS.includes(value as WebhookFormat);
+}
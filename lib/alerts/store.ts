@@ -0,0 +1,194 @@
+import { getDb, lastInsertId, queryAll, queryOne, saveDb } from '@/lib/db';
+import { AlertCondition, AlertEvent, AlertMatch, AlertRule, Webhook, WebhookFormat } from './types';
+
+interface RuleRow {
+  id: number;
+  name: string;
+  enabled: number;
+  condition: string;
+  created_at: string;
+}
+
+interface WebhookRow {
+  id: number;
+  name: string;
+  url: string;
+  format: string;
+  chat_id: string | null;
+  enabled: number;
+  created_at: string;
+}
+
+interface EventRow {
+  id: number;
+  rule_id: number;
+  rule_name: string;
+  trader: string;
+  message: string;
+  position: string;
+  triggered_at: string;
+  delivery_errors: string | null;
+}
+
+const toRule = (row: RuleRow): AlertRule => ({
+  id: row.id,
+  name: row.name,
+  enabled: !!row.enabled,
+  condition: JSON.parse(row.condition),
+  createdAt: row.created_at,
+});
+
+const toWebhook = (row: WebhookRow): Webhook => ({
+  id: row.id,
+  name: row.name,
+  url: row.url,
+  format: row.format as WebhookFormat,
+  chatId: row.chat_id,
+  enabled: !!row.enabled,
+  createdAt: row.created_at,
+});
+
+const toEvent = (row: EventRow): AlertEvent => ({
+  id: row.id,
+  ruleId: row.rule_id,
+  ruleName: row.rule_name,
+  trader: row.trader,
+  message: row.message,
+  position: JSON.parse(row.position),
+  triggeredAt: row.triggered_at,
+  deliveryErrors: row.delivery_errors ? JSON.parse(row.delivery_errors) : [],
+});
+
+// Rules
+
+export async function listRules(): Promise<AlertRule[]> {
+  const db = await getDb();
+  return queryAll<RuleRow>(db, 'SELECT * FROM alert_rules ORDER BY id').map(toRule);
+}
+
+export async function createRule(name: string, condition: AlertCondition, enabled = true): Promise<AlertRule> {
+  const db = await getDb();
+  db.run(
+    'INSERT INTO alert_rules (name, enabled, condition, created_at) VALUES (?, ?, ?, ?)',
+    [name, enabled ? 1 : 0, JSON.stringify(condition), new Date().toISOString()]
+  );
+  const id = lastInsertId(db);
+  await saveDb(db);
+  return toRule(queryOne<RuleRow>(db, 'SELECT * FROM alert_rules WHERE id = ?', [id])!);
+}
+
+export async function updateRule(
+  id: number,
+  changes: { name?: string; enabled?: boolean; condition?: AlertCondition }
+): Promise<AlertRule | null> {
+  const db = await getDb();
+  const row = queryOne<RuleRow>(db, 'SELECT * FROM alert_rules WHERE id = ?', [id]);
+  if (!row) return null;
+
+  const rule = { ...toRule(row), ...changes };
+  db.run(
+    'UPDATE alert_rules SET name = ?, enabled = ?, condition = ? WHERE id = ?',
+    [rule.name, rule.enabled ? 1 : 0, JSON.stringify(rule.condition), id]
+  );
+  await saveDb(db);
+  return rule;
+}
+
+export async function deleteRule(id: number): Promise<boolean> {
+  const db = await getDb();
+  db.run('DELETE FROM alert_rules WHERE id = ?', [id]);
+  const deleted = db.getRowsModified() > 0;
+  await saveDb(db);
+  return deleted;
+}
+
+// Webhooks
+
+export async function listWebhooks(): Promise<Webhook[]> {
+  const db = await getDb();
+  return queryAll<WebhookRow>(db, 'SELECT * FROM webhooks ORDER BY id').map(toWebhook);
+}
+
+export async function getWebhook(id: number): Promise<Webhook | null> {
+  const db = await getDb();
+  const row = queryOne<WebhookRow>(db, 'SELECT * FROM webhooks WHERE id = ?', [id]);
+  return row ? toWebhook(row) : null;
+}
+
+export async function createWebhook(
+  webhook: Pick<Webhook, 'name' | 'url' | 'format' | 'chatId'> & { enabled?: boolean }
+): Promise<Webhook> {
+  const db = await getDb();
+  db.run(
+    'INSERT INTO webhooks (name, url, format, chat_id, enabled, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+    [webhook.name, webhook.url, webhook.format, webhook.chatId, webhook.enabled === false ? 0 : 1, new Date().toISOString()]
+  );
+  const id = lastInsertId(db);
+  await saveDb(db);
+  return (await getWebhook(id))!;
+}
+
+export async function updateWebhook(
+  id: number,
+  changes: Partial<Pick<Webhook, 'name' | 'url' | 'format' | 'chatId' | 'enabled'>>
+): Promise<Webhook | null> {
+  const existing = await getWebhook(id);
+  if (!existing) return null;
+
+  const webhook = { ...existing, ...changes };
+  const db = await getDb();
+  db.run(
+    'UPDATE webhooks SET name = ?, url = ?, format = ?, chat_id = ?, enabled = ? WHERE id = ?',
+    [webhook.name, webhook.url, webhook.format, webhook.chatId, webhook.enabled ? 1 : 0, id]
+  );
+  await saveDb(db);
+  return webhook;
+}
+
+export async function deleteWebhook(id: number): Promise<boolean> {
+  const db = await getDb();
+  db.run('DELETE FROM webhooks WHERE id = ?', [id]);
+  const deleted = db.getRowsModified() > 0;
+  await saveDb(db);
+  return deleted;
+}
+
+// Events
+
+export async function recordAlertEvents(
+  matches: { match: AlertMatch; deliveryErrors: string[] }[],
+  triggeredAt: string
+): Promise<void> {
+  if (matches.length === 0) return;
+
+  const db = await getDb();
+  for (const { match, deliveryErrors } of matches) {
+    db.run(
+      `INSERT INTO alert_events (rule_id, rule_name, trader, message, position, triggered_at, delivery_errors)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        match.ruleId,
+        match.ruleName,
+        match.trader,
+        match.message,
+        JSON.stringify(match.position),
+        triggeredAt,
+        deliveryErrors.length > 0 ? JSON.stringify(deliveryErrors) : null,
+      ]
+    );
+  }
+  await saveDb(db);
+}
+
+// Most recent alert events first, optionally only those after a timestamp
+export async function listAlertEvents(since?: string, limit = 100): Promise<AlertEvent[]> {
+  const db = await getDb();
+  const rows = since
+    ? queryAll<EventRow>(
+        db,
+        'SELECT * FROM alert_events WHERE triggered_at > ? ORDER BY triggered_at DESC, id DESC LIMIT ?',
+        [since, limit]
+      )
+    : queryAll<EventRow>(db, 'SELECT * FROM alert_events ORDER BY triggered_at DESC, id DESC LIMIT ?', [limit]);
+  return rows.map(toEvent);
+}
@@ -0,0 +1,61 @@
+import { Position } from '@/lib/position';
+
+// "trader X opens any position over $5k"
+export interface PositionOpenedCondition {
+  type: 'position-opened';
+  trader?: string;
+  minValue?: number;
+}
+
+// "any tracked trader enters a market matching 'election'"
+export interface MarketMatchCondition {
+  type: 'market-match';
+  pattern: string;
+  trader?: string;
+}
+
+// "current price of a held position crosses 90¢"
+export interface PriceCrossCondition {
+  type: 'price-cross';
+  threshold: number;              // Probability (0–1)
+  direction: 'above' | 'below';
+  trader?: string;
+  market?: string;
+}
+
+export type AlertCondition = PositionOpenedCondition | MarketMatchCondition | PriceCrossCondition;
+
+export interface AlertRule {
+  id: number;
+  name: string;
+  enabled: boolean;
+  condition: AlertCondition;
+  createdAt: string;
+}
+
+export type WebhookFormat = 'generic' | 'slack' | 'discord' | 'telegram';
+
+export interface Webhook {
+  id: number;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  chatId: string | null;   // Telegram chat to post to
+  enabled: boolean;
+  createdAt: string;
+}
+
+// A rule that fired for one position
+export interface AlertMatch {
+  ruleId: number;
+  ruleName: string;
+  trader: string;
+  message: string;
+  position: Position;
+}
+
+export interface AlertEvent extends AlertMatch {
+  id: number;
+  triggeredAt: string;
+  deliveryErrors: string[];
+}
@@ -0,0 +1,103 @@
+import { isWebhookFormat } from './engine';
+import { AlertMatch, Webhook } from './types';
+
+const DELIVERY_TIMEOUT = 10000; // 10 seconds
+
+// Build the JSON body for a webhook in the format its service expects
+export function buildPayload(webhook: Webhook, match: AlertMatch, triggeredAt: string): unknown {
+  const text = `🔔 ${match.ruleName}: ${match.message}\n${match.position.marketUrl}`;
+
+  switch (webhook.format) {
+    case 'slack':
+      return { text };
+    case 'discord':
+      return { content: text };
+    case 'telegram':
+      return { chat_id: webhook.chatId, text, disable_web_page_preview: true };
+    default:
+      return {
+        rule: { id: match.ruleId, name: match.ruleName },
+        trader: match.trader,
+        message: match.message,
+        position: match.position,
+        triggeredAt,
+      };
+  }
+}
+
+// POST one alert to a webhook. Resolves to an error message, or null on success.
+export async function deliverAlert(webhook: Webhook, match: AlertMatch, triggeredAt: string): Promise<string | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT);
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildPayload(webhook, match, triggeredAt)),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      return `${webhook.name}: HTTP ${response.status}`;
+    }
+    return null;
+  } catch (error: any) {
+    return `${webhook.name}: ${error.name === 'AbortError' ? 'timed out' : error.message}`;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Validate webhook fields received from the API. With partial, missing fields are allowed.
+export function parseWebhookInput(
+  input: any,
+  partial = false
+): Partial<Pick<Webhook, 'name' | 'url' | 'format' | 'chatId' | 'enabled'>> {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Invalid request body');
+  }
+
+  const result: Partial<Pick<Webhook, 'name' | 'url' | 'format' | 'chatId' | 'enabled'>> = {};
+
+  if (typeof input.name === 'string' && input.name.trim()) {
+    result.name = input.name.trim();
+  } else if (!partial) {
+    throw new Error('name is required');
+  }
+
+  if (input.url !== undefined || !partial) {
+    let url: URL;
+    try {
+      url = new URL(input.url);
+    } catch {
+      throw new Error('url must be a valid URL');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error('url must use http or https');
+    }
+    result.url = url.toString();
+  }
+
+  if (input.format !== undefined || !partial) {
+    const format = input.format ?? 'generic';
+    if (!isWebhookFormat(format)) {
+      throw new Error('format must be one of: generic, slack, discord, telegram');
+    }
+    result.format = format;
+  }
+
+  if (input.chatId !== undefined) {
+    result.chatId = input.chatId ? String(input.chatId) : null;
+  } else if (!partial) {
+    result.chatId = null;
+  }
+  if (result.format === 'telegram' && !result.chatId && !partial) {
+    throw new Error('chatId is required for telegram webhooks');
+  }
+
+  if (typeof input.enabled === 'boolean') {
+    result.enabled = input.enabled;
+  }
+
+  return result;
+}
@@ -0,0 +1,126 @@
+import { Position } from '@/lib/position';
+
+export interface CategoryExposure {
+  category: string;
+  value: number;     // USD
+  share: number;     // Of the total value (0–1)
+  count: number;
+}
+
+export interface Concentration {
+  top: number;       // N largest positions
+  value: number;
+  share: number;     // Of the total value (0–1)
+}
+
+export interface PriceBucket {
+  from: number;      // Entry price range (0–1), upper bound exclusive except for the last bucket
+  to: number;
+  count: number;
+  value: number;
+}
+
+export interface PortfolioAnalytics {
+  positionCount: number;
+  totalValue: number;
+  costBasis: number;
+  unrealizedPnl: number;
+  unrealizedPnlPct: number | null;   // unrealizedPnl / costBasis, null without a cost basis
+  exposureByCategory: CategoryExposure[];
+  concentration: Concentration[];
+  entryPrices: PriceBucket[];
+  nearResolution: { count: number; value: number };
+}
+
+// Stats of one stored snapshot, for charts over time
+export interface AnalyticsPoint {
+  snapshotId: number;
+  scrapedAt: string;
+  positionCount: number;
+  totalValue: number;
+  unrealizedPnl: number;
+  top5Share: number;
+  nearResolution: number;
+}
+
+// Positions priced above/below these are close to settling
+export const NEAR_RESOLUTION_HIGH = 0.95;
+export const NEAR_RESOLUTION_LOW = 0.05;
+
+const CONCENTRATION_TOPS = [1, 5, 10];
+const PRICE_BUCKETS = 10;
+const UNCATEGORIZED = 'Uncategorized';
+
+const round = (num: number) => Math.round(num * 100) / 100;
+
+export function isNearResolution(position: Position): boolean {
+  return position.price !== null && (position.price > NEAR_RESOLUTION_HIGH || position.price < NEAR_RESOLUTION_LOW);
+}
+
+// Aggregate stats of a set of positions. Positions without a parsed value
+// count as zero; entry price buckets only include positions with an average price.
+export function computeAnalytics(positions: Position[]): PortfolioAnalytics {
+  const valueOf = (pos: Position) => pos.currentValue ?? 0;
+  const totalValue = positions.reduce((sum, pos) => sum + valueOf(pos), 0);
+  const costBasis = positions.reduce((sum, pos) => sum + (pos.costBasis ?? 0), 0);
+  const unrealizedPnl = positions.reduce((sum, pos) => sum + (pos.unrealizedPnl ?? 0), 0);
+  const shareOf = (value: number) => (totalValue > 0 ? value / totalValue : 0);
+
+  const categories = new Map<string, CategoryExposure>();
+  positions.forEach((pos) => {
+    const category = pos.market?.category || UNCATEGORIZED;
+    const entry = categories.get(category) || { category, value: 0, share: 0, count: 0 };
+    entry.value += valueOf(pos);
+    entry.count++;
+    categories.set(category, entry);
+  });
+  const exposureByCategory = Array.from(categories.values())
+    .map((entry) => ({ ...entry, value: round(entry.value), share: shareOf(entry.value) }))
+    .sort((a, b) => b.value - a.value);
+
+  const values = positions.map(valueOf).sort((a, b) => b - a);
+  const concentration = CONCENTRATION_TOPS.map((top) => {
+    const value = values.slice(0, top).reduce((sum, v) => sum + v, 0);
+    return { top, value: round(value), share: shareOf(value) };
+  });
+
+  const entryPrices: PriceBucket[] = Array.from({ length: PRICE_BUCKETS }, (_, i) => ({
+    from: i / PRICE_BUCKETS,
+    to: (i + 1) / PRICE_BUCKETS,
+    count: 0,
+    value: 0,
+  }));
+  positions.forEach((pos) => {
+    if (pos.avgPrice === null) return;
+    const bucket = entryPrices[Math.min(Math.max(Math.floor(pos.avgPrice * PRICE_BUCKETS), 0), PRICE_BUCKETS - 1)];
+    bucket.count++;
+    bucket.value = round(bucket.value + valueOf(pos));
+  });
+
+  const near = positions.filter(isNearResolution);
+
+  return {
+    positionCount: positions.length,
+    totalValue: round(totalValue),
+    costBasis: round(costBasis),
+    unrealizedPnl: round(unrealizedPnl),
+    unrealizedPnlPct: costBasis > 0 ? unrealizedPnl / costBasis : null,
+    exposureByCategory,
+    concentration,
+    entryPrices,
+    nearResolution: { count: near.length, value: round(near.reduce((sum, pos) => sum + valueOf(pos), 0)) },
+  };
+}
+
+export function toAnalyticsPoint(snapshotId: number, scrapedAt: string, positions: Position[]): AnalyticsPoint {
+  const stats = computeAnalytics(positions);
+  return {
+    snapshotId,
+    scrapedAt,
+    positionCount: stats.positionCount,
+    totalValue: stats.totalValue,
+    unrealizedPnl: stats.unrealizedPnl,
+    top5Share: stats.concentration.find((c) => c.top === 5)?.share ?? 0,
+    nearResolution: stats.nearResolution.count,
+  };
+}
@@ -0,0 +1,67 @@
+// Browser side of API key authentication: the key entered on the page is
+// kept in localStorage and sent with every request to the app's API. The
+// admin token (for key management, watcher control and alert configuration)
+// is only kept for the browser tab.
+
+const STORAGE_KEY = 'newparcer.apiKey';
+const ADMIN_TOKEN_STORAGE_KEY = 'newparcer.adminToken';
+
+export function getStoredApiKey(): string {
+  try {
+    return localStorage.getItem(STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+}
+
+export function setStoredApiKey(key: string): void {
+  try {
+    if (key) {
+      localStorage.setItem(STORAGE_KEY, key);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Storage unavailable (private mode); the key just isn't remembered
+  }
+}
+
+// fetch() for /api/... with the stored API key as a bearer token
+export function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const key = getStoredApiKey();
+  if (!key) return fetch(input, init);
+
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${key}`);
+  return fetch(input, { ...init, headers });
+}
+
+export function getStoredAdminToken(): string {
+  try {
+    return sessionStorage.getItem(ADMIN_TOKEN_STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+}
+
+export function setStoredAdminToken(token: string): void {
+  try {
+    if (token) {
+      sessionStorage.setItem(ADMIN_TOKEN_STORAGE_KEY, token);
+    } else {
+      sessionStorage.removeItem(ADMIN_TOKEN_STORAGE_KEY);
+    }
+  } catch {
+    // Storage unavailable; the token has to be entered again
+  }
+}
+
+// fetch() for admin routes with the stored admin token as a bearer token
+export function adminFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const token = getStoredAdminToken();
+  if (!token) return fetch(input, init);
+
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,171 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { ScrapeError, scrapeErrorBody } from '@/lib/errors';
+import { getApiKeyLimiter } from './limiter';
+import { findApiKey, recordApiKeyUsage } from './store';
+
+type RouteHandler<C> = (request: NextRequest, context: C) => Response | Promise<Response>;
+
+interface GuardOptions {
+  scrape?: boolean;   // The route may start a scrape: counts against the key's concurrent scrapes
+}
+
+const globalForGuard = globalThis as unknown as { openApiWarned?: boolean };
+
+// API keys are required once an admin token is configured
+export const authEnabled = () => !!process.env.ADMIN_TOKEN;
+
+// Without an admin token the API refuses requests unless it is explicitly
+// opened with API_AUTH=off (local use)
+const authOptedOut = () => process.env.API_AUTH === 'off';
+
+// Response for requests while neither ADMIN_TOKEN nor API_AUTH=off is set, or
+// null when the API is deliberately open
+function unconfiguredResponse(): NextResponse | null {
+  if (authOptedOut()) {
+    if (!globalForGuard.openApiWarned) {
+      globalForGuard.openApiWarned = true;
+      console.warn('API_AUTH=off: the API is open to anyone who can reach it');
+    }
+    return null;
+  }
+  return NextResponse.json(
+    { error: 'API authentication is not configured; set ADMIN_TOKEN, or API_AUTH=off to run without API keys' },
+    { status: 503 }
+  );
+}
+
+// Key sent as "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function requestSecret(request: NextRequest): string | null {
+  const header = request.headers.get('authorization');
+  const bearer = header?.match(/^Bearer\s+(\S+)$/i);
+  return bearer ? bearer[1] : request.headers.get('x-api-key')?.trim() || null;
+}
+
+function isAdminToken(secret: string | null): boolean {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token || !secret) return false;
+  // Compare digests so the comparison takes the same time for any input
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(secret), digest(token));
+}
+
+// Whether a request that passed withApiKey may also do what needs the admin
+// token, e.g. set a watch schedule. True when the API is open (API_AUTH=off).
+export function isAdminRequest(request: NextRequest): boolean {
+  return !authEnabled() || isAdminToken(requestSecret(request));
+}
+
+function errorResponse(error: ScrapeError, headers: Record<string, string> = {}): NextResponse {
+  return NextResponse.json(scrapeErrorBody(error), { status: error.status, headers });
+}
+
+// Free the scrape slot when a streamed body ends or the client goes away
+function releaseWhenDone(body: ReadableStream<Uint8Array>, release: () => void): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+// Require an API key for a route handler and apply the key's rate limit and,
+// with scrape set, its concurrent scrape quota. The admin token is accepted
+// too, without limits. Without ADMIN_TOKEN requests are refused (503) unless
+// API_AUTH=off, which runs the handler unchecked.
+export function withApiKey<C = { params: Record<string, string> }>(
+  handler: RouteHandler<C>,
+  { scrape = false }: GuardOptions = {}
+): RouteHandler<C> {
+  return async (request, context) => {
+    if (!authEnabled()) {
+      return unconfiguredResponse() ?? handler(request, context);
+    }
+
+    const secret = requestSecret(request);
+    if (isAdminToken(secret)) {
+      return handler(request, context);
+    }
+
+    const key = secret ? await findApiKey(secret) : null;
+    if (!key) {
+      return errorResponse(
+        new ScrapeError('UNAUTHORIZED', secret ? 'Unknown or revoked API key' : 'An API key is required'),
+        { 'WWW-Authenticate': 'Bearer' }
+      );
+    }
+
+    const limiter = getApiKeyLimiter();
+    const rate = limiter.take(key);
+    const rateHeaders = { 'X-RateLimit-Limit': String(rate.limit), 'X-RateLimit-Remaining': String(rate.remaining) };
+    if (!rate.allowed) {
+      await recordApiKeyUsage(key.id, 'rejected');
+      return errorResponse(
+        new ScrapeError('RATE_LIMITED', `Rate limit of ${key.rateLimit} requests per minute exceeded`),
+        { ...rateHeaders, 'Retry-After': String(rate.retryAfter) }
+      );
+    }
+
+    const release = scrape ? limiter.acquire(key) : () => {};
+    if (!release) {
+      await recordApiKeyUsage(key.id, 'rejected');
+      return errorResponse(
+        new ScrapeError('RATE_LIMITED', `Concurrent scrape limit (${key.maxConcurrent}) reached for this API key`),
+        { ...rateHeaders, 'Retry-After': '5' }
+      );
+    }
+
+    await recordApiKeyUsage(key.id, scrape ? 'scrape' : 'request');
+
+    let response: Response;
+    try {
+      response = await handler(request, context);
+    } catch (error) {
+      release();
+      throw error;
+    }
+    Object.entries(rateHeaders).forEach(([name, value]) => response.headers.set(name, value));
+
+    if (!scrape || !response.body) {
+      release();
+      return response;
+    }
+    // The slot is held until the body is sent: streamed scrapes (Server-Sent Events) run until then
+    return new Response(releaseWhenDone(response.body, release), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
+
+// Require the admin token (ADMIN_TOKEN) for a route handler: key management,
+// watcher control and alert configuration. Without ADMIN_TOKEN it behaves
+// like withApiKey.
+export function withAdminToken<C = { params: Record<string, string> }>(handler: RouteHandler<C>): RouteHandler<C> {
+  return async (request, context) => {
+    if (!authEnabled()) {
+      return unconfiguredResponse() ?? handler(request, context);
+    }
+    if (!isAdminToken(requestSecret(request))) {
+      return NextResponse.json({ error: 'Admin token required' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+    }
+    return handler(request, context);
+  };
+}
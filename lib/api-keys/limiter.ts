@@ -0,0 +1,70 @@
+import { ApiKey } from './types';
+
+const WINDOW_MS = 60000;
+
+export interface RateCheck {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfter: number;   // Seconds until a request is allowed again (0 if allowed)
+}
+
+// Per-key request rate (sliding one-minute window) and concurrent scrape
+// slots. Kept in memory, so limits apply per server process.
+export class ApiKeyLimiter {
+  private requests = new Map<number, number[]>();
+  private active = new Map<number, number>();
+
+  // Count a request against the key's rate limit
+  take(key: ApiKey): RateCheck {
+    const now = Date.now();
+    const recent = (this.requests.get(key.id) || []).filter((time) => time > now - WINDOW_MS);
+
+    if (recent.length >= key.rateLimit) {
+      this.requests.set(key.id, recent);
+      return {
+        allowed: false,
+        limit: key.rateLimit,
+        remaining: 0,
+        retryAfter: Math.max(1, Math.ceil((recent[0] + WINDOW_MS - now) / 1000)),
+      };
+    }
+
+    recent.push(now);
+    this.requests.set(key.id, recent);
+    return { allowed: true, limit: key.rateLimit, remaining: key.rateLimit - recent.length, retryAfter: 0 };
+  }
+
+  // Take one of the key's scrape slots; returns the function freeing it
+  // (safe to call more than once), or null when all slots are in use
+  acquire(key: ApiKey): (() => void) | null {
+    const running = this.active.get(key.id) || 0;
+    if (running >= key.maxConcurrent) return null;
+
+    this.active.set(key.id, running + 1);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const left = (this.active.get(key.id) || 1) - 1;
+      if (left > 0) {
+        this.active.set(key.id, left);
+      } else {
+        this.active.delete(key.id);
+      }
+    };
+  }
+
+  running(keyId: number): number {
+    return this.active.get(keyId) || 0;
+  }
+}
+
+const globalForLimiter = globalThis as unknown as { apiKeyLimiter?: ApiKeyLimiter };
+
+export function getApiKeyLimiter(): ApiKeyLimiter {
+  if (!globalForLimiter.apiKeyLimiter) {
+    globalForLimiter.apiKeyLimiter = new ApiKeyLimiter();
+  }
+  return globalForLimiter.apiKeyLimiter;
+}
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import { Database } from 'sql.js';
+import { getDb, lastInsertId, queryAll, queryOne, saveDb } from '@/lib/db';
+import { envInt } from '@/lib/env';
+import { ApiKey, ApiKeyInput } from './types';
+
+interface ApiKeyRow {
+  id: number;
+  name: string;
+  key_prefix: string;
+  rate_limit: number;
+  max_concurrent: number;
+  request_count: number;
+  scrape_count: number;
+  rejected_count: number;
+  last_used_at: string | null;
+  created_at: string;
+  revoked_at: string | null;
+}
+
+export type UsageKind = 'request' | 'scrape' | 'rejected';
+
+const USAGE_COLUMNS: Record<UsageKind, string> = {
+  request: 'request_count',
+  scrape: 'scrape_count',
+  rejected: 'rejected_count',
+};
+
+// Limits of new keys unless given
+const DEFAULT_RATE_LIMIT = envInt('API_RATE_LIMIT', 60);
+const DEFAULT_MAX_CONCURRENT = envInt('API_MAX_CONCURRENT', 2);
+
+// Usage counters change on every request, so they are written out at most this often
+const USAGE_SAVE_DELAY = 5000;
+
+const toApiKey = (row: ApiKeyRow): ApiKey => ({
+  id: row.id,
+  name: row.name,
+  prefix: row.key_prefix,
+  rateLimit: row.rate_limit,
+  maxConcurrent: row.max_concurrent,
+  usage: { requests: row.request_count, scrapes: row.scrape_count, rejected: row.rejected_count },
+  lastUsedAt: row.last_used_at,
+  createdAt: row.created_at,
+  revokedAt: row.revoked_at,
+});
+
+// Only a hash of each key is stored; the key itself is shown once when issued
+export const hashApiKey = (secret: string) => crypto.createHash('sha256').update(secret).digest('hex');
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const db = await getDb();
+  return queryAll<ApiKeyRow>(db, 'SELECT * FROM api_keys ORDER BY revoked_at IS NOT NULL, id').map(toApiKey);
+}
+
+export async function getApiKey(id: number): Promise<ApiKey | null> {
+  const db = await getDb();
+  const row = queryOne<ApiKeyRow>(db, 'SELECT * FROM api_keys WHERE id = ?', [id]);
+  return row ? toApiKey(row) : null;
+}
+
+// The active (not revoked) key with this secret
+export async function findApiKey(secret: string): Promise<ApiKey | null> {
+  const db = await getDb();
+  const row = queryOne<ApiKeyRow>(db, 'SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL', [
+    hashApiKey(secret),
+  ]);
+  return row ? toApiKey(row) : null;
+}
+
+// Issue a key. The returned secret is not stored and can't be shown again.
+export async function createApiKey(input: ApiKeyInput & Pick<ApiKey, 'name'>): Promise<{ key: ApiKey; secret: string }> {
+  const secret = `npk_${crypto.randomBytes(24).toString('base64url')}`;
+  const db = await getDb();
+  db.run(
+    `INSERT INTO api_keys (name, key_hash, key_prefix, rate_limit, max_concurrent, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      input.name,
+      hashApiKey(secret),
+      secret.slice(0, 12),
+      input.rateLimit ?? DEFAULT_RATE_LIMIT,
+      input.maxConcurrent ?? DEFAULT_MAX_CONCURRENT,
+      new Date().toISOString(),
+    ]
+  );
+  const id = lastInsertId(db);
+  await saveDb(db);
+  return { key: (await getApiKey(id))!, secret };
+}
+
+export async function updateApiKey(id: number, changes: ApiKeyInput): Promise<ApiKey | null> {
+  const existing = await getApiKey(id);
+  if (!existing) return null;
+
+  const key = { ...existing, ...changes };
+  const db = await getDb();
+  db.run('UPDATE api_keys SET name = ?, rate_limit = ?, max_concurrent = ? WHERE id = ?', [
+    key.name,
+    key.rateLimit,
+    key.maxConcurrent,
+    id,
+  ]);
+  await saveDb(db);
+  return key;
+}
+
+// Revoked keys stop working immediately and can't be restored
+export async function revokeApiKey(id: number): Promise<ApiKey | null> {
+  const db = await getDb();
+  db.run('UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL', [new Date().toISOString(), id]);
+  await saveDb(db);
+  return getApiKey(id);
+}
+
+const globalForApiKeys = globalThis as unknown as { usageSaveTimer?: NodeJS.Timeout };
+
+function saveUsageSoon(db: Database) {
+  if (globalForApiKeys.usageSaveTimer) return;
+  globalForApiKeys.usageSaveTimer = setTimeout(() => {
+    globalForApiKeys.usageSaveTimer = undefined;
+    saveDb(db).catch(() => {
+      // Logged by saveDb; the counters are written with the next save
+    });
+  }, USAGE_SAVE_DELAY);
+}
+
+export async function recordApiKeyUsage(id: number, kind: UsageKind): Promise<void> {
+  const db = await getDb();
+  const column = USAGE_COLUMNS[kind];
+  db.run(`UPDATE api_keys SET ${column} = ${column} + 1, last_used_at = ? WHERE id = ?`, [new Date().toISOString(), id]);
+  saveUsageSoon(db);
+}
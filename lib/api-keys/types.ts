@@ -0,0 +1,19 @@
+export interface ApiKeyUsage {
+  requests: number;   // Requests accepted
+  scrapes: number;    // Accepted requests that may start a scrape
+  rejected: number;   // Requests refused by the rate limit or scrape quota
+}
+
+export interface ApiKey {
+  id: number;
+  name: string;              // Who or what the key was issued to
+  prefix: string;            // First characters of the key, to tell keys apart
+  rateLimit: number;         // Requests per minute
+  maxConcurrent: number;     // Scrapes running at the same time
+  usage: ApiKeyUsage;
+  lastUsedAt: string | null;
+  createdAt: string;
+  revokedAt: string | null;  // Revoked keys are kept for their usage counters
+}
+
+export type ApiKeyInput = Partial<Pick<ApiKey, 'name' | 'rateLimit' | 'maxConcurrent'>>;
@@ -0,0 +1,30 @@
+import { ApiKeyInput } from './types';
+
+const positiveInt = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(`${field} must be a positive integer`);
+  }
+  return value;
+};
+
+// Validate an API key received from the admin API. With partial, missing
+// fields are allowed.
+export function parseApiKeyInput(input: any, partial = false): ApiKeyInput {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Invalid request body');
+  }
+
+  const result: ApiKeyInput = {};
+
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      throw new Error('name is required');
+    }
+    result.name = input.name.trim();
+  }
+
+  if (input.rateLimit !== undefined) result.rateLimit = positiveInt(input.rateLimit, 'rateLimit');
+  if (input.maxConcurrent !== undefined) result.maxConcurrent = positiveInt(input.maxConcurrent, 'maxConcurrent');
+
+  return result;
+}
@@ -0,0 +1,221 @@
+import puppeteer, { Browser, Page } from 'puppeteer';
+import { envInt } from '@/lib/env';
+
+interface PooledPage {
+  page: Page;
+  uses: number;
+  broken: boolean;
+}
+
+export interface BrowserPoolOptions {
+  maxPages: number;         // Max pages in use at the same time (concurrency cap)
+  maxUsesPerPage: number;   // Recycle a page after this many scrapes
+  maxUsesPerBrowser: number; // Relaunch the browser after this many scrapes
+  healthCheckTimeout: number;
+}
+
+export interface BrowserPoolStats {
+  connected: boolean;
+  active: number;
+  idle: number;
+  queued: number;
+  browserUses: number;
+}
+
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--disable-gpu',
+];
+
+const USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+// Long-lived Chrome instance shared by all scrapes, with a bounded set of
+// warm pages. Callers beyond the concurrency cap wait in a FIFO queue.
+export class BrowserPool {
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private idle: PooledPage[] = [];
+  private active = 0;
+  private browserUses = 0;
+  private queue: (() => void)[] = [];
+
+  constructor(private options: BrowserPoolOptions) {}
+
+  // Run fn with a pooled page; the page is returned to the pool afterwards
+  async withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+
+    let pooled: PooledPage | null = null;
+    try {
+      pooled = await this.takePage();
+      return await fn(pooled.page);
+    } catch (error) {
+      // A failed scrape may leave the page mid-navigation; don't reuse it
+      if (pooled) pooled.broken = true;
+      throw error;
+    } finally {
+      if (pooled) {
+        await this.releasePage(pooled);
+      }
+      this.releaseSlot();
+    }
+  }
+
+  stats(): BrowserPoolStats {
+    return {
+      connected: !!this.browser?.connected,
+      active: this.active,
+      idle: this.idle.length,
+      queued: this.queue.length,
+      browserUses: this.browserUses,
+    };
+  }
+
+  async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    this.idle = [];
+    if (browser) {
+      await browser.close().catch((e) => console.error('Error closing browser:', e));
+    }
+  }
+
+  private acquireSlot(): Promise<void> {
+    if (this.active < this.options.maxPages) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.queue.push(() => {
+        this.active++;
+        resolve();
+      });
+    });
+  }
+
+  private releaseSlot() {
+    this.active--;
+    const next = this.queue.shift();
+    if (next) next();
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.connected) {
+      return this.browser;
+    }
+    if (!this.launching) {
+      this.launching = puppeteer
+        .launch({ headless: true, args: LAUNCH_ARGS })
+        .then((browser) => {
+          browser.on('disconnected', () => {
+            // Crashed or closed: drop the instance and its pages, relaunch lazily
+            if (this.browser === browser) {
+              console.warn('Browser disconnected, will relaunch on next scrape');
+              this.browser = null;
+              this.idle = [];
+            }
+          });
+          this.browser = browser;
+          this.browserUses = 0;
+          return browser;
+        })
+        .finally(() => {
+          this.launching = null;
+        });
+    }
+    return this.launching;
+  }
+
+  private async takePage(): Promise<PooledPage> {
+    const browser = await this.getBrowser();
+
+    while (this.idle.length > 0) {
+      const pooled = this.idle.pop()!;
+      if (await this.isHealthy(pooled)) {
+        pooled.uses++;
+        this.browserUses++;
+        return pooled;
+      }
+      await pooled.page.close().catch(() => {});
+    }
+
+    const page = await browser.newPage();
+    await page.setViewport({ width: 1920, height: 1080 });
+    await page.setUserAgent(USER_AGENT);
+    // Under tsx (the CLI) functions passed to page.evaluate reference esbuild's
+    // __name helper, which doesn't exist in the page
+    await page.evaluateOnNewDocument('globalThis.__name = (fn) => fn;');
+
+    const pooled: PooledPage = { page, uses: 1, broken: false };
+    page.on('error', (error) => {
+      console.error('Page crashed:', error);
+      pooled.broken = true;
+    });
+    this.browserUses++;
+    return pooled;
+  }
+
+  private async isHealthy(pooled: PooledPage): Promise<boolean> {
+    if (pooled.broken || pooled.page.isClosed() || !this.browser?.connected) {
+      return false;
+    }
+    let timeoutId: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        pooled.page.evaluate(() => true),
+        new Promise((_, reject) => {
+          timeoutId = setTimeout(() => reject(new Error('Health check timed out')), this.options.healthCheckTimeout);
+        }),
+      ]);
+      return true;
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async releasePage(pooled: PooledPage) {
+    const browser = this.browser;
+    const recycle = pooled.broken || pooled.uses >= this.options.maxUsesPerPage || !browser?.connected;
+
+    if (recycle) {
+      await pooled.page.close().catch(() => {});
+    } else {
+      // Free the previous profile's DOM before parking the page
+      try {
+        await pooled.page.goto('about:blank');
+        this.idle.push(pooled);
+      } catch {
+        await pooled.page.close().catch(() => {});
+      }
+    }
+
+    // Relaunch the browser once it has served enough scrapes and nothing is using it
+    if (browser && this.browserUses >= this.options.maxUsesPerBrowser && this.active <= 1) {
+      console.log(`Recycling browser after ${this.browserUses} uses`);
+      this.browser = null;
+      this.idle = [];
+      await browser.close().catch((e) => console.error('Error closing browser:', e));
+    }
+  }
+}
+
+// Keep a single pool per server process (survives dev-mode module reloads)
+const globalForPool = globalThis as unknown as { browserPool?: BrowserPool };
+
+export function getBrowserPool(): BrowserPool {
+  if (!globalForPool.browserPool) {
+    globalForPool.browserPool = new BrowserPool({
+      maxPages: envInt('BROWSER_POOL_SIZE', 2),
+      maxUsesPerPage: envInt('BROWSER_PAGE_MAX_USES', 20),
+      maxUsesPerBrowser: envInt('BROWSER_MAX_USES', 100),
+      healthCheckTimeout: 5000,
+    });
+  }
+  return globalForPool.browserPool;
+}
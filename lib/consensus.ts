@@ -0,0 +1,79 @@
+import { Position, normalizeMarketUrl } from '@/lib/position';
+
+export interface ConsensusHolder {
+  trader: string;
+  side: string;
+  shares: number | null;
+  avgPrice: number | null;
+  currentValue: number | null;
+}
+
+export interface ConsensusSide {
+  side: string;
+  traders: string[];
+  shares: number;
+  currentValue: number;
+}
+
+// The same market grouped across all tracked traders
+export interface ConsensusMarket {
+  marketUrl: string;
+  marketName: string;
+  holders: ConsensusHolder[];
+  sides: ConsensusSide[];
+  traderCount: number;
+  totalValue: number;
+}
+
+// Group positions by market, showing who holds which side and how much.
+// Markets held by more traders come first, then by total value.
+export function buildConsensus(positions: Position[], minTraders = 1): ConsensusMarket[] {
+  const markets = new Map<string, ConsensusMarket>();
+
+  for (const pos of positions) {
+    const key = normalizeMarketUrl(pos.marketUrl);
+    let market = markets.get(key);
+    if (!market) {
+      market = {
+        marketUrl: pos.marketUrl,
+        marketName: pos.marketName,
+        holders: [],
+        sides: [],
+        traderCount: 0,
+        totalValue: 0,
+      };
+      markets.set(key, market);
+    }
+
+    const side = pos.side || pos.outcome || 'Unknown';
+    market.holders.push({
+      trader: pos.trader,
+      side,
+      shares: pos.shares,
+      avgPrice: pos.avgPrice,
+      currentValue: pos.currentValue,
+    });
+
+    let sideEntry = market.sides.find((s) => s.side.toLowerCase() === side.toLowerCase());
+    if (!sideEntry) {
+      sideEntry = { side, traders: [], shares: 0, currentValue: 0 };
+      market.sides.push(sideEntry);
+    }
+    if (!sideEntry.traders.includes(pos.trader)) {
+      sideEntry.traders.push(pos.trader);
+    }
+    sideEntry.shares += pos.shares ?? 0;
+    sideEntry.currentValue += pos.currentValue ?? 0;
+    market.totalValue += pos.currentValue ?? 0;
+  }
+
+  const result = Array.from(markets.values());
+  for (const market of result) {
+    market.traderCount = new Set(market.holders.map((h) => h.trader.toLowerCase())).size;
+    market.sides.sort((a, b) => b.currentValue - a.currentValue);
+  }
+
+  return result
+    .filter((market) => market.traderCount >= minTraders)
+    .sort((a, b) => b.traderCount - a.traderCount || b.totalValue - a.totalValue);
+}
@@ -0,0 +1,136 @@
+import fs from 'fs';
+import path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+
+// SQLite database file (sql.js keeps it in memory and writes it back after each change)
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+const DB_FILE = path.join(DATA_DIR, 'newparcer.sqlite');
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    trader TEXT NOT NULL COLLATE NOCASE,
+    profile_url TEXT NOT NULL,
+    source TEXT NOT NULL,
+    scraped_at TEXT NOT NULL,
+    position_count INTEGER NOT NULL,
+    positions TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_snapshots_trader ON snapshots (trader, scraped_at);
+  CREATE INDEX IF NOT EXISTS idx_snapshots_profile ON snapshots (profile_url, scraped_at);
+
+  CREATE TABLE IF NOT EXISTS alert_rules (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    condition TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS webhooks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    format TEXT NOT NULL,
+    chat_id TEXT,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS alert_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    rule_id INTEGER NOT NULL,
+    rule_name TEXT NOT NULL,
+    trader TEXT NOT NULL,
+    message TEXT NOT NULL,
+    position TEXT NOT NULL,
+    triggered_at TEXT NOT NULL,
+    delivery_errors TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_alert_events_time ON alert_events (triggered_at);
+
+  CREATE TABLE IF NOT EXISTS watchlist (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    profile_url TEXT NOT NULL UNIQUE,
+    trader TEXT NOT NULL,
+    label TEXT,
+    tags TEXT NOT NULL DEFAULT '[]',
+    group_name TEXT,
+    enabled INTEGER NOT NULL DEFAULT 1,
+    schedule TEXT,
+    source TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    key_prefix TEXT NOT NULL,
+    rate_limit INTEGER NOT NULL,
+    max_concurrent INTEGER NOT NULL,
+    request_count INTEGER NOT NULL DEFAULT 0,
+    scrape_count INTEGER NOT NULL DEFAULT 0,
+    rejected_count INTEGER NOT NULL DEFAULT 0,
+    last_used_at TEXT,
+    created_at TEXT NOT NULL,
+    revoked_at TEXT
+  );
+`;
+
+const globalForDb = globalThis as unknown as { dbPromise?: Promise<Database>; dbWrite?: Promise<void> };
+
+async function openDb(): Promise<Database> {
+  const SQL = await initSqlJs();
+  const db = fs.existsSync(DB_FILE)
+    ? new SQL.Database(fs.readFileSync(DB_FILE))
+    : new SQL.Database();
+  db.exec(SCHEMA);
+  return db;
+}
+
+export function getDb(): Promise<Database> {
+  if (!globalForDb.dbPromise) {
+    globalForDb.dbPromise = openDb().catch((error) => {
+      globalForDb.dbPromise = undefined;
+      throw error;
+    });
+  }
+  return globalForDb.dbPromise;
+}
+
+// Write the in-memory database to disk. Writes are serialized and go through a
+// temp file so a crash mid-write never leaves a truncated database behind.
+export function saveDb(db: Database): Promise<void> {
+  const write = (globalForDb.dbWrite || Promise.resolve()).then(async () => {
+    await fs.promises.mkdir(DATA_DIR, { recursive: true });
+    const tmpFile = `${DB_FILE}.tmp`;
+    await fs.promises.writeFile(tmpFile, Buffer.from(db.export()));
+    await fs.promises.rename(tmpFile, DB_FILE);
+  });
+  globalForDb.dbWrite = write.catch((error) => console.error('Error saving database:', error));
+  return write;
+}
+
+// Run a SELECT and return rows as plain objects
+export function queryAll<T>(db: Database, sql: string, params: SqlValue[] = []): T[] {
+  const stmt = db.prepare(sql);
+  try {
+    stmt.bind(params);
+    const rows: T[] = [];
+    while (stmt.step()) {
+      rows.push(stmt.getAsObject() as T);
+    }
+    return rows;
+  } finally {
+    stmt.free();
+  }
+}
+
+export function queryOne<T>(db: Database, sql: string, params: SqlValue[] = []): T | null {
+  return queryAll<T>(db, sql, params)[0] ?? null;
+}
+
+export function lastInsertId(db: Database): number {
+  return queryOne<{ id: number }>(db, 'SELECT last_insert_rowid() AS id')!.id;
+}
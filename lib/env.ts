@@ -0,0 +1,9 @@
+// Integer setting from the environment, or fallback when it is unset, not a
+// number or below min. Counts and limits must be at least 1.
+export const envInt = (name: string, fallback: number, min = 1) => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= min ? value : fallback;
+};
+
+// Duration in seconds; 0 is allowed (e.g. a TTL of 0 turns a cache off)
+export const envSeconds = (name: string, fallback: number) => envInt(name, fallback, 0);
@@ -0,0 +1,154 @@
+import type { Position } from '@/lib/position';
+
+// Machine-readable outcome of a scrape, returned as `code` by the scrape API
+export type ScrapeErrorCode =
+  | 'INVALID_REQUEST'     // Missing/invalid profileUrl or source
+  | 'NOT_POLYMARKET'      // URL is not (or redirected away from) polymarket.com
+  | 'PROFILE_NOT_FOUND'   // Profile does not exist or is not public
+  | 'EMPTY_PORTFOLIO'     // Profile loaded and has no open positions (not a failure)
+  | 'TIMEOUT'             // Page navigation or API request timed out
+  | 'PAGE_NOT_LOADED'     // Page loaded without positions or an empty state
+  | 'EXTRACTION_FAILED'   // Markets on the page but no rows parsed: markup probably changed
+  | 'UPSTREAM_ERROR'      // Polymarket API error or network failure
+  | 'UNAUTHORIZED'        // Missing, unknown or revoked API key
+  | 'RATE_LIMITED'        // API key over its request rate or concurrent scrape quota
+  | 'INTERNAL';           // Anything else
+
+interface ScrapeErrorInfo {
+  title: string;       // Short label, sent as `error`
+  hint: string;        // What the user can do about it
+  status: number;      // HTTP status of the API response
+  retryable: boolean;  // Whether trying again may help
+}
+
+export const SCRAPE_ERRORS: Record<ScrapeErrorCode, ScrapeErrorInfo> = {
+  INVALID_REQUEST: {
+    title: 'Invalid request',
+    hint: 'Check the profile URL, @username or wallet address.',
+    status: 400,
+    retryable: false,
+  },
+  NOT_POLYMARKET: {
+    title: 'Not a Polymarket URL',
+    hint: 'Use a polymarket.com profile URL, an @username or a wallet address.',
+    status: 400,
+    retryable: false,
+  },
+  PROFILE_NOT_FOUND: {
+    title: 'Profile not found',
+    hint: 'The profile does not exist or is not public. Check the username or wallet.',
+    status: 404,
+    retryable: false,
+  },
+  EMPTY_PORTFOLIO: {
+    title: 'No open positions',
+    hint: 'The profile has no open positions right now.',
+    status: 200,
+    retryable: false,
+  },
+  TIMEOUT: {
+    title: 'Timed out',
+    hint: 'Polymarket took too long to respond. Try again, or use the data API source.',
+    status: 504,
+    retryable: true,
+  },
+  PAGE_NOT_LOADED: {
+    title: 'Page did not load',
+    hint: 'The profile page loaded without positions. Try again; make sure the URL includes ?tab=positions.',
+    status: 502,
+    retryable: true,
+  },
+  EXTRACTION_FAILED: {
+    title: 'Could not read positions',
+    hint: 'Markets were found on the page but no rows could be parsed; the page layout may have changed. Try the data API source.',
+    status: 502,
+    retryable: false,
+  },
+  UPSTREAM_ERROR: {
+    title: 'Polymarket request failed',
+    hint: 'Polymarket or the network returned an error. Try again in a moment.',
+    status: 502,
+    retryable: true,
+  },
+  UNAUTHORIZED: {
+    title: 'API key required',
+    hint: 'Enter a valid API key; keys are issued on the /admin page.',
+    status: 401,
+    retryable: false,
+  },
+  RATE_LIMITED: {
+    title: 'Rate limit exceeded',
+    hint: 'Too many requests or scrapes for this API key. Wait a moment and try again.',
+    status: 429,
+    retryable: true,
+  },
+  INTERNAL: {
+    title: 'Scraping failed',
+    hint: 'An unexpected error occurred. Try again; check the server log if it keeps failing.',
+    status: 500,
+    retryable: true,
+  },
+};
+
+export class ScrapeError extends Error {
+  readonly code: ScrapeErrorCode;
+
+  constructor(code: ScrapeErrorCode, message?: string, options?: { cause?: unknown }) {
+    super(message || SCRAPE_ERRORS[code].hint, options);
+    this.name = 'ScrapeError';
+    this.code = code;
+  }
+
+  get status(): number {
+    return SCRAPE_ERRORS[this.code].status;
+  }
+
+  get retryable(): boolean {
+    return SCRAPE_ERRORS[this.code].retryable;
+  }
+}
+
+// Classify anything thrown during a scrape. Errors thrown by the sources are
+// already ScrapeErrors; timeouts and network failures are recognized by name.
+export function toScrapeError(error: any): ScrapeError {
+  if (error instanceof ScrapeError) return error;
+
+  const message = error?.message || 'Unknown error occurred';
+  if (error?.name === 'TimeoutError' || error?.name === 'AbortError') {
+    return new ScrapeError('TIMEOUT', message, { cause: error });
+  }
+  if (/fetch failed|ECONNREFUSED|ECONNRESET|ENOTFOUND|net::ERR_/.test(message)) {
+    return new ScrapeError('UPSTREAM_ERROR', message, { cause: error });
+  }
+  return new ScrapeError('INTERNAL', message, { cause: error });
+}
+
+// JSON body of a failed scrape response
+export function scrapeErrorBody(error: ScrapeError) {
+  return {
+    error: SCRAPE_ERRORS[error.code].title,
+    code: error.code,
+    message: error.message,
+    retryable: error.retryable,
+  };
+}
+
+// A position row that was scraped but has fields that could not be parsed
+export interface ScrapeWarning {
+  code: 'UNPARSED_FIELDS';
+  marketName: string;
+  outcome: string;
+  fields: ('shares' | 'avgPrice' | 'price' | 'currentValue')[];
+}
+
+const CHECKED_FIELDS: ScrapeWarning['fields'] = ['shares', 'avgPrice', 'price', 'currentValue'];
+
+// One warning per position with unparsed numeric fields
+export function collectWarnings(positions: Position[]): ScrapeWarning[] {
+  return positions.flatMap((pos) => {
+    const fields = CHECKED_FIELDS.filter((field) => pos[field] === null);
+    return fields.length > 0
+      ? [{ code: 'UNPARSED_FIELDS' as const, marketName: pos.marketName, outcome: pos.outcome, fields }]
+      : [];
+  });
+}
@@ -0,0 +1,39 @@
+import { Position } from '@/lib/position';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'xlsx'];
+
+export type ExportValue = string | number | boolean | null;
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  value: (position: Position) => ExportValue;
+}
+
+// Columns of an exported position table. Numeric fields are exported as
+// numbers (USD, shares, prices as 0–1 probabilities), never display strings.
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'trader', header: 'Trader', value: (p) => p.trader },
+  { key: 'event', header: 'Event', value: (p) => p.market?.eventTitle ?? null },
+  { key: 'market', header: 'Market', value: (p) => p.marketName },
+  { key: 'side', header: 'Outcome', value: (p) => p.side },
+  { key: 'shares', header: 'Shares', value: (p) => p.shares },
+  { key: 'avgPrice', header: 'Avg Price', value: (p) => p.avgPrice },
+  { key: 'price', header: 'Current Price', value: (p) => p.price },
+  { key: 'currentValue', header: 'Current Value', value: (p) => p.currentValue },
+  { key: 'costBasis', header: 'Cost Basis', value: (p) => p.costBasis },
+  { key: 'unrealizedPnl', header: 'Unrealized PnL', value: (p) => p.unrealizedPnl },
+  { key: 'category', header: 'Category', value: (p) => p.market?.category ?? null },
+  { key: 'endDate', header: 'End Date', value: (p) => p.market?.endDate ?? null },
+  { key: 'liquidity', header: 'Liquidity', value: (p) => p.market?.liquidity ?? null },
+  { key: 'bestBid', header: 'Best Bid', value: (p) => p.market?.bestBid ?? null },
+  { key: 'bestAsk', header: 'Best Ask', value: (p) => p.market?.bestAsk ?? null },
+  { key: 'resolved', header: 'Resolved', value: (p) => p.market?.resolved ?? null },
+  { key: 'marketUrl', header: 'Market URL', value: (p) => p.marketUrl },
+];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
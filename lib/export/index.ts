@@ -0,0 +1,64 @@
+import { Position } from '@/lib/position';
+import { EXPORT_COLUMNS, ExportFormat, ExportValue } from './columns';
+import { buildXlsx } from './xlsx';
+
+export { EXPORT_COLUMNS, EXPORT_FORMATS, isExportFormat } from './columns';
+export type { ExportFormat, ExportValue } from './columns';
+
+export interface ExportFile {
+  body: string | ArrayBuffer;
+  contentType: string;
+  filename: string;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Header row followed by one row per position
+export function toRows(positions: Position[]): ExportValue[][] {
+  return [
+    EXPORT_COLUMNS.map((column) => column.header),
+    ...positions.map((pos) => EXPORT_COLUMNS.map((column) => column.value(pos))),
+  ];
+}
+
+// Text starting like a formula (e.g. a market named "=HYPERLINK(...)") is
+// prefixed with ' so spreadsheets show it instead of evaluating it. Numbers
+// are left alone: negative values stay numbers.
+const csvField = (value: ExportValue) => {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(positions: Position[]): string {
+  return toRows(positions).map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Array of objects keyed by column key, with the same typed values as the CSV
+export function toJsonRecords(positions: Position[]): Record<string, ExportValue>[] {
+  return positions.map((pos) =>
+    Object.fromEntries(EXPORT_COLUMNS.map((column) => [column.key, column.value(pos)]))
+  );
+}
+
+// Positions as a downloadable file; name is used as the filename prefix
+export function exportPositions(positions: Position[], format: ExportFormat, name = 'positions'): ExportFile {
+  const date = new Date().toISOString().slice(0, 10);
+  const filename = `${name.replace(/[^\w.-]+/g, '_')}-${date}.${format}`;
+
+  const body =
+    format === 'csv'
+      ? toCsv(positions)
+      : format === 'xlsx'
+        ? (buildXlsx(toRows(positions)).buffer as ArrayBuffer)
+        : JSON.stringify(toJsonRecords(positions), null, 2);
+
+  return { body, contentType: CONTENT_TYPES[format], filename };
+}
@@ -0,0 +1,60 @@
+import { RawActivity } from '@/lib/activity';
+
+// Extracts activity rows (trades, redemptions, ...) from a rendered
+// Polymarket profile activity tab.
+//
+// Like extractPositions this runs in page.evaluate as well as on jsdom
+// documents, so it must stay self-contained (no imports used inside).
+export function extractActivity(trader: string, root: ParentNode = document): RawActivity[] {
+  const results: RawActivity[] = [];
+  const seen = new Set<Element>();
+  const activityWords = /\b(bought|sold|buy|sell|redeem(ed)?|split|merge(d)?|reward)\b/gi;
+
+  // Visible text with a space between elements (textContent would glue
+  // "Bought" and "120" together, and jsdom has no innerText)
+  const textOf = (node: Node): string =>
+    node.nodeType === 3
+      ? node.textContent || ''
+      : Array.from(node.childNodes).map(textOf).join(' ');
+  const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+  const marketPath = (href: string) => href.split('?')[0].split('#')[0];
+
+  const links = Array.from(root.querySelectorAll('a[href*="/event/"]')) as HTMLAnchorElement[];
+
+  links.forEach((link) => {
+    // The row is the table row, or else the largest ancestor that still
+    // holds a single market and a single activity entry
+    let container: Element | null = link.closest('tr');
+    if (!container) {
+      let element: Element | null = link.parentElement;
+      for (let depth = 0; element && depth < 8; depth++) {
+        const markets = new Set(
+          (Array.from(element.querySelectorAll('a[href*="/event/"]')) as HTMLAnchorElement[]).map((a) => marketPath(a.href))
+        );
+        const entries = clean(textOf(element)).match(activityWords) || [];
+        if (markets.size > 1 || entries.length > 1) break;
+        container = element;
+        element = element.parentElement;
+      }
+    }
+
+    if (!container || seen.has(container)) return;
+    seen.add(container);
+
+    const text = clean(textOf(container));
+    if (!text.match(activityWords)) return;
+
+    // Prefer a link with text (the first market link is often just the icon)
+    const titled = (Array.from(container.querySelectorAll('a[href*="/event/"]')) as HTMLAnchorElement[])
+      .find((a) => clean(a.textContent || '').length > 0);
+
+    results.push({
+      trader,
+      marketName: clean((titled || link).textContent || '') || 'Unknown Market',
+      marketUrl: (titled || link).href,
+      text,
+    });
+  });
+
+  return results;
+}
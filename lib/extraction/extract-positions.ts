@@ -0,0 +1,480 @@
+import type { ExtractedField, FieldSource, RawPosition } from '@/lib/position';
+import type { SelectorProfile } from './selectors';
+
+// Extracts positions from a rendered Polymarket profile DOM.
+//
+// Works on any DOM: the live page (passed straight to page.evaluate, so this
+// function must stay self-contained — no imports or module-level helpers used
+// inside), or a jsdom document built from a saved HTML snapshot.
+//
+// Selectors and patterns come from a selector profile (lib/extraction/selectors.ts).
+//
+// Every row records which strategy produced each field and a confidence score
+// (`extraction`). With debug set, rows also get the matched container HTML and
+// a trace of the strategies tried.
+export function extractPositions(
+  trader: string,
+  profile: SelectorProfile,
+  root: ParentNode = document,
+  debug = false
+): RawPosition[] {
+  const results: RawPosition[] = [];
+  const MAX_DEBUG_HTML = 5000;
+
+  const linkSelector = profile.marketLink;
+  const pricePattern = new RegExp(profile.pricePattern, 'i');
+  const allPricesPattern = new RegExp(profile.pricePattern, 'gi');
+  const avgPatterns = profile.avgPricePatterns.map((pattern) => new RegExp(pattern, 'i'));
+  const valuePattern = new RegExp(profile.valuePattern, 'i');
+  const sharesPattern = new RegExp(profile.sharesPattern, 'i');
+  const { avgLabels, valueLabels, outcomeNames } = profile;
+  const hasLabel = (text: string, labels: string[]) => labels.some((label) => text.includes(label));
+
+  // Find ALL market links (not just with specific classes)
+  const allMarketLinks = Array.from(
+    root.querySelectorAll(linkSelector)
+  ) as HTMLAnchorElement[];
+
+  // First try to find links with the profile's classes (main pattern)
+  let marketLinks = allMarketLinks.filter((link) => {
+    const classes = link.className || '';
+    return profile.preferredLinkClasses.every((name) => classes.includes(name)) && !!link.href;
+  });
+
+  // If not enough links found, use all links
+  if (marketLinks.length < profile.minPreferredLinks) {
+    marketLinks = allMarketLinks.filter((link) => !!link.href);
+  }
+
+  // For each market link, find its container and extract data
+  marketLinks.forEach((link) => {
+    try {
+      const trace: string[] = [];
+      const sources: Partial<Record<ExtractedField, FieldSource>> = {};
+      const found = (field: ExtractedField, strategy: string, confidence: number, text: string) => {
+        sources[field] = { strategy, confidence };
+        trace.push(`${field}: ${strategy} (${confidence}) "${text}"`);
+      };
+
+      // Find parent container that contains only this market link
+      let container: Element | null = null;
+      let containerSource: FieldSource = { strategy: 'parent-fallback', confidence: 0.4 };
+      
+      // Strategy 1: Try to find tr (table row) that contains this link
+      const tr = link.closest('tr');
+      if (tr) {
+        const linksInTr = tr.querySelectorAll(linkSelector);
+        if (linksInTr.length === 1 && linksInTr[0] === link) {
+          container = tr;
+          containerSource = { strategy: 'table-row', confidence: 1 };
+        }
+      }
+      
+      // Strategy 2: Try to find div with position-related classes
+      if (!container) {
+        let div: Element | null = null;
+        for (const selector of profile.rowSelectors) {
+          div = link.closest(selector);
+          if (div) break;
+        }
+        if (div) {
+          const linksInDiv = div.querySelectorAll(linkSelector);
+          if (linksInDiv.length === 1 && linksInDiv[0] === link) {
+            container = div;
+            containerSource = { strategy: 'row-div', confidence: 0.9 };
+          }
+        }
+      }
+      
+      // Strategy 3: Find the closest parent that looks like a row/container
+      if (!container) {
+        let current: Element | null = link.parentElement;
+        let depth = 0;
+        while (current && depth < 5) {
+          const linksInCurrent = current.querySelectorAll(linkSelector);
+          // If this element contains only our link and has multiple children, it's likely a container
+          if (linksInCurrent.length === 1 && 
+              linksInCurrent[0] === link && 
+              current.children.length > 2) {
+            container = current;
+            containerSource = { strategy: 'ancestor', confidence: 0.7 };
+            break;
+          }
+          current = current.parentElement;
+          depth++;
+        }
+      }
+      
+      // Strategy 4: Fallback to parent's parent
+      if (!container) {
+        container = link.parentElement?.parentElement || link.parentElement;
+      }
+
+      if (!container) return;
+      trace.push(`container: ${containerSource.strategy} <${container.tagName.toLowerCase()}>`);
+
+      // Extract market name and URL
+      const marketName = link.innerText?.trim() || link.textContent?.trim() || '';
+      if (marketName) {
+        found('marketName', 'link-text', 1, marketName);
+      }
+      let marketUrl = link.href || link.getAttribute('href') || '';
+      
+      if (marketUrl && !marketUrl.startsWith('http')) {
+        if (marketUrl.startsWith('/')) {
+          marketUrl = `https://polymarket.com${marketUrl}`;
+        } else {
+          marketUrl = `https://polymarket.com/${marketUrl}`;
+        }
+      }
+
+      if (!marketUrl) return;
+
+      // Get full container text and HTML for parsing
+      const containerText = container.textContent || (container as HTMLElement).innerText || '';
+      const containerHTML = container.innerHTML || '';
+
+      // If container is a table row, try to extract from cells
+      const isTableRow = container.tagName === 'TR';
+      const cells = isTableRow ? Array.from(container.querySelectorAll('td, th')) : [];
+
+      // Extract avg price (for exclusion) - look for "at X¢" pattern
+      let avgPrice = '';
+      for (const pattern of avgPatterns) {
+        const match = containerText.match(pattern);
+        if (match && match[1]) {
+          avgPrice = match[1];
+          break;
+        }
+      }
+
+      // Extract current price using multiple strategies (not avg)
+      let currentPrice = '';
+      
+      // Strategy 0: If table row, look for current price in cells (not avg)
+      if (isTableRow && cells.length > 0) {
+        for (const cell of cells) {
+          const cellText = cell.textContent || '';
+          const cellLower = cellText.toLowerCase();
+          // Look for price pattern that's not avg
+          const priceMatch = cellText.match(pricePattern);
+          if (priceMatch) {
+            // Skip if it's avg price
+            if (!hasLabel(cellLower, avgLabels)) {
+              currentPrice = priceMatch[0];
+              found('currentPrice', 'table-cell', 0.9, currentPrice);
+              break;
+            }
+          }
+        }
+      }
+      
+      // Strategy 1: Find all price elements (spans, divs with ¢)
+      const priceElements = Array.from(container.querySelectorAll('span, div, p, td, th')).filter(el => {
+        const text = el.textContent || '';
+        return pricePattern.test(text);
+      });
+
+      // Strategy 2: Look for price that is NOT avg
+      for (const el of priceElements) {
+        const text = el.textContent || '';
+        const priceMatch = text.match(pricePattern);
+        if (priceMatch) {
+          const fullText = el.textContent || '';
+          const parentText = el.parentElement?.textContent || '';
+          const context = (fullText + ' ' + parentText).toLowerCase();
+          
+          // Check if it's avg price - skip if it is. The parent's text only counts
+          // for the avg price itself ("at <span>61¢</span>"): in a div row it holds
+          // the "shares at" text of every price.
+          const isAvg = avgPatterns.some((pattern) => pattern.test(fullText.toLowerCase())) ||
+            (!!avgPrice && priceMatch[1] === avgPrice && avgPatterns.some((pattern) => pattern.test(context)));
+          
+          if (!isAvg) {
+            // Overrides the table cell; agreeing strategies are more trustworthy
+            const previous = currentPrice;
+            currentPrice = priceMatch[0];
+            if (!previous) {
+              found('currentPrice', 'element', 0.8, currentPrice);
+            } else if (previous === currentPrice) {
+              found('currentPrice', 'table-cell+element', 1, currentPrice);
+            } else {
+              trace.push(`currentPrice: element "${currentPrice}" overrides table-cell "${previous}"`);
+              found('currentPrice', 'element', 0.6, currentPrice);
+            }
+            break;
+          }
+        }
+      }
+
+      // Strategy 3: Look for all prices and take the one that's not avg
+      if (!currentPrice) {
+        const allPrices = containerText.match(allPricesPattern);
+        if (allPrices && allPrices.length > 0) {
+          for (const priceMatch of allPrices) {
+            const priceValue = priceMatch.match(/(\d+(?:[.,]\d+)?)/)?.[1];
+            if (priceValue && priceValue !== avgPrice) {
+              const priceIndex = containerText.indexOf(priceMatch);
+              const beforeText = containerText.substring(
+                Math.max(0, priceIndex - 50),
+                priceIndex
+              ).toLowerCase();
+              
+              // Check if it's clearly not avg
+              if (!hasLabel(beforeText, avgLabels)) {
+                currentPrice = priceMatch;
+                found('currentPrice', 'text-scan', 0.5, currentPrice);
+                break;
+              }
+            }
+          }
+        }
+      }
+
+      // The same number as the avg price may well be the avg price grabbed by mistake
+      const cents = (text: string) => parseFloat(text.replace(',', '.'));
+      if (currentPrice && avgPrice && cents(currentPrice) === cents(avgPrice) && sources.currentPrice) {
+        trace.push(`currentPrice: equals avg price ${avgPrice}¢`);
+        sources.currentPrice.confidence = Math.min(sources.currentPrice.confidence, 0.3);
+      }
+
+      // Extract value (dollar amount) using multiple strategies
+      let value = '';
+      
+      // Strategy 0: If table row, look for value in cells
+      if (isTableRow && cells.length > 0) {
+        for (const cell of cells) {
+          const cellText = cell.textContent || '';
+          const valueMatch = cellText.match(valuePattern);
+          if (valueMatch) {
+            const cellLower = cellText.toLowerCase();
+            // Prefer cells with value/PnL context
+            if (hasLabel(cellLower, valueLabels)) {
+              value = valueMatch[0];
+              found('value', 'table-cell-labelled', 0.9, value);
+              break;
+            } else if (!value) {
+              // Take first dollar amount as fallback
+              value = valueMatch[0];
+              found('value', 'table-cell', 0.6, value);
+            }
+          }
+        }
+      }
+      
+      // Strategy 1: Look for dollar amounts in specific elements
+      const valueElements = Array.from(container.querySelectorAll('span, div, p, td, th')).filter(el => {
+        const text = el.textContent || '';
+        return valuePattern.test(text);
+      });
+
+      for (const el of valueElements) {
+        const text = el.textContent || '';
+        const valueMatch = text.match(valuePattern);
+        if (valueMatch) {
+          // Check if it's in a value/PnL context
+          const context = (el.textContent || el.parentElement?.textContent || '').toLowerCase();
+          if (hasLabel(context, valueLabels)) {
+            value = valueMatch[0];
+            found('value', 'element-labelled', 0.8, value);
+            break;
+          } else if (!value) {
+            // Take first dollar amount as fallback
+            value = valueMatch[0];
+            found('value', 'element', 0.5, value);
+          }
+        }
+      }
+
+      // Strategy 2: Look for value patterns in text
+      if (!value) {
+        // A dollar amount, or a bare number after a value label ("Value: 1,234")
+        const valuePatterns = [
+          valuePattern,
+          ...valueLabels.map((label) => new RegExp(`${label}[:\\s]+\\$?(\\d(?:[\\d.,]|\\s(?=\\d{3}\\b))*)`, 'i')),
+        ];
+
+        for (const pattern of valuePatterns) {
+          const match = containerText.match(pattern);
+          if (match) {
+            value = match[1] ? `$${match[1]}` : match[0].trim();
+            found('value', 'text-pattern', 0.4, value);
+            break;
+          }
+        }
+      }
+
+      // Extract outcome - full text value under market name (e.g., "Down" or "3 799,4 shares at 61¢")
+      // Keep the text as it appears on the site
+      let outcome = '';
+      
+      // Strategy 1: Look for text right after market link (sibling elements)
+      const linkParent = link.parentElement;
+      if (linkParent) {
+        // Check next sibling elements
+        let current: Element | null = linkParent.nextElementSibling;
+        let depth = 0;
+        while (current && depth < 5) {
+          const text = (current.textContent || '').trim();
+          // Look for pattern: "number shares at price" or outcome name
+          const match = text.match(sharesPattern);
+          if (match) {
+            // Full match with the side in front when it's in the same element: "No 3 799,4 shares at 61¢"
+            const side = text.substring(0, match.index).trim();
+            outcome = side.length > 0 && side.length < 50 ? `${side} ${match[0].trim()}` : match[0].trim();
+            found('outcome', 'sibling-shares', 1, outcome);
+            break;
+          } else if (text.length > 0 && text.length < 50) {
+            // Could be outcome name like "Down", "Up", "Yes", "No"
+            if (outcomeNames.some(name => text.includes(name))) {
+              outcome = text;
+              found('outcome', 'sibling-name', 0.8, outcome);
+              break;
+            }
+          }
+          current = current.nextElementSibling;
+          depth++;
+        }
+        
+        // If not found, check parent container's text after market name
+        if (!outcome) {
+          const parentText = linkParent.textContent || '';
+          const marketIndex = parentText.indexOf(marketName);
+          if (marketIndex >= 0) {
+            // Get text after market name (up to 300 chars)
+            const afterMarket = parentText.substring(marketIndex + marketName.length, marketIndex + marketName.length + 300).trim();
+            // Look for shares pattern
+            const match = afterMarket.match(sharesPattern);
+            if (match) {
+              outcome = match[0].trim();
+              found('outcome', 'parent-shares', 0.9, outcome);
+            } else {
+              // Try to find outcome name or first meaningful text
+              const firstLine = afterMarket.split('\n')[0].trim();
+              if (firstLine.length > 0 && firstLine.length < 100) {
+                outcome = firstLine;
+                found('outcome', 'parent-line', 0.5, outcome);
+              }
+            }
+          }
+        }
+      }
+      
+      // Strategy 2: Search in container text for shares pattern or outcome name
+      if (!outcome) {
+        // Pattern: "number shares at price" - keep full text
+        const match = containerText.match(sharesPattern);
+        if (match) {
+          outcome = match[0].trim();
+          found('outcome', 'container-shares', 0.8, outcome);
+        } else {
+          // Look for outcome name near market name
+          const marketIndex = containerText.indexOf(marketName);
+          if (marketIndex >= 0) {
+            const afterMarket = containerText.substring(marketIndex + marketName.length, marketIndex + marketName.length + 200);
+            for (const name of outcomeNames) {
+              const nameIndex = afterMarket.indexOf(name);
+              if (nameIndex >= 0 && nameIndex < 100) {
+                // Get text starting from outcome name
+                const outcomeText = afterMarket.substring(nameIndex).split('\n')[0].trim();
+                if (outcomeText.length > 0 && outcomeText.length < 150) {
+                  outcome = outcomeText;
+                  found('outcome', 'container-name', 0.6, outcome);
+                  break;
+                }
+              }
+            }
+          }
+        }
+      }
+      
+      // Strategy 3: If still not found, try to find text after market name in container
+      if (!outcome) {
+        const marketIndex = containerText.indexOf(marketName);
+        if (marketIndex >= 0) {
+          const afterMarket = containerText.substring(marketIndex + marketName.length).trim();
+          // Get first meaningful line (not empty, reasonable length)
+          const lines = afterMarket.split('\n').map((l: string) => l.trim()).filter((l: string) => l.length > 0);
+          if (lines.length > 0) {
+            const firstLine = lines[0];
+            if (firstLine.length > 0 && firstLine.length < 200) {
+              outcome = firstLine;
+              found('outcome', 'container-line', 0.3, outcome);
+            }
+          }
+        }
+      }
+
+      // Only add if we have at least market URL
+      if (marketUrl) {
+        const missing: FieldSource = { strategy: 'missing', confidence: 0 };
+        const fields: Record<ExtractedField, FieldSource> = {
+          marketName: sources.marketName || missing,
+          outcome: sources.outcome || missing,
+          currentPrice: sources.currentPrice || missing,
+          value: sources.value || missing,
+        };
+
+        const position: RawPosition = {
+          trader: trader || '',
+          marketName: marketName || 'Unknown Market',
+          marketUrl,
+          outcome: outcome || '',
+          currentPrice: currentPrice || '',
+          value: value || '',
+          extraction: {
+            profile: profile.version,
+            container: containerSource,
+            fields,
+            confidence: Math.min(containerSource.confidence, ...Object.values(fields).map((f) => f.confidence)),
+          },
+        };
+        if (debug) {
+          position.debug = { containerHtml: container.outerHTML.slice(0, MAX_DEBUG_HTML), trace };
+        }
+        
+        // Log for debugging (only first few)
+        if (results.length < 3) {
+          console.log('Parsed position:', {
+            market: position.marketName.substring(0, 50),
+            outcome: position.outcome || '(empty)',
+            currentPrice: position.currentPrice || '(empty)',
+            value: position.value || '(empty)',
+          });
+        }
+        
+        results.push(position);
+      }
+    } catch (error) {
+      // Skip this position if there's an error
+      console.error('Error extracting position:', error);
+    }
+  });
+
+  const normalizeUrl = (url: string) => url.split('?')[0].split('#')[0].toLowerCase().replace(/\/$/, '');
+
+  // Remove duplicates based on marketUrl + outcome (a trader can hold both sides of a market)
+  const uniqueResults: RawPosition[] = [];
+  const seenKeys = new Set<string>();
+
+  for (const pos of results) {
+    const key = `${normalizeUrl(pos.marketUrl)}|${pos.outcome.trim().toLowerCase()}`;
+    if (!seenKeys.has(key)) {
+      seenKeys.add(key);
+      uniqueResults.push(pos);
+    }
+  }
+
+  // A row with several market links can yield an extra entry without outcome text;
+  // drop it when the same market already has an entry with an outcome
+  const urlsWithOutcome = new Set(
+    uniqueResults
+      .filter((pos) => pos.outcome.trim())
+      .map((pos) => normalizeUrl(pos.marketUrl))
+  );
+
+  return uniqueResults.filter((pos) => {
+    if (pos.outcome.trim()) return true;
+    return !urlsWithOutcome.has(normalizeUrl(pos.marketUrl));
+  });
+}
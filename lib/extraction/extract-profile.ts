@@ -0,0 +1,56 @@
+import { RawProfile } from '@/lib/profile';
+
+// Extracts the header of a rendered Polymarket profile page: display name,
+// wallet, join date and the labelled stats (positions value, profit/loss,
+// volume traded, markets traded).
+//
+// Like extractPositions this runs in page.evaluate as well as on jsdom
+// documents, so it must stay self-contained (no imports used inside).
+export function extractProfile(root: ParentNode = document): RawProfile {
+  const statLabel = /^(positions? value|portfolio( value)?|profit\s*\/\s*loss|p\/?n?l|volume( traded)?|markets? traded|predictions)$/i;
+  const statValue = /[-−+]?\$?\s?\d[\d.,]*\s?[kmb]?\b/i;
+
+  const clean = (text: string | null) => (text || '').replace(/\s+/g, ' ').trim();
+
+  const heading = root.querySelector('h1');
+  const displayName = heading ? clean(heading.textContent) : '';
+
+  // The wallet shows up in links (polygonscan) or the copy-address button text
+  let walletAddress = '';
+  const walletPattern = /0x[a-fA-F0-9]{40}/;
+  const withWallet = Array.from(root.querySelectorAll('a[href], [data-address], button')).find((el) =>
+    walletPattern.test(`${el.getAttribute('href') || ''} ${el.getAttribute('data-address') || ''} ${el.textContent || ''}`)
+  );
+  if (withWallet) {
+    const match = `${withWallet.getAttribute('href') || ''} ${withWallet.getAttribute('data-address') || ''} ${withWallet.textContent || ''}`.match(walletPattern);
+    walletAddress = match ? match[0] : '';
+  }
+
+  const stats: { [label: string]: string } = {};
+  let joinedText = '';
+
+  Array.from(root.querySelectorAll('*')).forEach((el) => {
+    if (el.children.length > 0) return;
+    const text = clean(el.textContent);
+
+    if (!joinedText && /^joined\b/i.test(text)) {
+      joinedText = text;
+      return;
+    }
+    if (!statLabel.test(text) || stats[text]) return;
+
+    // The value sits next to the label: walk up until the container holds a number
+    let container: Element | null = el.parentElement;
+    for (let depth = 0; container && depth < 3; depth++) {
+      const rest = clean(container.textContent).replace(text, ' ');
+      const value = rest.match(statValue);
+      if (value) {
+        stats[text] = value[0].replace(/\s/g, '');
+        break;
+      }
+      container = container.parentElement;
+    }
+  });
+
+  return { displayName, walletAddress, stats, joinedText };
+}
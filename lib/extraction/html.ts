@@ -0,0 +1,62 @@
+import { JSDOM } from 'jsdom';
+import { normalizeActivity, Trade } from '@/lib/activity';
+import { Position, normalizePosition } from '@/lib/position';
+import { normalizeProfile, TraderProfile } from '@/lib/profile';
+import { extractTraderName, extractWalletAddress } from '@/lib/trader';
+import { extractActivity } from './extract-activity';
+import { extractPositions } from './extract-positions';
+import { extractProfile } from './extract-profile';
+import { DEFAULT_SELECTOR_PROFILES, SelectorProfile } from './selectors';
+
+// Username from the page URL, or the wallet address of a /profile/0x... URL
+const traderFromUrl = (pageUrl: string) => extractTraderName(pageUrl) || extractWalletAddress(pageUrl);
+
+// Run the position extractor against saved profile HTML (no browser needed).
+// pageUrl is used to resolve relative market links and to derive the trader name.
+// Selector profiles are tried in order like on the live page.
+export function extractPositionsFromHtml(
+  html: string,
+  pageUrl = 'https://polymarket.com/',
+  trader = traderFromUrl(pageUrl),
+  profiles: SelectorProfile[] = DEFAULT_SELECTOR_PROFILES
+): Position[] {
+  const dom = new JSDOM(html, { url: pageUrl });
+  try {
+    for (const profile of profiles) {
+      const positions = extractPositions(trader, profile, dom.window.document);
+      if (positions.length > 0) return positions.map(normalizePosition);
+    }
+    return [];
+  } finally {
+    dom.window.close();
+  }
+}
+
+// Same for a saved activity tab. Relative times ("3h ago") are resolved against now.
+export function extractActivityFromHtml(
+  html: string,
+  pageUrl = 'https://polymarket.com/',
+  trader = traderFromUrl(pageUrl),
+  now = new Date()
+): Trade[] {
+  const dom = new JSDOM(html, { url: pageUrl });
+  try {
+    return extractActivity(trader, dom.window.document).map((raw) => normalizeActivity(raw, now));
+  } finally {
+    dom.window.close();
+  }
+}
+
+// Profile header of a saved profile page
+export function extractProfileFromHtml(
+  html: string,
+  pageUrl = 'https://polymarket.com/',
+  trader = traderFromUrl(pageUrl)
+): TraderProfile {
+  const dom = new JSDOM(html, { url: pageUrl });
+  try {
+    return normalizeProfile(extractProfile(dom.window.document), trader, pageUrl);
+  } finally {
+    dom.window.close();
+  }
+}
@@ -0,0 +1,184 @@
+import fs from 'fs';
+import yaml from 'js-yaml';
+import path from 'path';
+
+// Selectors, patterns and keywords the position extractor relies on. Kept as
+// plain strings so a profile can be passed to page.evaluate; patterns are
+// regular expression sources, always matched case-insensitively.
+export interface SelectorProfile {
+  version: string;                  // Reported as `extraction.profile` on positions
+  description?: string;
+  marketLink: string;               // CSS selector of a position's market link
+  preferredLinkClasses: string[];   // Links with all these classes are preferred...
+  minPreferredLinks: number;        // ...when at least this many are found
+  rowSelectors: string[];           // Closest ancestor tried as the row element
+  pricePattern: string;             // A price, e.g. "61¢"
+  avgPricePatterns: string[];       // Average entry price with the number captured, e.g. "at 61¢"
+  avgLabels: string[];              // Words marking a price as the average entry price
+  valuePattern: string;             // A dollar amount, e.g. "$1,234.50"
+  valueLabels: string[];            // Words marking a dollar amount as the position value
+  sharesPattern: string;            // Outcome text, e.g. "3 799,4 shares at 61¢"
+  outcomeNames: string[];           // Outcome names recognized without a shares pattern
+  emptyStateText: string;           // Page text of a profile without positions
+  notFoundText: string;             // Page text/title of a missing profile
+  loadMoreText: string;             // Text of a button that loads more rows
+}
+
+// Extraction profiles (see selectors.example.json), JSON or YAML; tried before the built-in ones.
+// Without SELECTORS_FILE the first existing selectors.json/.yaml/.yml is used.
+const SELECTORS_FILES = process.env.SELECTORS_FILE
+  ? [process.env.SELECTORS_FILE]
+  : ['selectors.json', 'selectors.yaml', 'selectors.yml'].map((name) => path.join(process.cwd(), name));
+
+// Number parts of the default patterns, for any browser locale: cents with a
+// decimal point or comma ("61,5¢"), amounts also with space or apostrophe
+// grouping ("$1 234,50", "3 799,4 shares", "1'234.5")
+const CENTS = '\\d+(?:[.,]\\d+)?';
+const AMOUNT = "\\d(?:[\\d.,'’]|\\s(?=\\d{3}\\b))*";
+
+export const DEFAULT_SELECTOR_PROFILES: SelectorProfile[] = [
+  {
+    version: '2024-10',
+    description: 'Profile page with flex-1 market links and "shares at" outcome text',
+    marketLink: 'a[href*="/event/"]',
+    preferredLinkClasses: ['flex-1', 'cursor-pointer'],
+    minPreferredLinks: 5,
+    rowSelectors: ['div[class*="position"]', 'div[class*="row"]', 'div[role="row"]'],
+    pricePattern: `(${CENTS})\\s*¢`,
+    avgPricePatterns: [`at\\s+(${CENTS})\\s*¢`, `avg[:\\s]+(${CENTS})\\s*¢`, `average[:\\s]+(${CENTS})\\s*¢`],
+    avgLabels: ['at', 'avg', 'average'],
+    valuePattern: `[-−]?(?:\\$\\s?${AMOUNT}(?:\\s?[KMB]\\b)?|${AMOUNT}(?:\\s?[KMB])?\\s?\\$)`,
+    valueLabels: ['value', 'pnl', 'profit', 'loss'],
+    sharesPattern: `(${AMOUNT}(?:\\s?[KMB])?)\\s+shares\\s+at\\s+(${CENTS})\\s*¢`,
+    outcomeNames: ['Down', 'Up', 'Yes', 'No', 'Trump', 'Biden'],
+    emptyStateText: '\\bno (open )?positions\\b',
+    notFoundText: "page not found|didn['’]t forecast this|user not found|profile not found",
+    loadMoreText: '^(load|show|view|see) more\\b',
+  },
+];
+
+const STRING_FIELDS = [
+  'marketLink', 'pricePattern', 'valuePattern', 'sharesPattern', 'emptyStateText', 'notFoundText', 'loadMoreText',
+] as const;
+const LIST_FIELDS = ['preferredLinkClasses', 'rowSelectors', 'avgPricePatterns', 'avgLabels', 'valueLabels', 'outcomeNames'] as const;
+const PATTERN_FIELDS = ['pricePattern', 'valuePattern', 'sharesPattern', 'emptyStateText', 'notFoundText', 'loadMoreText'] as const;
+
+function checkPattern(source: string, label: string) {
+  try {
+    new RegExp(source, 'i');
+  } catch (error: any) {
+    throw new Error(`${label}: invalid pattern: ${error.message}`);
+  }
+}
+
+// Validate one profile. Fields left out are taken from the built-in profile,
+// so a file only needs to list what changed.
+function parseProfile(input: any, label: string): SelectorProfile {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error(`${label}: must be an object`);
+  }
+  if (typeof input.version !== 'string' || !input.version.trim()) {
+    throw new Error(`${label}: version is required`);
+  }
+
+  const profile = { ...DEFAULT_SELECTOR_PROFILES[0], description: undefined, ...input } as SelectorProfile;
+
+  STRING_FIELDS.forEach((field) => {
+    if (typeof profile[field] !== 'string' || !profile[field].trim()) {
+      throw new Error(`${label}.${field}: must be a non-empty string`);
+    }
+  });
+  LIST_FIELDS.forEach((field) => {
+    if (!Array.isArray(profile[field]) || profile[field].some((item) => typeof item !== 'string' || !item)) {
+      throw new Error(`${label}.${field}: must be an array of non-empty strings`);
+    }
+  });
+  if (!Number.isInteger(profile.minPreferredLinks) || profile.minPreferredLinks < 0) {
+    throw new Error(`${label}.minPreferredLinks: must be a non-negative integer`);
+  }
+
+  PATTERN_FIELDS.forEach((field) => checkPattern(profile[field], `${label}.${field}`));
+  profile.avgPricePatterns.forEach((pattern, i) => checkPattern(pattern, `${label}.avgPricePatterns[${i}]`));
+
+  return profile;
+}
+
+// Parse the selectors file contents: the file's profiles in order, followed by
+// the built-in ones unless "includeDefaults" is false
+export function parseSelectorConfig(input: any): SelectorProfile[] {
+  if (!input || typeof input !== 'object' || !Array.isArray(input.profiles)) {
+    throw new Error('Selectors file must be an object with a "profiles" array');
+  }
+
+  const profiles = input.profiles.map((entry: any, index: number) => parseProfile(entry, `profiles[${index}]`));
+  const versions = new Set<string>();
+  profiles.forEach((profile: SelectorProfile) => {
+    if (versions.has(profile.version)) {
+      throw new Error(`Duplicate profile version "${profile.version}"`);
+    }
+    versions.add(profile.version);
+  });
+
+  return input.includeDefaults === false
+    ? profiles
+    : [...profiles, ...DEFAULT_SELECTOR_PROFILES.filter((profile) => !versions.has(profile.version))];
+}
+
+const globalForSelectors = globalThis as unknown as {
+  selectorCache?: { file: string; modifiedAt: number; profiles: SelectorProfile[] };
+};
+
+async function findSelectorsFile(): Promise<{ file: string; stat: fs.Stats } | null> {
+  for (const file of SELECTORS_FILES) {
+    try {
+      return { file, stat: await fs.promises.stat(file) };
+    } catch {
+      // Try the next name
+    }
+  }
+  return null;
+}
+
+// Profiles to try, in order. The file is re-read when it changes; without a
+// file the built-in profiles are used.
+export async function loadSelectorProfiles(): Promise<SelectorProfile[]> {
+  const found = await findSelectorsFile();
+  if (!found) {
+    return DEFAULT_SELECTOR_PROFILES;
+  }
+  const { file, stat } = found;
+
+  const cached = globalForSelectors.selectorCache;
+  if (cached && cached.file === file && cached.modifiedAt === stat.mtimeMs) {
+    return cached.profiles;
+  }
+
+  const text = await fs.promises.readFile(file, 'utf8');
+  const isYaml = /\.ya?ml$/i.test(file);
+  let input: unknown;
+  try {
+    input = isYaml ? yaml.load(text) : JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`${file} is not valid ${isYaml ? 'YAML' : 'JSON'}: ${error.message}`);
+  }
+
+  let profiles: SelectorProfile[];
+  try {
+    profiles = parseSelectorConfig(input);
+  } catch (error: any) {
+    throw new Error(`${file}: ${error.message}`);
+  }
+
+  globalForSelectors.selectorCache = { file, modifiedAt: stat.mtimeMs, profiles };
+  return profiles;
+}
+
+// Selector matching a market link of any of the profiles
+export function marketLinkSelector(profiles: SelectorProfile[]): string {
+  return Array.from(new Set(profiles.map((profile) => profile.marketLink))).join(', ');
+}
+
+// Pattern matching the "Load more" button text of any of the profiles
+export function loadMorePattern(profiles: SelectorProfile[]): string {
+  return Array.from(new Set(profiles.map((profile) => `(?:${profile.loadMoreText})`))).join('|');
+}
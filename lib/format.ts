@@ -0,0 +1,19 @@
+// Display formatting shared by the data API source and the UI
+
+export const formatUsd = (num: number) =>
+  `${num < 0 ? '-' : ''}$${Math.abs(num).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Large amounts abbreviated: 1234567 -> "$1.23M", 45600 -> "$45.6k"
+export const formatCompactUsd = (num: number) => {
+  const sign = num < 0 ? '-' : '';
+  const abs = Math.abs(num);
+  if (abs >= 1e6) return `${sign}$${(abs / 1e6).toFixed(2)}M`;
+  if (abs >= 1e4) return `${sign}$${(abs / 1e3).toFixed(1)}k`;
+  return formatUsd(num);
+};
+
+// Probability (0–1) as cents: 0.615 -> "61.5¢"
+export const formatCents = (price: number) => `${Math.round(price * 1000) / 10}¢`;
+
+export const formatShares = (num: number) =>
+  num.toLocaleString('en-US', { maximumFractionDigits: 2 });
@@ -0,0 +1,95 @@
+import { Position, positionKey } from '@/lib/position';
+
+export type ChangeType = 'opened' | 'closed' | 'increased' | 'decreased' | 'price';
+
+export interface PositionChange {
+  type: ChangeType;
+  key: string;
+  position: Position;          // Latest state (the old one for closed positions)
+  previous: Position | null;   // State before the change (null for opened positions)
+  sharesDelta: number | null;
+  valueDelta: number | null;
+  priceDelta: number | null;
+}
+
+export interface SnapshotDiff {
+  opened: PositionChange[];
+  closed: PositionChange[];
+  increased: PositionChange[];
+  decreased: PositionChange[];
+  priceMoved: PositionChange[];
+}
+
+export interface DiffOptions {
+  minSharesChange?: number;  // Ignore size changes smaller than this many shares
+  minPriceChange?: number;   // Ignore price moves smaller than this (probability, 0.01 = 1¢)
+}
+
+const delta = (after: number | null, before: number | null) =>
+  after !== null && before !== null ? Math.round((after - before) * 10000) / 10000 : null;
+
+function makeChange(type: ChangeType, key: string, position: Position, previous: Position | null): PositionChange {
+  return {
+    type,
+    key,
+    position,
+    previous,
+    sharesDelta: previous ? delta(position.shares, previous.shares) : position.shares,
+    valueDelta: previous ? delta(position.currentValue, previous.currentValue) : position.currentValue,
+    priceDelta: previous ? delta(position.price, previous.price) : null,
+  };
+}
+
+// Compare two sets of positions: opened, closed, resized and repriced positions.
+// Positions are matched by (trader, market, outcome).
+export function diffPositions(before: Position[], after: Position[], options: DiffOptions = {}): SnapshotDiff {
+  const minSharesChange = options.minSharesChange ?? 0.01;
+  const minPriceChange = options.minPriceChange ?? 0.01;
+
+  const diff: SnapshotDiff = { opened: [], closed: [], increased: [], decreased: [], priceMoved: [] };
+  const beforeByKey = new Map<string, Position>(before.map((pos) => [positionKey(pos), pos]));
+  const afterKeys = new Set<string>();
+
+  for (const pos of after) {
+    const key = positionKey(pos);
+    afterKeys.add(key);
+    const previous = beforeByKey.get(key);
+
+    if (!previous) {
+      diff.opened.push(makeChange('opened', key, pos, null));
+      continue;
+    }
+
+    const change = (type: ChangeType) => makeChange(type, key, pos, previous);
+    const sharesDelta = delta(pos.shares, previous.shares);
+    if (sharesDelta !== null && sharesDelta >= minSharesChange) {
+      diff.increased.push(change('increased'));
+    } else if (sharesDelta !== null && sharesDelta <= -minSharesChange) {
+      diff.decreased.push(change('decreased'));
+    }
+
+    const priceDelta = delta(pos.price, previous.price);
+    if (priceDelta !== null && Math.abs(priceDelta) >= minPriceChange) {
+      diff.priceMoved.push(change('price'));
+    }
+  }
+
+  before.forEach((pos) => {
+    const key = positionKey(pos);
+    if (!afterKeys.has(key)) {
+      diff.closed.push({
+        ...makeChange('closed', key, pos, pos),
+        sharesDelta: pos.shares !== null ? -pos.shares : null,
+        valueDelta: pos.currentValue !== null ? -pos.currentValue : null,
+        priceDelta: null,
+      });
+    }
+  });
+
+  return diff;
+}
+
+// All changes of a diff as one list (size changes before price moves)
+export function flattenDiff(diff: SnapshotDiff): PositionChange[] {
+  return [...diff.opened, ...diff.closed, ...diff.increased, ...diff.decreased, ...diff.priceMoved];
+}
@@ -0,0 +1,163 @@
+import { Database } from 'sql.js';
+import { getDb, lastInsertId, queryAll, queryOne, saveDb } from '@/lib/db';
+import { envInt } from '@/lib/env';
+import { Position } from '@/lib/position';
+
+export interface SnapshotSummary {
+  id: number;
+  trader: string;
+  profileUrl: string;
+  source: string;
+  scrapedAt: string;
+  count: number;
+}
+
+export interface Snapshot extends SnapshotSummary {
+  positions: Position[];
+}
+
+interface SnapshotRow {
+  id: number;
+  trader: string;
+  profile_url: string;
+  source: string;
+  scraped_at: string;
+  position_count: number;
+  positions?: string;
+}
+
+const SUMMARY_COLUMNS = 'id, trader, profile_url, source, scraped_at, position_count';
+
+// Retention: snapshots kept per trader and source, and max age in days (0: no limit)
+const MAX_SNAPSHOTS = envInt('HISTORY_MAX_SNAPSHOTS', 500, 0);
+const MAX_AGE_DAYS = envInt('HISTORY_MAX_DAYS', 0, 0);
+
+function toSummary(row: SnapshotRow): SnapshotSummary {
+  return {
+    id: row.id,
+    trader: row.trader,
+    profileUrl: row.profile_url,
+    source: row.source,
+    scrapedAt: row.scraped_at,
+    count: row.position_count,
+  };
+}
+
+function toSnapshot(row: SnapshotRow): Snapshot {
+  return { ...toSummary(row), positions: JSON.parse(row.positions || '[]') };
+}
+
+// Drop the positions payload from a snapshot
+export function summarizeSnapshot({ positions, ...summary }: Snapshot): SnapshotSummary {
+  return summary;
+}
+
+// Delete snapshots beyond the retention limits
+function pruneSnapshots(db: Database, trader: string, source: string) {
+  if (MAX_SNAPSHOTS > 0) {
+    db.run(
+      `DELETE FROM snapshots WHERE trader = ? AND source = ? AND id NOT IN (
+         SELECT id FROM snapshots WHERE trader = ? AND source = ? ORDER BY scraped_at DESC, id DESC LIMIT ?
+       )`,
+      [trader, source, trader, source, MAX_SNAPSHOTS]
+    );
+  }
+  if (MAX_AGE_DAYS > 0) {
+    const cutoff = new Date(Date.now() - MAX_AGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    db.run('DELETE FROM snapshots WHERE scraped_at < ?', [cutoff]);
+  }
+}
+
+// Store the result of one scrape as a timestamped snapshot for the trader.
+// Market metadata is not stored: it describes the market, not the position.
+// Only the watcher's latest positions (/api/watcher/latest) get it looked up
+// again; other history reads return positions without it.
+export async function recordSnapshot(
+  trader: string,
+  profileUrl: string,
+  source: string,
+  positions: Position[]
+): Promise<SnapshotSummary> {
+  const db = await getDb();
+  const scrapedAt = new Date().toISOString();
+  const stored = positions.map(({ market, ...position }) => position);
+
+  db.run(
+    `INSERT INTO snapshots (trader, profile_url, source, scraped_at, position_count, positions)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [trader, profileUrl, source, scrapedAt, positions.length, JSON.stringify(stored)]
+  );
+  const id = lastInsertId(db);
+  pruneSnapshots(db, trader, source);
+  await saveDb(db);
+
+  return { id, trader, profileUrl, source, scrapedAt, count: positions.length };
+}
+
+// Most recent snapshots first, optionally for one trader
+export async function listSnapshots(trader?: string, limit = 50): Promise<SnapshotSummary[]> {
+  const db = await getDb();
+  const rows = trader
+    ? queryAll<SnapshotRow>(
+        db,
+        `SELECT ${SUMMARY_COLUMNS} FROM snapshots WHERE trader = ? ORDER BY scraped_at DESC, id DESC LIMIT ?`,
+        [trader, limit]
+      )
+    : queryAll<SnapshotRow>(
+        db,
+        `SELECT ${SUMMARY_COLUMNS} FROM snapshots ORDER BY scraped_at DESC, id DESC LIMIT ?`,
+        [limit]
+      );
+  return rows.map(toSummary);
+}
+
+// Most recent snapshots of a trader including positions, newest first
+export async function listTraderSnapshots(trader: string, limit = 50): Promise<Snapshot[]> {
+  const db = await getDb();
+  const rows = queryAll<SnapshotRow>(
+    db,
+    'SELECT * FROM snapshots WHERE trader = ? ORDER BY scraped_at DESC, id DESC LIMIT ?',
+    [trader, limit]
+  );
+  return rows.map(toSnapshot);
+}
+
+export async function getSnapshot(id: number): Promise<Snapshot | null> {
+  const db = await getDb();
+  const row = queryOne<SnapshotRow>(db, 'SELECT * FROM snapshots WHERE id = ?', [id]);
+  return row ? toSnapshot(row) : null;
+}
+
+// The snapshot taken right before the given one for the same trader and
+// source (sources may see different positions, so they aren't compared)
+export async function getPreviousSnapshot(snapshot: SnapshotSummary): Promise<Snapshot | null> {
+  const db = await getDb();
+  const row = queryOne<SnapshotRow>(
+    db,
+    `SELECT * FROM snapshots WHERE trader = ? AND source = ? AND (scraped_at < ? OR (scraped_at = ? AND id < ?))
+     ORDER BY scraped_at DESC, id DESC LIMIT 1`,
+    [snapshot.trader, snapshot.source, snapshot.scrapedAt, snapshot.scrapedAt, snapshot.id]
+  );
+  return row ? toSnapshot(row) : null;
+}
+
+export async function getLatestSnapshot(trader: string): Promise<Snapshot | null> {
+  const db = await getDb();
+  const row = queryOne<SnapshotRow>(
+    db,
+    'SELECT * FROM snapshots WHERE trader = ? ORDER BY scraped_at DESC, id DESC LIMIT 1',
+    [trader]
+  );
+  return row ? toSnapshot(row) : null;
+}
+
+// Latest snapshot recorded for a profile URL (e.g. by the background watcher)
+export async function getLatestSnapshotForProfile(profileUrl: string): Promise<Snapshot | null> {
+  const db = await getDb();
+  const row = queryOne<SnapshotRow>(
+    db,
+    'SELECT * FROM snapshots WHERE profile_url = ? ORDER BY scraped_at DESC, id DESC LIMIT 1',
+    [profileUrl]
+  );
+  return row ? toSnapshot(row) : null;
+}
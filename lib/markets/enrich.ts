@@ -0,0 +1,128 @@
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { envInt } from '@/lib/env';
+import { normalizeMarketUrl, Position } from '@/lib/position';
+import { fetchMarketInfo, parseMarketUrl } from './gamma';
+import { MarketInfo, PositionMarket } from './types';
+
+const FETCH_CONCURRENCY = 4;
+
+interface CacheEntry {
+  info: MarketInfo | null;   // null: market not found (cached too, so it isn't refetched every scrape)
+  expiresAt: number;
+}
+
+// Per-market cache of gamma metadata. Markets shared by several positions
+// (or traders, or concurrent scrapes) are fetched once per TTL.
+export class MarketCache {
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<MarketInfo | null>>();
+
+  constructor(private ttlMs: number) {}
+
+  async get(marketUrl: string, marketName: string): Promise<MarketInfo | null> {
+    const key = cacheKey(marketUrl, marketName);
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.info;
+    }
+
+    let request = this.pending.get(key);
+    if (!request) {
+      request = fetchMarketInfo(marketUrl, marketName)
+        .then((info) => {
+          this.prune();
+          this.entries.set(key, { info, expiresAt: Date.now() + this.ttlMs });
+          return info;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+    return request;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  // Drop expired entries so markets that are no longer held don't pile up
+  private prune() {
+    const now = Date.now();
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    });
+  }
+}
+
+// Event URLs are resolved by market name, so the name is part of their key
+function cacheKey(marketUrl: string, marketName: string): string {
+  const url = normalizeMarketUrl(marketUrl);
+  return parseMarketUrl(marketUrl).marketSlug ? url : `${url}|${marketName.trim().toLowerCase()}`;
+}
+
+const round = (num: number) => Math.round(num * 10000) / 10000;
+
+// Market details for a position, with bid/ask flipped for the second outcome
+// of a binary market (its book mirrors the first outcome's)
+export function toPositionMarket(info: MarketInfo, side: string): PositionMarket {
+  const index = info.outcomes.findIndex((outcome) => outcome.toLowerCase() === side.trim().toLowerCase());
+  let bestBid: number | null = null;
+  let bestAsk: number | null = null;
+
+  if (index === 0) {
+    bestBid = info.bestBid;
+    bestAsk = info.bestAsk;
+  } else if (index === 1 && info.outcomes.length === 2) {
+    bestBid = info.bestAsk !== null ? round(1 - info.bestAsk) : null;
+    bestAsk = info.bestBid !== null ? round(1 - info.bestBid) : null;
+  }
+
+  return {
+    eventTitle: info.eventTitle,
+    question: info.question,
+    category: info.category,
+    endDate: info.endDate,
+    volume: info.volume,
+    liquidity: info.liquidity,
+    bestBid,
+    bestAsk,
+    closed: info.closed,
+    resolved: info.resolved,
+  };
+}
+
+// Attach market metadata to positions. Markets that fail to load are logged
+// and their positions returned unchanged.
+export async function enrichPositions(positions: Position[]): Promise<Position[]> {
+  const cache = getMarketCache();
+  const markets = new Map<string, Position>();
+  positions.forEach((pos) => markets.set(cacheKey(pos.marketUrl, pos.marketName), pos));
+
+  const keys = Array.from(markets.keys());
+  const results = await mapWithConcurrency(keys, FETCH_CONCURRENCY, (key) => {
+    const pos = markets.get(key)!;
+    return cache.get(pos.marketUrl, pos.marketName);
+  });
+
+  const infos = new Map<string, MarketInfo | null>();
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      infos.set(keys[index], result.value);
+    } else {
+      console.warn(`Market lookup failed for ${markets.get(keys[index])!.marketUrl}:`, result.reason?.message);
+    }
+  });
+
+  return positions.map((pos) => {
+    const info = infos.get(cacheKey(pos.marketUrl, pos.marketName));
+    return info ? { ...pos, market: toPositionMarket(info, pos.side) } : pos;
+  });
+}
+
+const globalForMarkets = globalThis as unknown as { marketCache?: MarketCache };
+
+export function getMarketCache(): MarketCache {
+  if (!globalForMarkets.marketCache) {
+    globalForMarkets.marketCache = new MarketCache(envInt('MARKET_CACHE_TTL', 300) * 1000);
+  }
+  return globalForMarkets.marketCache;
+}
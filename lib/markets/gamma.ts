@@ -0,0 +1,111 @@
+import { GAMMA_API_URL, fetchJson } from '@/lib/polymarket-api';
+import { MarketInfo } from './types';
+
+// Market record returned by the gamma /markets and /events endpoints.
+// Several numeric fields come as strings, and outcome lists as JSON strings.
+interface GammaMarket {
+  question?: string;
+  slug: string;
+  groupItemTitle?: string;
+  category?: string | null;
+  endDate?: string | null;
+  volume?: string | number | null;
+  volumeNum?: number | null;
+  liquidity?: string | number | null;
+  liquidityNum?: number | null;
+  outcomes?: string | string[] | null;
+  outcomePrices?: string | string[] | null;
+  bestBid?: number | null;
+  bestAsk?: number | null;
+  closed?: boolean;
+  umaResolutionStatus?: string | null;
+  events?: GammaEvent[];
+}
+
+interface GammaEvent {
+  slug: string;
+  title?: string;
+  category?: string | null;
+  markets?: GammaMarket[];
+}
+
+const toNumber = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const parseList = (value: string | string[] | null | undefined): string[] => {
+  if (Array.isArray(value)) return value;
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+function toMarketInfo(market: GammaMarket, event?: GammaEvent): MarketInfo {
+  const parent = event || market.events?.[0];
+  const prices = parseList(market.outcomePrices).map((price) => toNumber(price));
+  const settled = prices.length > 0 && prices.every((price) => price === 0 || price === 1);
+  const endDate = market.endDate ? new Date(market.endDate) : null;
+
+  return {
+    slug: market.slug,
+    eventSlug: parent?.slug ?? null,
+    eventTitle: parent?.title ?? null,
+    question: market.question || market.groupItemTitle || '',
+    category: market.category || parent?.category || null,
+    endDate: endDate && !isNaN(endDate.getTime()) ? endDate.toISOString() : null,
+    volume: toNumber(market.volumeNum ?? market.volume),
+    liquidity: toNumber(market.liquidityNum ?? market.liquidity),
+    outcomes: parseList(market.outcomes),
+    bestBid: toNumber(market.bestBid),
+    bestAsk: toNumber(market.bestAsk),
+    closed: !!market.closed,
+    resolved: !!market.closed && (market.umaResolutionStatus === 'resolved' || settled),
+  };
+}
+
+// Event and market slugs of a market URL:
+// /event/<event>/<market>, /event/<slug> or /market/<slug>
+export function parseMarketUrl(marketUrl: string): { eventSlug: string | null; marketSlug: string | null } {
+  let path: string;
+  try {
+    path = new URL(marketUrl, 'https://polymarket.com').pathname;
+  } catch {
+    return { eventSlug: null, marketSlug: null };
+  }
+
+  const parts = path.split('/').filter(Boolean).map(decodeURIComponent);
+  if (parts[0] === 'event') return { eventSlug: parts[1] || null, marketSlug: parts[2] || null };
+  if (parts[0] === 'market') return { eventSlug: null, marketSlug: parts[1] || null };
+  return { eventSlug: null, marketSlug: null };
+}
+
+// Look a market up by the slugs in its URL. Event URLs without a market slug
+// are resolved to the event's only market, or the one titled marketName.
+export async function fetchMarketInfo(marketUrl: string, marketName: string): Promise<MarketInfo | null> {
+  const { eventSlug, marketSlug } = parseMarketUrl(marketUrl);
+  const slug = marketSlug || eventSlug;
+  if (!slug) return null;
+
+  const markets = await fetchJson<GammaMarket[]>(`${GAMMA_API_URL}/markets?slug=${encodeURIComponent(slug)}`);
+  if (markets.length > 0) {
+    return toMarketInfo(markets[0]);
+  }
+  if (!eventSlug || marketSlug) return null;
+
+  const events = await fetchJson<GammaEvent[]>(`${GAMMA_API_URL}/events?slug=${encodeURIComponent(eventSlug)}`);
+  const event = events[0];
+  const eventMarkets = event?.markets || [];
+  const wanted = marketName.trim().toLowerCase();
+  const market = eventMarkets.length === 1
+    ? eventMarkets[0]
+    : eventMarkets.find(
+      (m) => m.question?.trim().toLowerCase() === wanted || m.groupItemTitle?.trim().toLowerCase() === wanted
+    );
+
+  return market ? toMarketInfo(market, event) : null;
+}
@@ -0,0 +1,30 @@
+// Market metadata from the gamma API, cached per market
+export interface MarketInfo {
+  slug: string;
+  eventSlug: string | null;
+  eventTitle: string | null;
+  question: string;
+  category: string | null;
+  endDate: string | null;      // ISO time the market is scheduled to resolve
+  volume: number | null;       // USD, all time
+  liquidity: number | null;    // USD
+  outcomes: string[];          // e.g. ["Yes", "No"]
+  bestBid: number | null;      // Best bid/ask of the first outcome (0–1)
+  bestAsk: number | null;
+  closed: boolean;
+  resolved: boolean;
+}
+
+// Market details attached to a position. Bid/ask are for the outcome held.
+export interface PositionMarket {
+  eventTitle: string | null;
+  question: string;
+  category: string | null;
+  endDate: string | null;
+  volume: number | null;
+  liquidity: number | null;
+  bestBid: number | null;
+  bestAsk: number | null;
+  closed: boolean;
+  resolved: boolean;
+}
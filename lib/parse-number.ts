@@ -0,0 +1,88 @@
+// Parsing of numbers as Polymarket shows them in any browser locale:
+// "3 799,4", "3,799.4", "1.234,5", "1'234.5", "$1.2M", "-$310.50", "($310.50)", "61¢".
+// Used for scraped text on the server and for user input in the UI.
+
+export type DecimalSeparator = '.' | ',';
+
+export interface ParseNumberOptions {
+  // Decimal separator to assume where the text alone is ambiguous ("1,234" / "1.234");
+  // without it "1,234" is read as grouping and "1.234" as a decimal
+  decimal?: DecimalSeparator;
+}
+
+const SUFFIXES: { [suffix: string]: number } = { k: 1e3, m: 1e6, b: 1e9 };
+
+// Decimal separator of a locale, e.g. ',' for 'de-DE' (the runtime's locale by default)
+export function decimalSeparator(locale?: string): DecimalSeparator {
+  const part = new Intl.NumberFormat(locale).formatToParts(1.5).find((p) => p.type === 'decimal');
+  return part?.value === ',' ? ',' : '.';
+}
+
+// Turn the digits and separators of a number into a JS number string
+function normalizeSeparators(digits: string, decimal?: DecimalSeparator): string {
+  // One separator followed by three digits: either a decimal or grouping
+  const single = digits.match(/^\d{1,3}([.,])\d{3}$/);
+  if (single && decimal) {
+    return single[1] === decimal ? digits.replace(',', '.') : digits.replace(/[.,]/, '');
+  }
+
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Both present: the last one is the decimal separator
+    return lastComma > lastDot
+      ? digits.replace(/\./g, '').replace(',', '.')
+      : digits.replace(/,/g, '');
+  }
+  if (lastComma >= 0) {
+    // Only commas: "1,234,567" is grouping, "3799,4" is a decimal comma
+    return /^\d{1,3}(,\d{3})+$/.test(digits) ? digits.replace(/,/g, '') : digits.replace(',', '.');
+  }
+  if ((digits.match(/\./g) || []).length > 1) {
+    // Several dots can only be grouping: "1.234.567"
+    return digits.replace(/\./g, '');
+  }
+  return digits;
+}
+
+// Parse a number that may have a sign ("-", "−" or parentheses), a currency
+// symbol, thousands separators (spaces incl. non-breaking and thin spaces,
+// apostrophes, commas or dots), either decimal separator and a K/M/B suffix
+export function parseNumber(str: string, { decimal }: ParseNumberOptions = {}): number | null {
+  if (!str) return null;
+
+  // \s also covers non-breaking (U+00A0), thin (U+2009) and narrow no-break (U+202F) spaces
+  const text = str.replace(/[\s'’]/g, '');
+  // A leading separator is a bare decimal (".5", "$,61") unless it ends a word ("Avg.5")
+  const digits = text.match(/(?:(?<![a-z])[.,])?\d[\d.,]*/i);
+  if (!digits || digits.index === undefined) return null;
+
+  const num = parseFloat(normalizeSeparators(digits[0].replace(/[.,]$/, ''), decimal));
+  if (!Number.isFinite(num)) return null;
+
+  const negative = /^\(.*\)$/.test(text) || /[-−–]/.test(text.slice(0, digits.index));
+  const suffix = text.slice(digits.index + digits[0].length).match(/^([kmb])(?![a-z])/i);
+  const result = num * (suffix ? SUFFIXES[suffix[1].toLowerCase()] : 1);
+  return negative ? -result : result;
+}
+
+// Parse a price into a probability (0–1): "61¢" -> 0.61, "61c" -> 0.61, "$0.61" -> 0.61.
+// Prices never exceed $1, so a bare number above 1 ("61") is taken as cents.
+export function parsePrice(str: string, options?: ParseNumberOptions): number | null {
+  const num = parseNumber(str, options);
+  if (num === null) return null;
+
+  const cents = /¢|\d\s*c(ents?)?\b/i.test(str) || (!str.includes('$') && Math.abs(num) > 1);
+  return cents ? num / 100 : num;
+}
+
+// Parse a dollar amount, possibly abbreviated: "$1,234.50" -> 1234.5, "$1.2M" -> 1200000
+export function parseUsd(str: string, options?: ParseNumberOptions): number | null {
+  return parseNumber(str, options);
+}
+
+// Parse a share count: "3 799,4" -> 3799.4, "1.2K" -> 1200
+export function parseShares(str: string, options?: ParseNumberOptions): number | null {
+  return parseNumber(str, options);
+}
@@ -0,0 +1,31 @@
+import { ScrapeError } from '@/lib/errors';
+
+// Base URLs of Polymarket's public JSON endpoints.
+// Overridable so a local stand-in server can be used instead.
+export const DATA_API_URL = process.env.POLYMARKET_DATA_API_URL || 'https://data-api.polymarket.com';
+export const GAMMA_API_URL = process.env.POLYMARKET_GAMMA_API_URL || 'https://gamma-api.polymarket.com';
+export const LEADERBOARD_API_URL = process.env.POLYMARKET_LEADERBOARD_API_URL || 'https://lb-api.polymarket.com';
+
+const REQUEST_TIMEOUT = 30000; // 30 seconds
+
+// Fetch and parse a JSON endpoint, throwing on non-2xx responses
+export async function fetchJson<T>(url: string): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json' },
+      signal: controller.signal,
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw new ScrapeError('UPSTREAM_ERROR', `Request to ${new URL(url).pathname} failed with status ${response.status}`);
+    }
+
+    return (await response.json()) as T;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,109 @@
+import type { PositionMarket } from '@/lib/markets/types';
+import { parsePrice, parseShares, parseUsd } from '@/lib/parse-number';
+
+// Fields of a row the DOM extractor locates with fallback strategies
+export type ExtractedField = 'marketName' | 'outcome' | 'currentPrice' | 'value';
+
+// Which extractor strategy produced a value and how far it can be trusted (0–1)
+export interface FieldSource {
+  strategy: string;
+  confidence: number;
+}
+
+export interface ExtractionInfo {
+  profile: string;                               // Selector profile version that matched
+  container: FieldSource;                        // How the row element was found
+  fields: Record<ExtractedField, FieldSource>;
+  confidence: number;                            // Lowest of the container and field scores
+}
+
+// Extra per-row output of the extractor in debug mode
+export interface ExtractionDebug {
+  containerHtml: string;   // Matched row element (truncated)
+  trace: string[];         // Strategies tried, in order
+}
+
+// Position data as displayed on the Polymarket profile page (raw strings)
+export interface RawPosition {
+  trader: string;
+  marketName: string;
+  marketUrl: string;
+  outcome: string;       // Full outcome text, e.g. "Yes 3 799,4 shares at 61¢"
+  currentPrice: string;  // Current price, e.g. "61¢"
+  value: string;         // Current value, e.g. "$1,234"
+  extraction?: ExtractionInfo;   // Set by the DOM extractor
+  debug?: ExtractionDebug;       // Only in debug mode; not stored
+}
+
+// Normalized position: raw strings plus parsed numeric fields.
+// Numeric fields are null when the source text could not be parsed.
+export interface Position extends RawPosition {
+  side: string;                  // Outcome side held (e.g. "Yes", "No", "Up")
+  shares: number | null;         // Number of shares held
+  avgPrice: number | null;       // Average entry price as probability (0–1)
+  price: number | null;          // Current price as probability (0–1)
+  currentValue: number | null;   // Current value in USD
+  costBasis: number | null;      // shares * avgPrice in USD
+  unrealizedPnl: number | null;  // currentValue - costBasis in USD
+  market?: PositionMarket;       // Gamma market metadata, when it could be loaded
+}
+
+const SHARES_PATTERN = /([\d\s,.'’]*\d\s?[kmb]?)\s*shares?(?:\s+at\s+([\d\s,.]*\d)\s*¢)?/i;
+
+// Extract side, share count and average price from the outcome text
+export function parseOutcome(outcome: string): { side: string; shares: number | null; avgPrice: number | null } {
+  const text = (outcome || '').trim();
+  const match = text.match(SHARES_PATTERN);
+
+  if (!match || match.index === undefined) {
+    return { side: text.length < 50 ? text : '', shares: null, avgPrice: null };
+  }
+
+  return {
+    side: text.substring(0, match.index).trim(),
+    shares: parseShares(match[1]),
+    avgPrice: match[2] ? parsePrice(`${match[2]}¢`) : null,
+  };
+}
+
+const round = (num: number, digits = 2) => {
+  const factor = Math.pow(10, digits);
+  return Math.round(num * factor) / factor;
+};
+
+// Build a normalized Position from the raw scraped strings
+export function normalizePosition(raw: RawPosition): Position {
+  const { side, shares, avgPrice } = parseOutcome(raw.outcome);
+  const price = parsePrice(raw.currentPrice);
+
+  let currentValue = parseUsd(raw.value);
+  if (currentValue === null && shares !== null && price !== null) {
+    currentValue = round(shares * price);
+  }
+
+  const costBasis = shares !== null && avgPrice !== null ? round(shares * avgPrice) : null;
+  const unrealizedPnl = currentValue !== null && costBasis !== null ? round(currentValue - costBasis) : null;
+
+  return {
+    ...raw,
+    side,
+    shares,
+    avgPrice,
+    price,
+    currentValue,
+    costBasis,
+    unrealizedPnl,
+  };
+}
+
+// Normalize a market URL for comparison (drop query/hash, trailing slash, case)
+export function normalizeMarketUrl(url: string): string {
+  return url.split('?')[0].split('#')[0].toLowerCase().replace(/\/$/, '');
+}
+
+// Identity of a position: the same trader can hold both sides of a market,
+// and several traders can hold the same market
+export function positionKey(position: Pick<Position, 'trader' | 'marketUrl' | 'side' | 'outcome'>): string {
+  const side = (position.side || position.outcome || '').trim().toLowerCase();
+  return `${position.trader.toLowerCase()}|${normalizeMarketUrl(position.marketUrl)}|${side}`;
+}
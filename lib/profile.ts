@@ -0,0 +1,62 @@
+import { parseNumber, parseUsd } from '@/lib/parse-number';
+
+// Profile header data of a trader
+export interface TraderProfile {
+  trader: string;                  // Username from the URL, else the wallet
+  profileUrl: string;
+  displayName: string | null;
+  walletAddress: string | null;
+  portfolioValue: number | null;   // USD value of open positions
+  totalPnl: number | null;         // USD, all time
+  volume: number | null;           // USD traded, all time
+  marketsTraded: number | null;
+  joinedAt: string | null;         // ISO date
+}
+
+// Profile header as displayed on the page: labelled stat texts, e.g.
+// { "Positions value": "$12.4k", "Profit/loss": "-$310.50" }
+export interface RawProfile {
+  displayName: string;
+  walletAddress: string;
+  stats: { [label: string]: string };
+  joinedText: string;              // e.g. "Joined Mar 2024"
+}
+
+const STAT_LABELS: { field: 'portfolioValue' | 'totalPnl' | 'volume' | 'marketsTraded'; pattern: RegExp }[] = [
+  { field: 'portfolioValue', pattern: /positions? value|portfolio/i },
+  { field: 'totalPnl', pattern: /profit|p\/?n?l/i },
+  { field: 'volume', pattern: /volume/i },
+  { field: 'marketsTraded', pattern: /markets? traded|predictions/i },
+];
+
+// "Joined Mar 2024" / "Joined March 12, 2024" -> ISO date
+export function parseJoinDate(text: string): string | null {
+  const match = (text || '').match(/([A-Z][a-z]{2,8})\.?\s+(?:(\d{1,2}),?\s+)?(\d{4})/);
+  if (!match) return null;
+
+  const date = new Date(`${match[1]} ${match[2] || 1}, ${match[3]} UTC`);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Build a TraderProfile from a scraped profile header
+export function normalizeProfile(raw: RawProfile, trader: string, profileUrl: string): TraderProfile {
+  const profile: TraderProfile = {
+    trader,
+    profileUrl,
+    displayName: raw.displayName || null,
+    walletAddress: raw.walletAddress ? raw.walletAddress.toLowerCase() : null,
+    portfolioValue: null,
+    totalPnl: null,
+    volume: null,
+    marketsTraded: null,
+    joinedAt: parseJoinDate(raw.joinedText),
+  };
+
+  for (const [label, value] of Object.entries(raw.stats)) {
+    const stat = STAT_LABELS.find(({ field, pattern }) => profile[field] === null && pattern.test(label));
+    if (!stat) continue;
+    profile[stat.field] = stat.field === 'marketsTraded' ? parseNumber(value) : parseUsd(value);
+  }
+
+  return profile;
+}
@@ -0,0 +1,122 @@
+import { envSeconds } from '@/lib/env';
+import { scrapeAndRecord, ScrapeResult } from '@/lib/scrape';
+import { ScrapeProgress, SourceId } from '@/lib/sources';
+import { normalizeProfileUrl } from '@/lib/trader';
+
+// How a request was answered: a cached result within its TTL, a stale one
+// (refreshed in the background), a new scrape, or a scrape forced with ?fresh=1
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'bypass';
+
+export interface CachedScrapeResult extends ScrapeResult {
+  scrapedAt: string;   // When the positions were scraped (ISO)
+  age: number;         // Seconds since scrapedAt
+  cache: CacheStatus;
+}
+
+export interface CacheGetOptions {
+  fresh?: boolean;                                  // Skip cached results
+  onProgress?: (progress: ScrapeProgress) => void;  // Progress of the scrape, when one runs
+}
+
+interface CacheEntry {
+  result: ScrapeResult;
+  scrapedAt: number;
+}
+
+interface PendingScrape {
+  promise: Promise<CacheEntry>;
+  listeners: Set<(progress: ScrapeProgress) => void>;
+}
+
+// Scrape results per profile and source. Concurrent requests for the same
+// profile share one scrape (and its progress events); results are served
+// for ttlMs, then stale for up to staleMs more while a new scrape runs.
+// Failed scrapes are not cached.
+export class ScrapeCache {
+  private entries = new Map<string, CacheEntry>();
+  private pending = new Map<string, PendingScrape>();
+
+  constructor(private ttlMs: number, private staleMs: number) {}
+
+  async get(profileUrl: string, source: SourceId, options: CacheGetOptions = {}): Promise<CachedScrapeResult> {
+    const key = `${source}|${normalizeProfileUrl(profileUrl)}`;
+    const cached = this.entries.get(key);
+
+    if (cached && !options.fresh) {
+      const age = Date.now() - cached.scrapedAt;
+      if (age < this.ttlMs) {
+        return toCachedResult(cached, 'hit');
+      }
+      if (age < this.ttlMs + this.staleMs) {
+        this.scrape(key, profileUrl, source).promise.catch((error) =>
+          console.warn(`Background refresh of ${profileUrl} failed:`, error.message)
+        );
+        return toCachedResult(cached, 'stale');
+      }
+    }
+
+    // A scrape already running for this profile is joined, even with fresh set
+    const pending = this.scrape(key, profileUrl, source);
+    const { onProgress } = options;
+    if (onProgress) pending.listeners.add(onProgress);
+    try {
+      return toCachedResult(await pending.promise, options.fresh ? 'bypass' : 'miss');
+    } finally {
+      if (onProgress) pending.listeners.delete(onProgress);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private scrape(key: string, profileUrl: string, source: SourceId): PendingScrape {
+    let pending = this.pending.get(key);
+    if (pending) return pending;
+
+    const listeners = new Set<(progress: ScrapeProgress) => void>();
+    const promise = scrapeAndRecord(profileUrl, source, {
+      onProgress: (progress) => listeners.forEach((listener) => listener(progress)),
+    })
+      .then((result) => {
+        const entry = { result, scrapedAt: Date.now() };
+        this.prune();
+        this.entries.set(key, entry);
+        return entry;
+      })
+      .finally(() => this.pending.delete(key));
+
+    pending = { promise, listeners };
+    this.pending.set(key, pending);
+    return pending;
+  }
+
+  // Drop entries too old to be served even as stale
+  private prune() {
+    const cutoff = Date.now() - this.ttlMs - this.staleMs;
+    this.entries.forEach((entry, key) => {
+      if (entry.scrapedAt < cutoff) this.entries.delete(key);
+    });
+  }
+}
+
+function toCachedResult({ result, scrapedAt }: CacheEntry, cache: CacheStatus): CachedScrapeResult {
+  return {
+    ...result,
+    scrapedAt: new Date(scrapedAt).toISOString(),
+    age: Math.round((Date.now() - scrapedAt) / 1000),
+    cache,
+  };
+}
+
+const globalForScrapeCache = globalThis as unknown as { scrapeCache?: ScrapeCache };
+
+export function getScrapeCache(): ScrapeCache {
+  if (!globalForScrapeCache.scrapeCache) {
+    globalForScrapeCache.scrapeCache = new ScrapeCache(
+      envSeconds('SCRAPE_CACHE_TTL', 60) * 1000,
+      envSeconds('SCRAPE_CACHE_STALE', 300) * 1000
+    );
+  }
+  return globalForScrapeCache.scrapeCache;
+}
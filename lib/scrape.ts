@@ -0,0 +1,95 @@
+import { runAlerts } from '@/lib/alerts/dispatch';
+import { AlertMatch } from '@/lib/alerts/types';
+import { collectWarnings, ScrapeErrorCode, ScrapeWarning, toScrapeError } from '@/lib/errors';
+import { getPreviousSnapshot, recordSnapshot } from '@/lib/history/store';
+import { enrichPositions } from '@/lib/markets/enrich';
+import { Position } from '@/lib/position';
+import { DEFAULT_SOURCE, FetchOptions, getPositionSource, isSourceId, LoadReport, SourceId } from '@/lib/sources';
+import { extractTraderName, extractWalletAddress, parseTraderInput, TraderIdentity } from '@/lib/trader';
+
+export interface ScrapeResult {
+  positions: Position[];
+  snapshotId?: number;
+  alerts: AlertMatch[];
+  warnings: ScrapeWarning[];   // Rows with fields that could not be parsed
+  loadReport: LoadReport | null;   // Whether the whole position list was loaded
+}
+
+// Fetch a profile's positions, attach market metadata, keep them as a snapshot
+// for history/diffs and evaluate alert rules against the previous snapshot. Used by the API route and
+// the background watcher. Failures are thrown as ScrapeErrors and not recorded;
+// an empty result means the source found the portfolio empty and is recorded
+// like any other, so diffs show the positions as closed.
+export async function scrapeAndRecord(
+  profileUrl: string,
+  source: SourceId,
+  options: FetchOptions = {}
+): Promise<ScrapeResult> {
+  let positions: Position[];
+  // Set from a callback, so TS must not narrow it to null
+  let loadReport = null as LoadReport | null;
+  try {
+    positions = await getPositionSource(source).fetchPositions(profileUrl, {
+      ...options,
+      onLoadReport: (report) => {
+        loadReport = report;
+        options.onLoadReport?.(report);
+      },
+    });
+  } catch (error) {
+    throw toScrapeError(error);
+  }
+
+  // Log results for debugging
+  console.log(`Scraped ${positions.length} positions from ${profileUrl}`);
+  if (loadReport && !loadReport.complete) {
+    console.log(`Position list of ${profileUrl} may be incomplete (${loadReport.stopReason})`);
+  }
+
+  positions = await enrichPositions(positions);
+
+  // A failure here must not fail the scrape
+  let snapshotId: number | undefined;
+  let alerts: AlertMatch[] = [];
+  try {
+    const trader = positions[0]?.trader || extractTraderName(profileUrl) || extractWalletAddress(profileUrl) || profileUrl;
+    const snapshot = await recordSnapshot(trader, profileUrl, source, positions);
+    snapshotId = snapshot.id;
+
+    const previous = await getPreviousSnapshot(snapshot);
+    if (previous) {
+      alerts = await runAlerts(previous.positions, positions);
+    }
+  } catch (historyError) {
+    console.error('Error recording snapshot or running alerts:', historyError);
+  }
+
+  return { positions, snapshotId, alerts, warnings: collectWarnings(positions), loadReport };
+}
+
+// Validate the profileUrl and source query parameters of a scrape request.
+// profileUrl (or its alias trader) may be any form parseTraderInput accepts;
+// resolve `trader` with getTraderResolver() before scraping.
+export function parseScrapeParams(
+  searchParams: URLSearchParams
+): { trader: TraderIdentity; source: SourceId } | { error: string; code: ScrapeErrorCode } {
+  const input = searchParams.get('profileUrl') ?? searchParams.get('trader');
+  if (!input) {
+    return { error: 'profileUrl parameter is required', code: 'INVALID_REQUEST' };
+  }
+
+  let trader: TraderIdentity;
+  try {
+    trader = parseTraderInput(input);
+  } catch (error: any) {
+    const { code, message } = toScrapeError(error);
+    return { error: message, code };
+  }
+
+  const source = searchParams.get('source') || DEFAULT_SOURCE;
+  if (!isSourceId(source)) {
+    return { error: `Unknown source: ${source}`, code: 'INVALID_REQUEST' };
+  }
+
+  return { trader, source };
+}
@@ -0,0 +1,262 @@
+import { ActivityType, ClosedPosition, Trade } from '@/lib/activity';
+import { ScrapeError } from '@/lib/errors';
+import { formatCents, formatShares, formatUsd } from '@/lib/format';
+import { Position } from '@/lib/position';
+import { DATA_API_URL, GAMMA_API_URL, LEADERBOARD_API_URL, fetchJson } from '@/lib/polymarket-api';
+import { TraderProfile } from '@/lib/profile';
+import { parseTraderInput } from '@/lib/trader';
+import { getTraderResolver } from '@/lib/trader-resolver';
+import { FetchOptions, PositionSource } from './types';
+
+// Position record returned by GET /positions on the data API
+interface DataApiPosition {
+  proxyWallet: string;
+  conditionId: string;
+  size: number;
+  avgPrice: number;
+  initialValue: number;
+  currentValue: number;
+  cashPnl: number;
+  curPrice: number;
+  title: string;
+  slug: string;
+  eventSlug: string;
+  outcome: string;
+}
+
+// Activity record returned by GET /activity
+interface DataApiActivity {
+  timestamp: number;          // Unix seconds
+  type: string;               // TRADE, REDEEM, SPLIT, MERGE, REWARD, ...
+  size: number;
+  usdcSize: number;
+  price: number;
+  side: string;               // BUY / SELL (trades only)
+  transactionHash: string;
+  title: string;
+  slug: string;
+  eventSlug: string;
+  outcome: string;
+}
+
+// Closed position record returned by GET /closed-positions
+interface DataApiClosedPosition {
+  avgPrice: number;
+  totalBought: number;
+  realizedPnl: number;
+  curPrice: number;
+  timestamp: number;
+  title: string;
+  slug: string;
+  eventSlug: string;
+  outcome: string;
+}
+
+interface GammaPublicProfile {
+  name?: string | null;
+  pseudonym?: string | null;
+  createdAt?: string | null;
+}
+
+// Leaderboard entry returned by /profit and /volume on the leaderboard API
+interface LeaderboardEntry {
+  proxyWallet: string;
+  amount: number;
+}
+
+const PAGE_SIZE = 500;
+const CLOSED_PAGE_SIZE = 50;  // Max page size of /closed-positions
+const MAX_PAGES = 20;
+
+// Wallet to query and trader name to report for a profile URL
+async function resolveProfile(profileUrl: string): Promise<{ wallet: string; trader: string }> {
+  const { username, wallet } = parseTraderInput(profileUrl);
+  if (wallet) {
+    return { wallet, trader: username || wallet };
+  }
+
+  const resolved = await getTraderResolver().walletOf(username!);
+  if (!resolved) {
+    throw new ScrapeError('PROFILE_NOT_FOUND', `Could not resolve a wallet address for @${username}`);
+  }
+  return { wallet: resolved, trader: username! };
+}
+
+function marketUrl(item: { slug: string; eventSlug: string }): string {
+  const marketPath = item.eventSlug && item.eventSlug !== item.slug
+    ? `${item.eventSlug}/${item.slug}`
+    : item.slug;
+  return `https://polymarket.com/event/${marketPath}`;
+}
+
+function toPosition(item: DataApiPosition, trader: string): Position {
+  return {
+    trader,
+    marketName: item.title || 'Unknown Market',
+    marketUrl: marketUrl(item),
+    outcome: `${item.outcome} ${formatShares(item.size)} shares at ${formatCents(item.avgPrice)}`,
+    currentPrice: formatCents(item.curPrice),
+    value: formatUsd(item.currentValue),
+    side: item.outcome,
+    shares: item.size,
+    avgPrice: item.avgPrice,
+    price: item.curPrice,
+    currentValue: item.currentValue,
+    costBasis: item.initialValue,
+    unrealizedPnl: item.cashPnl,
+  };
+}
+
+const ACTIVITY_TYPES: Record<string, ActivityType> = {
+  TRADE: 'trade',
+  REDEEM: 'redeem',
+  SPLIT: 'split',
+  MERGE: 'merge',
+  REWARD: 'reward',
+};
+
+function toTrade(item: DataApiActivity, trader: string): Trade {
+  const type = ACTIVITY_TYPES[item.type] || 'other';
+  return {
+    trader,
+    type,
+    action: type === 'trade' ? (item.side === 'SELL' ? 'sell' : 'buy') : null,
+    marketName: item.title || 'Unknown Market',
+    marketUrl: marketUrl(item),
+    side: item.outcome || '',
+    shares: item.size ?? null,
+    price: type === 'trade' ? item.price : null,
+    usdValue: item.usdcSize ?? null,
+    timestamp: item.timestamp ? new Date(item.timestamp * 1000).toISOString() : null,
+    transactionHash: item.transactionHash || null,
+  };
+}
+
+function toClosedPosition(item: DataApiClosedPosition, trader: string): ClosedPosition {
+  return {
+    trader,
+    marketName: item.title || 'Unknown Market',
+    marketUrl: marketUrl(item),
+    side: item.outcome || '',
+    shares: item.totalBought ?? null,
+    avgPrice: item.avgPrice ?? null,
+    exitPrice: item.curPrice ?? null,
+    realizedPnl: item.realizedPnl ?? null,
+    closedAt: item.timestamp ? new Date(item.timestamp * 1000).toISOString() : null,
+    resolved: item.curPrice === 0 || item.curPrice === 1,
+  };
+}
+
+// Reads positions from Polymarket's public data API
+async function fetchFromDataApi(profileUrl: string, { onProgress, onLoadReport }: FetchOptions = {}): Promise<Position[]> {
+  const { wallet, trader } = await resolveProfile(profileUrl);
+  const positions: Position[] = [];
+  let complete = false;
+  let pages = 0;
+
+  for (let pageIndex = 0; pageIndex < MAX_PAGES && !complete; pageIndex++) {
+    onProgress?.({ stage: 'fetching', page: pageIndex + 1 });
+    const url = `${DATA_API_URL}/positions?user=${wallet}&limit=${PAGE_SIZE}&offset=${pageIndex * PAGE_SIZE}&sizeThreshold=0`;
+    const items = await fetchJson<DataApiPosition[]>(url);
+
+    const batch = items.map((item) => toPosition(item, trader));
+    positions.push(...batch);
+    if (batch.length > 0) {
+      onProgress?.({ stage: 'positions', positions: batch, total: positions.length });
+    }
+
+    pages++;
+    complete = items.length < PAGE_SIZE;
+  }
+
+  onLoadReport?.({
+    complete,
+    stopReason: complete ? 'end' : 'max-pages',
+    steps: pages,
+    loadMoreClicks: 0,
+    virtualized: false,
+  });
+  return positions;
+}
+
+// Profile header data, assembled from several endpoints. Stats that fail to
+// load are left null rather than failing the whole profile.
+async function fetchProfile(profileUrl: string, { onProgress }: FetchOptions = {}): Promise<TraderProfile> {
+  const { wallet, trader } = await resolveProfile(profileUrl);
+  onProgress?.({ stage: 'fetching', page: 1 });
+
+  const leaderboard = (metric: 'profit' | 'volume') =>
+    fetchJson<LeaderboardEntry[]>(`${LEADERBOARD_API_URL}/${metric}?window=all&limit=1&address=${wallet}`)
+      .then((entries) => entries[0]?.amount ?? null);
+
+  const [profile, value, traded, pnl, volume] = await Promise.allSettled([
+    fetchJson<GammaPublicProfile>(`${GAMMA_API_URL}/public-profile?address=${wallet}`),
+    fetchJson<{ value: number }[]>(`${DATA_API_URL}/value?user=${wallet}`).then((items) => items[0]?.value ?? null),
+    fetchJson<{ traded: number }>(`${DATA_API_URL}/traded?user=${wallet}`).then((data) => data.traded ?? null),
+    leaderboard('profit'),
+    leaderboard('volume'),
+  ]);
+  const settled = <T>(result: PromiseSettledResult<T>) => (result.status === 'fulfilled' ? result.value : null);
+
+  const publicProfile = settled(profile);
+  const createdAt = publicProfile?.createdAt ? new Date(publicProfile.createdAt) : null;
+
+  return {
+    trader,
+    profileUrl,
+    displayName: publicProfile?.name || publicProfile?.pseudonym || null,
+    walletAddress: wallet,
+    portfolioValue: settled(value),
+    totalPnl: settled(pnl),
+    volume: settled(volume),
+    marketsTraded: settled(traded),
+    joinedAt: createdAt && !isNaN(createdAt.getTime()) ? createdAt.toISOString() : null,
+  };
+}
+
+// Trades, redemptions etc., newest first
+async function fetchActivity(profileUrl: string, { onProgress }: FetchOptions = {}): Promise<Trade[]> {
+  const { wallet, trader } = await resolveProfile(profileUrl);
+  const trades: Trade[] = [];
+
+  for (let pageIndex = 0; pageIndex < MAX_PAGES; pageIndex++) {
+    onProgress?.({ stage: 'fetching', page: pageIndex + 1 });
+    const url = `${DATA_API_URL}/activity?user=${wallet}&limit=${PAGE_SIZE}&offset=${pageIndex * PAGE_SIZE}`;
+    const items = await fetchJson<DataApiActivity[]>(url);
+
+    trades.push(...items.map((item) => toTrade(item, trader)));
+
+    if (items.length < PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return trades;
+}
+
+async function fetchClosedPositions(profileUrl: string, { onProgress }: FetchOptions = {}): Promise<ClosedPosition[]> {
+  const { wallet, trader } = await resolveProfile(profileUrl);
+  const positions: ClosedPosition[] = [];
+
+  for (let pageIndex = 0; pageIndex < MAX_PAGES; pageIndex++) {
+    onProgress?.({ stage: 'fetching', page: pageIndex + 1 });
+    const url = `${DATA_API_URL}/closed-positions?user=${wallet}&limit=${CLOSED_PAGE_SIZE}&offset=${pageIndex * CLOSED_PAGE_SIZE}`;
+    const items = await fetchJson<DataApiClosedPosition[]>(url);
+
+    positions.push(...items.map((item) => toClosedPosition(item, trader)));
+
+    if (items.length < CLOSED_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return positions;
+}
+
+export const dataApiSource: PositionSource = {
+  id: 'data-api',
+  fetchPositions: fetchFromDataApi,
+  fetchProfile,
+  fetchActivity,
+  fetchClosedPositions,
+};
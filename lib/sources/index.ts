@@ -0,0 +1,20 @@
+import { dataApiSource } from './data-api';
+import { puppeteerSource } from './puppeteer';
+import { PositionSource, SourceId } from './types';
+
+export type { FetchOptions, LoadReport, PositionSource, ScrapeDiagnostics, ScrapeProgress, SelectorAttempt, SourceId } from './types';
+
+export const DEFAULT_SOURCE: SourceId = 'puppeteer';
+
+const sources: Record<SourceId, PositionSource> = {
+  'puppeteer': puppeteerSource,
+  'data-api': dataApiSource,
+};
+
+export function isSourceId(value: string): value is SourceId {
+  return Object.prototype.hasOwnProperty.call(sources, value);
+}
+
+export function getPositionSource(id: SourceId = DEFAULT_SOURCE): PositionSource {
+  return sources[id];
+}
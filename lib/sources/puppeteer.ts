@@ -0,0 +1,420 @@
+import { HTTPResponse, Page } from 'puppeteer';
+import { normalizeActivity, RawActivity, Trade } from '@/lib/activity';
+import { getBrowserPool } from '@/lib/browser-pool';
+import { envInt } from '@/lib/env';
+import { ScrapeError } from '@/lib/errors';
+import { extractActivity } from '@/lib/extraction/extract-activity';
+import { extractPositions } from '@/lib/extraction/extract-positions';
+import { loadMorePattern, loadSelectorProfiles, marketLinkSelector, SelectorProfile } from '@/lib/extraction/selectors';
+import { extractProfile } from '@/lib/extraction/extract-profile';
+import { Position, RawPosition, normalizePosition, positionKey } from '@/lib/position';
+import { normalizeProfile, TraderProfile } from '@/lib/profile';
+import { extractTraderName, extractWalletAddress, withProfileTab } from '@/lib/trader';
+import { FetchOptions, LoadReport, PositionSource, ScrapeDiagnostics, SelectorAttempt } from './types';
+
+const SCROLL_DELAY = 800;    // Wait after each step for lazy-loaded content
+const STABLE_SCROLLS = 4;    // Stop after this many steps at the end of the list without new content
+const MAX_SCROLLS = envInt('SCROLL_MAX_STEPS', 500);
+const MAX_SCROLL_TIME = envInt('SCROLL_MAX_SECONDS', 180) * 1000;
+
+// Scrapes the rendered profile page on a pooled headless Chrome page
+async function scrapeProfile(profileUrl: string, options: FetchOptions = {}): Promise<Position[]> {
+  return getBrowserPool().withPage((page) => scrapeWithPage(page, profileUrl, options));
+}
+
+const countMarketLinks = (page: Page, linkSelector: string) =>
+  page.evaluate((selector) => document.querySelectorAll(selector).length, linkSelector);
+
+// Page text telling a missing profile or an empty portfolio, per any profile
+const matchesText = (text: string, profiles: SelectorProfile[], field: 'emptyStateText' | 'notFoundText') =>
+  profiles.some((profile) => new RegExp(profile[field], 'i').test(text));
+
+// Open a profile page and wait until market links show up. Resolves to the trader name.
+async function openProfile(page: Page, profileUrl: string, { onProgress }: FetchOptions): Promise<string> {
+  const profiles = await loadSelectorProfiles();
+
+  // Navigate to the page with retry logic
+  onProgress?.({ stage: 'navigating', url: profileUrl, attempt: 1 });
+  let response: HTTPResponse | null;
+  try {
+    response = await page.goto(profileUrl, {
+      waitUntil: 'domcontentloaded',
+      timeout: 120000,
+    });
+  } catch (navError) {
+    // Retry once the network is (almost) idle
+    onProgress?.({ stage: 'navigating', url: profileUrl, attempt: 2 });
+    try {
+      response = await page.goto(profileUrl, {
+        waitUntil: 'networkidle2',
+        timeout: 120000,
+      });
+    } catch {
+      // Last resort
+      onProgress?.({ stage: 'navigating', url: profileUrl, attempt: 3 });
+      response = await page.goto(profileUrl, { timeout: 120000 });
+      await new Promise(resolve => setTimeout(resolve, 5000));
+    }
+  }
+
+  // Wait for page to load
+  await new Promise(resolve => setTimeout(resolve, 3000));
+
+  // Check if page loaded correctly
+  const pageTitle = await page.title();
+  const pageUrl = page.url();
+  
+  // Verify we're on the right page
+  if (!pageUrl.includes('polymarket.com')) {
+    throw new ScrapeError('NOT_POLYMARKET', 'Invalid page: not a Polymarket URL');
+  }
+  if (response?.status() === 404 || matchesText(pageTitle, profiles, 'notFoundText')) {
+    throw new ScrapeError('PROFILE_NOT_FOUND', `Profile not found: ${profileUrl}`);
+  }
+
+  // Extract trader name from profile URL, falling back to the page URL, and
+  // to the wallet address for wallet-only profiles (/profile/0x...)
+  const traderName = extractTraderName(profileUrl) || extractTraderName(pageUrl)
+    || extractWalletAddress(profileUrl) || extractWalletAddress(pageUrl);
+
+  // Wait for market links to appear (with multiple attempts)
+  let linksFound = false;
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const linkCount = await countMarketLinks(page, marketLinkSelector(profiles));
+    onProgress?.({ stage: 'links-found', count: linkCount });
+
+    if (linkCount > 0) {
+      linksFound = true;
+      break;
+    }
+    
+    await new Promise(resolve => setTimeout(resolve, 2000));
+  }
+
+  if (!linksFound) {
+    // Try waiting for any table or position-related element
+    try {
+      await page.waitForSelector('table, tbody, [class*="position"]', {
+        timeout: 10000,
+      });
+    } catch {
+      // Continue anyway
+    }
+  }
+
+  return traderName;
+}
+
+// Result of one loading step in the page
+interface LoadStep {
+  height: number;       // Scroll height of the list's scroll container
+  linkCount: number;
+  atEnd: boolean;       // Scrolled to the bottom of the container
+  clicked: boolean;     // A "Load more" button was clicked instead of scrolling
+}
+
+// Load the whole list: click "Load more" buttons while there are any, otherwise
+// scroll the list's scroll container (an inner element for virtualized lists,
+// else the page) by most of its height. onStep runs after every step so rows
+// can be collected before a virtualized list unmounts them; it resolves to the
+// number of new rows. Stops at the end of the list or at the step/time limit.
+// A button that keeps loading nothing is ignored from then on.
+async function loadFullList(
+  page: Page,
+  linkSelector: string,
+  loadMoreText: string,   // Pattern of "Load more" button text
+  { onProgress }: FetchOptions,
+  onStep: () => Promise<number>
+): Promise<Omit<LoadReport, 'virtualized'>> {
+  const startedAt = Date.now();
+  let lastHeight = 0;
+  let stableCount = 0;
+  let loadMoreClicks = 0;
+  let idleClicks = 0;
+  let clickButtons = true;
+  let step = 0;
+  let stopReason: LoadReport['stopReason'] = 'end';
+
+  while (stableCount < STABLE_SCROLLS) {
+    if (step >= MAX_SCROLLS) {
+      stopReason = 'max-steps';
+      break;
+    }
+    if (Date.now() - startedAt > MAX_SCROLL_TIME) {
+      stopReason = 'time-limit';
+      break;
+    }
+    step++;
+
+    const result: LoadStep = await page.evaluate(async (selector, buttonPattern, useButtons, delay) => {
+      const root = document.scrollingElement || document.documentElement;
+
+      // The nearest scrollable ancestor of the market links, else the page
+      let scroller: Element = root;
+      let current = document.querySelector(selector)?.parentElement || null;
+      while (current && current !== document.body) {
+        const { overflowY } = getComputedStyle(current);
+        if ((overflowY === 'auto' || overflowY === 'scroll') && current.scrollHeight > current.clientHeight + 10) {
+          scroller = current;
+          break;
+        }
+        current = current.parentElement;
+      }
+
+      const buttonText = new RegExp(buttonPattern, 'i');
+      const button = useButtons && Array.from(document.querySelectorAll<HTMLElement>('button, [role="button"]')).find(
+        (el) => buttonText.test((el.textContent || '').trim()) && !(el as HTMLButtonElement).disabled && el.offsetParent !== null
+      );
+
+      if (button) {
+        button.scrollIntoView({ block: 'center' });
+        button.click();
+      } else {
+        const viewport = scroller === root ? window.innerHeight : scroller.clientHeight;
+        scroller.scrollTop += Math.max(viewport * 0.8, 300);
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+
+      return {
+        height: scroller.scrollHeight,
+        linkCount: document.querySelectorAll(selector).length,
+        atEnd: scroller.scrollTop + (scroller === root ? window.innerHeight : scroller.clientHeight) >= scroller.scrollHeight - 2,
+        clicked: !!button,
+      };
+    }, linkSelector, loadMoreText, clickButtons, SCROLL_DELAY);
+
+    const newRows = await onStep();
+    if (result.clicked) {
+      loadMoreClicks++;
+      idleClicks = newRows === 0 && result.height === lastHeight ? idleClicks + 1 : 0;
+      if (idleClicks >= STABLE_SCROLLS) {
+        console.log('"Load more" button loads nothing, scrolling instead');
+        clickButtons = false;
+      }
+    }
+
+    if (result.atEnd && !result.clicked && newRows === 0 && result.height === lastHeight) {
+      stableCount++;
+    } else {
+      stableCount = 0;
+    }
+    lastHeight = result.height;
+
+    onProgress?.({ stage: 'scrolling', step, maxSteps: MAX_SCROLLS, linksFound: result.linkCount });
+  }
+
+  // Back to the top, like a fresh page load
+  await page.evaluate(async () => {
+    window.scrollTo(0, 0);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  });
+
+  return { complete: stopReason === 'end', stopReason, steps: step, loadMoreClicks };
+}
+
+async function scrapeWithPage(page: Page, profileUrl: string, options: FetchOptions): Promise<Position[]> {
+  const { onProgress } = options;
+
+  // Positions already reported as partial batches
+  const reported = new Set<string>();
+  const reportNew = (positions: Position[]) => {
+    const fresh = positions.filter((pos) => !reported.has(positionKey(pos)));
+    fresh.forEach((pos) => reported.add(positionKey(pos)));
+    if (fresh.length > 0) {
+      onProgress?.({ stage: 'positions', positions: fresh, total: reported.size });
+    }
+  };
+
+  const profiles = await loadSelectorProfiles();
+  const linkSelector = marketLinkSelector(profiles);
+  const debug = !!options.onDiagnostics;
+
+  const traderName = await openProfile(page, profileUrl, options);
+
+  // Rows are collected after every loading step, since virtualized lists
+  // unmount rows scrolled out of view. Until a selector profile finds rows,
+  // the profiles are tried in order; the first that does is used from then on.
+  const collected = new Map<string, RawPosition>();
+  const attempts = new Map<string, number>();
+  let activeProfile: SelectorProfile | null = null;
+  let virtualized = false;
+
+  const collect = async (): Promise<number> => {
+    for (const profile of activeProfile ? [activeProfile] : profiles) {
+      const rows = await page.evaluate(extractPositions, traderName, profile, undefined, debug);
+      attempts.set(profile.version, Math.max(attempts.get(profile.version) || 0, rows.length));
+      if (rows.length === 0) continue;
+
+      if (!activeProfile) {
+        console.log(`Selector profile ${profile.version} matched`);
+        activeProfile = profile;
+      }
+
+      const onPage = new Set<string>();
+      const added: Position[] = [];
+      rows.forEach((raw) => {
+        const { debug: _debug, ...fields } = raw;
+        const position = normalizePosition(fields);
+        const key = positionKey(position);
+        onPage.add(key);
+        if (!collected.has(key)) added.push(position);
+        collected.set(key, raw);
+      });
+      if (!virtualized && Array.from(collected.keys()).some((key) => !onPage.has(key))) {
+        virtualized = true;
+        console.log('Rows are unmounted while scrolling (virtualized list)');
+      }
+
+      reportNew(added);
+      return added.length;
+    }
+    return 0;
+  };
+
+  await collect();
+  const loading = await loadFullList(page, linkSelector, loadMorePattern(profiles), options, collect);
+
+  // Log link count before the final extraction
+  const linkCountBefore = await countMarketLinks(page, linkSelector);
+  console.log(`Found ${linkCountBefore} market links before extraction`);
+
+  onProgress?.({ stage: 'extracting' });
+  await collect();
+
+  const report: LoadReport = { ...loading, virtualized };
+  console.log(
+    `Collected ${collected.size} positions in ${report.steps} steps (${report.complete ? 'complete' : `stopped: ${report.stopReason}`})`
+  );
+  options.onLoadReport?.(report);
+
+  const rawPositions = Array.from(collected.values());
+  if (options.onDiagnostics) {
+    const selectorAttempts = profiles
+      .filter((profile) => attempts.has(profile.version))
+      .map((profile) => ({ version: profile.version, positions: attempts.get(profile.version)! }));
+    options.onDiagnostics(await collectDiagnostics(page, linkCountBefore, selectorAttempts, rawPositions));
+  }
+
+  // Parse display strings into numeric fields (debug output isn't kept on positions)
+  const positions = rawPositions.map(({ debug: _debug, ...raw }) => normalizePosition(raw));
+
+  if (positions.length === 0) {
+    await checkEmptyPage(page, linkCountBefore, profiles);
+  }
+  return positions;
+}
+
+async function collectDiagnostics(
+  page: Page,
+  linkCount: number,
+  selectorProfiles: SelectorAttempt[],
+  rawPositions: RawPosition[]
+): Promise<ScrapeDiagnostics> {
+  let screenshot: string | null = null;
+  try {
+    screenshot = `data:image/jpeg;base64,${await page.screenshot({ type: 'jpeg', quality: 60, fullPage: true, encoding: 'base64' })}`;
+  } catch (error) {
+    console.warn('Could not take debug screenshot:', error);
+  }
+
+  return {
+    pageUrl: page.url(),
+    pageTitle: await page.title(),
+    linkCount,
+    selectorProfiles,
+    screenshot,
+    rows: rawPositions.map((raw) => ({
+      marketName: raw.marketName,
+      marketUrl: raw.marketUrl,
+      outcome: raw.outcome,
+      extraction: raw.extraction,
+      containerHtml: raw.debug?.containerHtml || '',
+      trace: raw.debug?.trace || [],
+    })),
+  };
+}
+
+// Nothing was extracted: find out whether the portfolio is really empty.
+// Returns only when the page shows its empty state, otherwise throws.
+async function checkEmptyPage(page: Page, linkCount: number, profiles: SelectorProfile[]): Promise<void> {
+  const text = await page.evaluate(() => document.body?.innerText || '');
+
+  if (matchesText(text, profiles, 'notFoundText')) {
+    throw new ScrapeError('PROFILE_NOT_FOUND', 'Profile not found');
+  }
+  if (matchesText(text, profiles, 'emptyStateText')) {
+    return;
+  }
+  if (linkCount > 0) {
+    throw new ScrapeError(
+      'EXTRACTION_FAILED',
+      `Found ${linkCount} market links but could not parse any positions; the page markup may have changed`
+    );
+  }
+  throw new ScrapeError('PAGE_NOT_LOADED', 'The page loaded without positions or an empty portfolio message');
+}
+
+// Scrapes the profile header (name, wallet, stats, join date)
+async function scrapeProfileSummary(profileUrl: string, options: FetchOptions = {}): Promise<TraderProfile> {
+  return getBrowserPool().withPage(async (page) => {
+    const traderName = await openProfile(page, profileUrl, options);
+
+    options.onProgress?.({ stage: 'extracting' });
+    const profile = normalizeProfile(await page.evaluate(extractProfile), traderName, profileUrl);
+    profile.walletAddress ??= extractWalletAddress(page.url()) || extractWalletAddress(profileUrl) || null;
+    if (!profile.trader) {
+      profile.trader = profile.walletAddress || profileUrl;
+    }
+    return profile;
+  });
+}
+
+// Scrapes the trades and redemptions listed on the profile's activity tab
+async function scrapeActivity(profileUrl: string, options: FetchOptions = {}): Promise<Trade[]> {
+  const activityUrl = withProfileTab(profileUrl, 'activity');
+
+  return getBrowserPool().withPage(async (page) => {
+    const profiles = await loadSelectorProfiles();
+    const traderName = await openProfile(page, activityUrl, options);
+
+    // Rows are collected after every loading step, like positions, in case
+    // the list unmounts them. Identical rows (e.g. two equal fills) are kept
+    // as often as they appear on the page at once.
+    const collected = new Map<string, { raw: RawActivity; count: number }>();
+    const collect = async (): Promise<number> => {
+      const onPage = new Map<string, { raw: RawActivity; count: number }>();
+      (await page.evaluate(extractActivity, traderName)).forEach((raw) => {
+        const key = `${raw.marketUrl}|${raw.text}`;
+        onPage.set(key, { raw, count: (onPage.get(key)?.count || 0) + 1 });
+      });
+
+      let added = 0;
+      onPage.forEach((row, key) => {
+        const known = collected.get(key)?.count || 0;
+        if (row.count > known) {
+          added += row.count - known;
+          collected.set(key, row);
+        }
+      });
+      return added;
+    };
+
+    await collect();
+    await loadFullList(page, marketLinkSelector(profiles), loadMorePattern(profiles), options, collect);
+
+    options.onProgress?.({ stage: 'extracting' });
+    await collect();
+
+    const now = new Date();
+    return Array.from(collected.values())
+      .flatMap(({ raw, count }) => Array.from({ length: count }, () => raw))
+      .map((raw) => normalizeActivity(raw, now));
+  });
+}
+
+export const puppeteerSource: PositionSource = {
+  id: 'puppeteer',
+  fetchPositions: scrapeProfile,
+  fetchProfile: scrapeProfileSummary,
+  fetchActivity: scrapeActivity,
+};
@@ -0,0 +1,61 @@
+import type { ClosedPosition, Trade } from '@/lib/activity';
+import { ExtractionDebug, ExtractionInfo, Position } from '@/lib/position';
+import type { TraderProfile } from '@/lib/profile';
+
+export type SourceId = 'puppeteer' | 'data-api';
+
+// Progress reported while a source loads a profile (streamed by /api/scrape/stream)
+export type ScrapeProgress =
+  | { stage: 'navigating'; url: string; attempt: number }
+  | { stage: 'links-found'; count: number }
+  | { stage: 'scrolling'; step: number; maxSteps: number; linksFound: number }
+  | { stage: 'fetching'; page: number }
+  | { stage: 'extracting' }
+  | { stage: 'positions'; positions: Position[]; total: number };  // Newly parsed positions
+
+// Positions found by one selector profile (profiles are tried in order)
+export interface SelectorAttempt {
+  version: string;
+  positions: number;
+}
+
+// Debug output of a scrape (/api/scrape?debug=1): what the page looked like
+// and how each row was extracted
+export interface ScrapeDiagnostics {
+  pageUrl: string;
+  pageTitle: string;
+  linkCount: number;            // Market links on the page before extraction
+  selectorProfiles: SelectorAttempt[];
+  screenshot: string | null;    // data: URL of a full-page JPEG
+  rows: (ExtractionDebug & {
+    marketName: string;
+    marketUrl: string;
+    outcome: string;
+    extraction?: ExtractionInfo;
+  })[];
+}
+
+// How much of the position list a source loaded
+export interface LoadReport {
+  complete: boolean;    // The end of the list was reached (false: cut off by stopReason)
+  stopReason: 'end' | 'max-steps' | 'time-limit' | 'max-pages';
+  steps: number;        // Scroll/"Load more" steps, or API pages fetched
+  loadMoreClicks: number;
+  virtualized: boolean; // Rows were unmounted while scrolling and collected as they appeared
+}
+
+export interface FetchOptions {
+  onProgress?: (progress: ScrapeProgress) => void;
+  onDiagnostics?: (diagnostics: ScrapeDiagnostics) => void;   // Set to scrape in debug mode
+  onLoadReport?: (report: LoadReport) => void;
+}
+
+// A backend that can load the current positions of a trader profile, and
+// optionally its profile summary, trade activity and closed positions
+export interface PositionSource {
+  id: SourceId;
+  fetchPositions(profileUrl: string, options?: FetchOptions): Promise<Position[]>;
+  fetchProfile?(profileUrl: string, options?: FetchOptions): Promise<TraderProfile>;
+  fetchActivity?(profileUrl: string, options?: FetchOptions): Promise<Trade[]>;
+  fetchClosedPositions?(profileUrl: string, options?: FetchOptions): Promise<ClosedPosition[]>;
+}
@@ -0,0 +1,55 @@
+// Server-Sent Events helpers shared by the streaming API routes and the page
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// Encode one event as an SSE message
+export function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function parseMessage(message: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of message.split('\n')) {
+    if (!line || line.startsWith(':')) continue; // Comment / keep-alive
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    if (field === 'data') data.push(value);
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
+
+// Read an SSE response body (fetch instead of EventSource, so requests can be
+// aborted with an AbortController) and call onEvent for every message
+export async function readEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done }).replace(/\r\n?/g, '\n');
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const message = parseMessage(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (message) onEvent(message);
+    }
+
+    if (done) break;
+  }
+
+  const last = parseMessage(buffer);
+  if (last) onEvent(last);
+}
@@ -0,0 +1,109 @@
+import { envSeconds } from '@/lib/env';
+import { GAMMA_API_URL, fetchJson } from '@/lib/polymarket-api';
+import { TraderIdentity, traderProfileUrl } from '@/lib/trader';
+
+// A trader with as much of its identity as could be looked up
+export interface ResolvedTrader extends TraderIdentity {
+  trader: string;       // Username, or the wallet when the trader has none
+  profileUrl: string;   // Canonical profile URL on the positions tab
+}
+
+interface GammaProfileSearch {
+  profiles?: { name?: string; pseudonym?: string; proxyWallet?: string }[] | null;
+}
+
+interface GammaPublicProfile {
+  name?: string | null;
+}
+
+interface LookupEntry {
+  value: string | null;
+  expiresAt: number;
+}
+
+// Username <-> proxy wallet lookups via the gamma API. Results (including
+// "no such trader") are cached for ttlMs and concurrent lookups of the same
+// key share one request; failed requests are not cached.
+export class TraderResolver {
+  private entries = new Map<string, LookupEntry>();
+  private pending = new Map<string, Promise<string | null>>();
+
+  constructor(private ttlMs: number) {}
+
+  // Proxy wallet of a username, or null if no profile has that name
+  walletOf(username: string): Promise<string | null> {
+    return this.lookup(`wallet|${username.toLowerCase()}`, async () => {
+      const url = `${GAMMA_API_URL}/public-search?q=${encodeURIComponent(username)}&search_profiles=true&limit_per_type=10`;
+      const data = await fetchJson<GammaProfileSearch>(url);
+      const wanted = username.toLowerCase();
+      const profile = (data.profiles || []).find(
+        (p) => p.name?.toLowerCase() === wanted || p.pseudonym?.toLowerCase() === wanted
+      );
+      return profile?.proxyWallet?.toLowerCase() || null;
+    });
+  }
+
+  // Username of a wallet, or null if the trader never picked one
+  usernameOf(wallet: string): Promise<string | null> {
+    return this.lookup(`username|${wallet.toLowerCase()}`, async () => {
+      const profile = await fetchJson<GammaPublicProfile | null>(`${GAMMA_API_URL}/public-profile?address=${wallet}`);
+      return profile?.name?.trim() || null;
+    });
+  }
+
+  // Fill in the missing half of a trader's identity. Best effort: a failed or
+  // empty lookup leaves the field null and the trader is scraped as given.
+  async resolve(identity: TraderIdentity): Promise<ResolvedTrader> {
+    let { username, wallet } = identity;
+    try {
+      if (username && !wallet) wallet = await this.walletOf(username);
+      // The profile's own spelling of the username, e.g. "FirstOrder" for "@firstorder"
+      if (wallet) username = (await this.usernameOf(wallet)) || username;
+    } catch (error: any) {
+      console.warn(`Could not resolve trader ${username || wallet}:`, error.message);
+    }
+
+    const resolved = { username, wallet };
+    return { ...resolved, trader: (username || wallet)!, profileUrl: traderProfileUrl(resolved) };
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private lookup(key: string, load: () => Promise<string | null>): Promise<string | null> {
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return Promise.resolve(cached.value);
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = load()
+        .then((value) => {
+          this.prune();
+          this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+          return value;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  private prune() {
+    const now = Date.now();
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    });
+  }
+}
+
+const globalForTraderResolver = globalThis as unknown as { traderResolver?: TraderResolver };
+
+export function getTraderResolver(): TraderResolver {
+  if (!globalForTraderResolver.traderResolver) {
+    globalForTraderResolver.traderResolver = new TraderResolver(envSeconds('TRADER_CACHE_TTL', 3600) * 1000);
+  }
+  return globalForTraderResolver.traderResolver;
+}
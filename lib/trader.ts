@@ -0,0 +1,133 @@
+import { ScrapeError } from '@/lib/errors';
+
+// Extract trader name from a profile URL
+// Examples: https://polymarket.com/@FirstOrder -> FirstOrder
+//           https://polymarket.com/@username?tab=positions -> username
+export function extractTraderName(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    const pathMatch = urlObj.pathname.match(/@([^/?]+)/);
+    if (pathMatch && pathMatch[1]) {
+      return decodeURIComponent(pathMatch[1]);
+    }
+  } catch {
+    // Not a valid URL, fall through to a plain match
+  }
+  const match = url.match(/@([^/?#]+)/);
+  return match && match[1] ? match[1] : '';
+}
+
+// Extract a wallet address from a profile URL (e.g. https://polymarket.com/profile/0xabc...)
+export function extractWalletAddress(url: string): string {
+  const match = url.match(/0x[a-fA-F0-9]{40}/);
+  return match ? match[0].toLowerCase() : '';
+}
+
+// Canonical form of a profile URL, so the same profile is recognized however
+// it was written: host without www, lowercase path (wallet profiles as
+// /profile/<wallet>) and the tab, defaulting to positions
+export function normalizeProfileUrl(profileUrl: string): string {
+  try {
+    const url = new URL(profileUrl);
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    const wallet = extractWalletAddress(url.pathname);
+    const path = wallet ? `/profile/${wallet}` : decodeURIComponent(url.pathname).replace(/\/+$/, '').toLowerCase();
+    return `https://${host}${path}?tab=${url.searchParams.get('tab') || 'positions'}`;
+  } catch {
+    return profileUrl.trim();
+  }
+}
+
+// A trader as given by the user: a username, a wallet address, or both once
+// resolved (see lib/trader-resolver.ts)
+export interface TraderIdentity {
+  username: string | null;
+  wallet: string | null;   // Lowercase 0x address
+}
+
+const WALLET_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+const isPolymarketHost = (hostname: string) =>
+  hostname === 'polymarket.com' || hostname.endsWith('.polymarket.com');
+
+// Percent-decode a username from the input, rejecting broken escapes like "%E0"
+function decodeUsername(encoded: string, input: string): string {
+  try {
+    return decodeURIComponent(encoded);
+  } catch {
+    throw new ScrapeError('INVALID_REQUEST', `Username is not valid percent-encoding: ${input}`);
+  }
+}
+
+// Parse a profile URL (any tab, /@username or /profile/<wallet>), @username,
+// bare username or wallet address. Throws a ScrapeError (INVALID_REQUEST or
+// NOT_POLYMARKET) saying what is wrong with the input.
+export function parseTraderInput(input: string): TraderIdentity {
+  const value = (input || '').trim();
+  if (!value) {
+    throw new ScrapeError('INVALID_REQUEST', 'A profile URL, @username or wallet address is required');
+  }
+
+  // Looks like an address but isn't one: usually a truncated copy-paste
+  if (/^0x[a-zA-Z0-9]*$/.test(value)) {
+    if (!WALLET_PATTERN.test(value)) {
+      throw new ScrapeError('INVALID_REQUEST', `Not a wallet address: ${value} (expected 0x and 40 hex characters)`);
+    }
+    return { username: null, wallet: value.toLowerCase() };
+  }
+
+  // "@some.name" is always a username, a bare word only without dots (else it's a host)
+  const username = value.match(/^@([^\s/?#@]+)$/) || value.match(/^([A-Za-z0-9_-]+)$/);
+  if (username) {
+    return { username: decodeUsername(username[1], value), wallet: null };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    throw new ScrapeError('INVALID_REQUEST', `Not a profile URL, @username or wallet address: ${value}`);
+  }
+  if (!url.hostname.includes('.')) {
+    throw new ScrapeError('INVALID_REQUEST', `Not a profile URL, @username or wallet address: ${value}`);
+  }
+  if (!isPolymarketHost(url.hostname.toLowerCase())) {
+    throw new ScrapeError('NOT_POLYMARKET', `Not a Polymarket URL: ${url.hostname}`);
+  }
+
+  const wallet = extractWalletAddress(url.pathname) || null;
+  const encodedName = url.pathname.match(/@([^/?]+)/)?.[1];
+  const name = encodedName ? decodeUsername(encodedName, value) : null;
+  if (!wallet && !name) {
+    throw new ScrapeError('INVALID_REQUEST', `Profile URL must contain an @username or a wallet address: ${value}`);
+  }
+  return { username: name, wallet };
+}
+
+// Profile URL of a trader on the positions tab, by username when known
+export function traderProfileUrl({ username, wallet }: TraderIdentity): string {
+  return username
+    ? `https://polymarket.com/@${encodeURIComponent(username)}?tab=positions`
+    : `https://polymarket.com/profile/${wallet}?tab=positions`;
+}
+
+// Turn a profile URL, @username, bare username or wallet address into a
+// profile URL on the positions tab. Returns null for unrecognized input.
+export function toProfileUrl(input: string): string | null {
+  try {
+    return traderProfileUrl(parseTraderInput(input));
+  } catch {
+    return null;
+  }
+}
+
+// Point a polymarket.com profile URL at another tab, e.g. ?tab=activity
+export function withProfileTab(profileUrl: string, tab: string): string {
+  try {
+    const url = new URL(profileUrl);
+    url.searchParams.set('tab', tab);
+    return url.toString();
+  } catch {
+    return profileUrl;
+  }
+}
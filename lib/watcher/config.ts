@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_SOURCE, isSourceId, SourceId } from '@/lib/sources';
+import { WatchlistEntry } from '@/lib/watchlist/types';
+import { checkWatchlistSchedule } from '@/lib/watchlist/validate';
+import { parseDuration, parseSchedule, Schedule } from './schedule';
+
+// Watchlist for the background watcher (see watchlist.example.json)
+export const WATCHLIST_FILE = process.env.WATCHLIST_FILE || path.join(process.cwd(), 'watchlist.json');
+
+export interface WatchTarget {
+  profileUrl: string;
+  source: SourceId;
+  schedule: Schedule;
+  jitterMs: number;      // Random delay added to each run so profiles don't fire together
+  enabled: boolean;
+}
+
+// Per-profile settings that fall back to the watchlist file's "defaults"
+export interface TargetDefaults {
+  schedule?: string | number;
+  jitter?: string | number;
+  source?: string;
+}
+
+export interface WatcherConfig {
+  targets: WatchTarget[];
+  defaults: TargetDefaults;
+  backoffBaseMs: number;  // Retry delay after the first failure, doubled per failure
+  backoffMaxMs: number;
+}
+
+const DEFAULTS = {
+  schedule: '10m',
+  jitter: '30s',
+  backoffBase: '1m',
+  backoffMax: '1h',
+};
+
+function parseTarget(input: any, defaults: TargetDefaults, label: string): WatchTarget {
+  const entry = typeof input === 'string' ? { url: input } : input;
+
+  if (!entry || typeof entry.url !== 'string') {
+    throw new Error(`${label}: url is required`);
+  }
+  try {
+    new URL(entry.url);
+  } catch {
+    throw new Error(`${label}: invalid URL "${entry.url}"`);
+  }
+
+  const source = entry.source ?? defaults.source ?? DEFAULT_SOURCE;
+  if (!isSourceId(source)) {
+    throw new Error(`${label}: unknown source "${source}"`);
+  }
+
+  try {
+    return {
+      profileUrl: entry.url,
+      source,
+      schedule: parseSchedule(entry.schedule ?? defaults.schedule ?? DEFAULTS.schedule),
+      jitterMs: parseDuration(entry.jitter ?? defaults.jitter ?? DEFAULTS.jitter),
+      enabled: entry.enabled !== false,
+    };
+  } catch (error: any) {
+    throw new Error(`${label}: ${error.message}`);
+  }
+}
+
+// Parse the watchlist file contents
+export function parseWatcherConfig(input: any): WatcherConfig {
+  if (!input || typeof input !== 'object' || !Array.isArray(input.profiles)) {
+    throw new Error('Watchlist must be an object with a "profiles" array');
+  }
+  const defaults = input.defaults ?? {};
+
+  return {
+    targets: input.profiles.map((entry: any, index: number) => parseTarget(entry, defaults, `profiles[${index}]`)),
+    defaults,
+    backoffBaseMs: parseDuration(defaults.backoffBase ?? DEFAULTS.backoffBase),
+    backoffMaxMs: parseDuration(defaults.backoffMax ?? DEFAULTS.backoffMax),
+  };
+}
+
+// Read the watchlist file. Resolves to null when there is no file.
+export async function loadWatcherConfig(): Promise<{ config: WatcherConfig; modifiedAt: number } | null> {
+  let stat: fs.Stats;
+  try {
+    stat = await fs.promises.stat(WATCHLIST_FILE);
+  } catch {
+    return null;
+  }
+
+  const text = await fs.promises.readFile(WATCHLIST_FILE, 'utf8');
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`${WATCHLIST_FILE} is not valid JSON: ${error.message}`);
+  }
+
+  return { config: parseWatcherConfig(json), modifiedAt: stat.mtimeMs };
+}
+
+// Watchlist entries with a schedule are watched alongside the file's profiles.
+// Entries stored with a schedule below the minimum are skipped.
+export function watchlistTargets(entries: WatchlistEntry[], defaults: TargetDefaults): WatchTarget[] {
+  return entries
+    .filter((entry) => entry.schedule)
+    .flatMap((entry) => {
+      try {
+        const input = { url: entry.profileUrl, schedule: entry.schedule, source: entry.source ?? undefined, enabled: entry.enabled };
+        const label = `watchlist #${entry.id}`;
+        const target = parseTarget(input, defaults, label);
+        try {
+          checkWatchlistSchedule(target.schedule);
+        } catch (error: any) {
+          throw new Error(`${label}: ${error.message}`);
+        }
+        return [target];
+      } catch (error: any) {
+        console.warn('Watcher: skipping watchlist entry:', error.message);
+        return [];
+      }
+    });
+}
@@ -0,0 +1,158 @@
+// Watch schedules: either a fixed interval ("30s", "5m", "every 2h") or a
+// five-field cron expression ("*/15 * * * *", "0 9-17 * * 1-5") in server
+// local time.
+
+export type Schedule =
+  | { kind: 'interval'; ms: number }
+  | { kind: 'cron'; expression: string; fields: CronFields };
+
+interface CronFields {
+  minute: Set<number>;
+  hour: Set<number>;
+  dayOfMonth: Set<number> | null;   // null = "*"
+  month: Set<number>;
+  dayOfWeek: Set<number> | null;    // null = "*", 0 = Sunday
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const MAX_CRON_LOOKAHEAD_MINUTES = 366 * 24 * 60;
+
+// Parse a duration like "90s", "5m" or "1.5h". Plain numbers are minutes.
+export function parseDuration(value: string | number): number {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value) || value < 0) throw new Error(`Invalid duration: ${value}`);
+    return value * DURATION_UNITS.m;
+  }
+
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/);
+  if (!match) throw new Error(`Invalid duration: "${value}" (use e.g. 30s, 5m, 1h)`);
+  return parseFloat(match[1]) * DURATION_UNITS[match[2] || 'm'];
+}
+
+function parseCronField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) throw new Error(`Invalid cron ${name}: "${field}"`);
+
+    let [start, end] = [min, max];
+    if (match[1] !== '*') {
+      const [from, to] = match[1].split('-').map(Number);
+      start = from;
+      // "5/10" means every 10 starting at 5
+      end = to ?? (match[2] ? max : from);
+    }
+    const step = match[2] ? Number(match[2]) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron ${name}: "${field}" (allowed ${min}-${max})`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseCron(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression: "${expression}" (expected 5 fields)`);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
+
+  // Both 0 and 7 mean Sunday
+  const weekdays = dayOfWeek === '*' ? null : parseCronField(dayOfWeek, 0, 7, 'day of week');
+  if (weekdays?.delete(7)) weekdays.add(0);
+
+  return {
+    minute: parseCronField(minute, 0, 59, 'minute'),
+    hour: parseCronField(hour, 0, 23, 'hour'),
+    dayOfMonth: dayOfMonth === '*' ? null : parseCronField(dayOfMonth, 1, 31, 'day of month'),
+    month: parseCronField(month, 1, 12, 'month'),
+    dayOfWeek: weekdays,
+  };
+}
+
+// Parse a schedule. Cron expressions that can never fire (e.g. "0 0 30 2 *")
+// are rejected here rather than when the watcher schedules them.
+export function parseSchedule(value: string | number): Schedule {
+  if (typeof value === 'string' && value.trim().split(/\s+/).length === 5) {
+    const schedule: Schedule = { kind: 'cron', expression: value.trim(), fields: parseCron(value) };
+    nextRunAfter(schedule, new Date());
+    return schedule;
+  }
+
+  const ms = parseDuration(typeof value === 'string' ? value.replace(/^\s*every\s+/i, '') : value);
+  if (ms < 1000) throw new Error('Schedule interval must be at least 1s');
+  return { kind: 'interval', ms };
+}
+
+// Shortest time between two runs. For cron expressions this is the smallest
+// gap between minutes that fire, counting the gap across the hour only when
+// two consecutive hours fire.
+export function minimumGapMs(schedule: Schedule): number {
+  if (schedule.kind === 'interval') return schedule.ms;
+
+  const { minute, hour } = schedule.fields;
+  const minutes = Array.from(minute).sort((a, b) => a - b);
+  const gaps = minutes.slice(1).map((value, i) => value - minutes[i]);
+  if (Array.from(hour).some((h) => hour.has((h + 1) % 24))) {
+    gaps.push(60 - minutes[minutes.length - 1] + minutes[0]);
+  }
+  return (gaps.length > 0 ? Math.min(...gaps) : 60) * DURATION_UNITS.m;
+}
+
+export function describeSchedule(schedule: Schedule): string {
+  if (schedule.kind === 'cron') return schedule.expression;
+  const unit = ['d', 'h', 'm', 's'].find((u) => schedule.ms % DURATION_UNITS[u] === 0) || 'ms';
+  return `every ${schedule.ms / DURATION_UNITS[unit]}${unit}`;
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+  const dom = fields.dayOfMonth?.has(date.getDate());
+  const dow = fields.dayOfWeek?.has(date.getDay());
+  // Like cron: when both day fields are restricted, either one may match
+  if (dom !== undefined && dow !== undefined) return dom || dow;
+  return dom ?? dow ?? true;
+}
+
+// The next time the schedule fires after `from`
+export function nextRunAfter(schedule: Schedule, from: Date): Date {
+  if (schedule.kind === 'interval') {
+    return new Date(from.getTime() + schedule.ms);
+  }
+
+  const { fields } = schedule;
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // Skip whole months/days/hours that can't match to keep the search short
+  for (let i = 0; i < MAX_CRON_LOOKAHEAD_MINUTES; i++) {
+    if (!fields.month.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(fields, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!fields.hour.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!fields.minute.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression "${schedule.expression}" never fires`);
+}
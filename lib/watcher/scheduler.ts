@@ -0,0 +1,275 @@
+import { envInt } from '@/lib/env';
+import { ScrapeErrorCode, toScrapeError } from '@/lib/errors';
+import { scrapeAndRecord } from '@/lib/scrape';
+import { listWatchlist } from '@/lib/watchlist/store';
+import { loadWatcherConfig, parseWatcherConfig, WatcherConfig, WatchTarget, WATCHLIST_FILE, watchlistTargets } from './config';
+import { describeSchedule, nextRunAfter } from './schedule';
+
+const TICK_INTERVAL = 5000; // How often due profiles are checked (and the watchlist reloaded)
+
+export interface WatchTargetStatus {
+  profileUrl: string;
+  source: string;
+  schedule: string;
+  enabled: boolean;
+  inProgress: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  lastErrorCode: ScrapeErrorCode | null;
+  failures: number;          // Consecutive failures (drives the backoff)
+  lastCount: number | null;
+  lastSnapshotId: number | null;
+}
+
+export interface WatcherStatus {
+  running: boolean;
+  watchlistFile: string;
+  configError: string | null;
+  concurrency: number;
+  targets: WatchTargetStatus[];
+}
+
+interface TargetState {
+  target: WatchTarget;
+  inProgress: boolean;
+  nextRunAt: number;
+  lastRunAt: number | null;
+  lastSuccessAt: number | null;
+  lastError: string | null;
+  lastErrorCode: ScrapeErrorCode | null;
+  failures: number;
+  lastCount: number | null;
+  lastSnapshotId: number | null;
+}
+
+const randomJitter = (target: WatchTarget) => Math.random() * target.jitterMs;
+
+const toIso = (time: number | null) => (time === null ? null : new Date(time).toISOString());
+
+// Scrapes the watchlist on each profile's schedule from the server process, so
+// monitoring keeps going without the page open. Profiles come from the
+// watchlist file and from scheduled entries of the managed watchlist. Results
+// are stored as snapshots (and run through alert rules) like any other scrape.
+export class Watcher {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private inFlight = 0;
+  private states = new Map<string, TargetState>();
+  private config: WatcherConfig | null = null;
+  private configModifiedAt: number | null = null;
+  private configError: string | null = null;
+  private scheduleErrors = new Map<string, string>();   // Profile URL -> why it can't be scheduled
+
+  constructor(private concurrency: number) {}
+
+  start(): void {
+    if (this.timer) return;
+    console.log(`Watcher started (watchlist: ${WATCHLIST_FILE})`);
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    // Don't keep the process alive just for the watcher
+    this.timer.unref?.();
+    this.tick();
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    console.log('Watcher stopped');
+  }
+
+  // Schedule a profile (or every profile) to run on the next tick
+  async runNow(profileUrl?: string): Promise<boolean> {
+    await this.reloadConfig();
+    const states = profileUrl
+      ? [this.states.get(profileUrl)].filter((state): state is TargetState => !!state)
+      : Array.from(this.states.values());
+    if (states.length === 0) return false;
+
+    states.forEach((state) => (state.nextRunAt = Date.now()));
+    this.tick();
+    return true;
+  }
+
+  async status(): Promise<WatcherStatus> {
+    await this.reloadConfig();
+    return {
+      running: this.timer !== null,
+      watchlistFile: WATCHLIST_FILE,
+      configError: this.configError,
+      concurrency: this.concurrency,
+      targets: Array.from(this.states.values()).map((state) => ({
+        profileUrl: state.target.profileUrl,
+        source: state.target.source,
+        schedule: describeSchedule(state.target.schedule),
+        enabled: state.target.enabled,
+        inProgress: state.inProgress,
+        nextRunAt: state.target.enabled ? toIso(state.nextRunAt) : null,
+        lastRunAt: toIso(state.lastRunAt),
+        lastSuccessAt: toIso(state.lastSuccessAt),
+        lastError: state.lastError,
+        lastErrorCode: state.lastErrorCode,
+        failures: state.failures,
+        lastCount: state.lastCount,
+        lastSnapshotId: state.lastSnapshotId,
+      })),
+    };
+  }
+
+  // Profile URLs currently on the watchlist
+  async targets(): Promise<WatchTarget[]> {
+    await this.reloadConfig();
+    return Array.from(this.states.values()).map((state) => state.target);
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      await this.reloadConfig();
+
+      const now = Date.now();
+      const due = Array.from(this.states.values())
+        .filter((state) => state.target.enabled && !state.inProgress && state.nextRunAt <= now)
+        .sort((a, b) => a.nextRunAt - b.nextRunAt);
+
+      for (const state of due) {
+        if (this.inFlight >= this.concurrency) break;
+        this.run(state);
+      }
+    } catch (error) {
+      console.error('Watcher tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async run(state: TargetState): Promise<void> {
+    const { target } = state;
+    state.inProgress = true;
+    state.lastRunAt = Date.now();
+    this.inFlight++;
+
+    try {
+      // Failed page loads throw, so an empty result is an empty portfolio
+      const result = await scrapeAndRecord(target.profileUrl, target.source);
+
+      state.failures = 0;
+      state.lastError = null;
+      state.lastErrorCode = null;
+      state.lastSuccessAt = Date.now();
+      state.lastCount = result.positions.length;
+      state.lastSnapshotId = result.snapshotId ?? null;
+      state.nextRunAt = nextRunAfter(target.schedule, new Date()).getTime() + randomJitter(target);
+    } catch (error: any) {
+      const scrapeError = toScrapeError(error);
+      state.failures++;
+      state.lastError = scrapeError.message;
+      state.lastErrorCode = scrapeError.code;
+
+      // Exponential backoff, but never retry sooner than the regular schedule
+      const config = this.config!;
+      const backoff = Math.min(config.backoffBaseMs * 2 ** (state.failures - 1), config.backoffMaxMs);
+      const regular = nextRunAfter(target.schedule, new Date()).getTime();
+      state.nextRunAt = Math.max(regular, Date.now() + backoff) + randomJitter(target);
+
+      console.warn(
+        `Watcher: ${target.profileUrl} failed (${state.failures}x), next run ${new Date(state.nextRunAt).toISOString()}:`,
+        state.lastError
+      );
+    } finally {
+      state.inProgress = false;
+      this.inFlight--;
+    }
+  }
+
+  // Re-read the watchlist file when it changes, merge in scheduled watchlist
+  // entries and reconcile the schedule
+  private async reloadConfig(): Promise<void> {
+    try {
+      const loaded = await loadWatcherConfig();
+      const modifiedAt = loaded?.modifiedAt ?? null;
+      if (modifiedAt !== this.configModifiedAt || !this.config) {
+        this.configModifiedAt = modifiedAt;
+        this.config = loaded?.config ?? parseWatcherConfig({ profiles: [] });
+      }
+      this.configError = null;
+    } catch (error: any) {
+      // Keep watching with the last good config
+      if (this.configError !== error.message) {
+        console.error('Watcher: invalid watchlist:', error.message);
+      }
+      this.configError = error.message;
+      this.config ??= parseWatcherConfig({ profiles: [] });
+    }
+
+    const fileUrls = new Set(this.config.targets.map((target) => target.profileUrl));
+    const entryTargets = watchlistTargets(await listWatchlist(), this.config.defaults)
+      .filter((target) => !fileUrls.has(target.profileUrl));
+    this.reconcile([...this.config.targets, ...entryTargets]);
+  }
+
+  private reconcile(targets: WatchTarget[]): void {
+    const now = Date.now();
+    const urls = new Set(targets.map((target) => target.profileUrl));
+
+    Array.from(this.states.keys())
+      .filter((url) => !urls.has(url))
+      .forEach((url) => this.states.delete(url));
+
+    // One target that can't be scheduled must not stop the others
+    for (const target of targets) {
+      try {
+        this.reconcileTarget(target, now);
+        this.scheduleErrors.delete(target.profileUrl);
+      } catch (error: any) {
+        if (this.scheduleErrors.get(target.profileUrl) !== error.message) {
+          console.error(`Watcher: cannot schedule ${target.profileUrl}:`, error.message);
+        }
+        this.scheduleErrors.set(target.profileUrl, error.message);
+      }
+    }
+  }
+
+  private reconcileTarget(target: WatchTarget, now: number): void {
+    const existing = this.states.get(target.profileUrl);
+    // Interval schedules run soon after startup; cron schedules wait for their slot
+    const firstRun =
+      target.schedule.kind === 'interval' ? now : nextRunAfter(target.schedule, new Date(now)).getTime();
+
+    if (!existing) {
+      this.states.set(target.profileUrl, {
+        target,
+        inProgress: false,
+        nextRunAt: firstRun + randomJitter(target),
+        lastRunAt: null,
+        lastSuccessAt: null,
+        lastError: null,
+        lastErrorCode: null,
+        failures: 0,
+        lastCount: null,
+        lastSnapshotId: null,
+      });
+      return;
+    }
+
+    const scheduleChanged = describeSchedule(existing.target.schedule) !== describeSchedule(target.schedule);
+    if (scheduleChanged && !existing.inProgress) {
+      const from = existing.lastRunAt === null ? null : nextRunAfter(target.schedule, new Date(existing.lastRunAt));
+      existing.nextRunAt = (from ? Math.max(from.getTime(), now) : firstRun) + randomJitter(target);
+    }
+    existing.target = target;
+  }
+}
+
+const globalForWatcher = globalThis as unknown as { watcher?: Watcher };
+
+export function getWatcher(): Watcher {
+  if (!globalForWatcher.watcher) {
+    globalForWatcher.watcher = new Watcher(envInt('WATCHER_CONCURRENCY', 2));
+  }
+  return globalForWatcher.watcher;
+}
@@ -0,0 +1,122 @@
+import { getDb, lastInsertId, queryAll, queryOne, saveDb } from '@/lib/db';
+import { SourceId } from '@/lib/sources/types';
+import { extractTraderName, extractWalletAddress, TraderIdentity, traderProfileUrl } from '@/lib/trader';
+import { WatchlistEntry, WatchlistInput } from './types';
+
+interface WatchlistRow {
+  id: number;
+  profile_url: string;
+  trader: string;
+  label: string | null;
+  tags: string;
+  group_name: string | null;
+  enabled: number;
+  schedule: string | null;
+  source: string | null;
+  created_at: string;
+}
+
+const toEntry = (row: WatchlistRow): WatchlistEntry => ({
+  id: row.id,
+  profileUrl: row.profile_url,
+  trader: row.trader,
+  label: row.label,
+  tags: JSON.parse(row.tags),
+  group: row.group_name,
+  enabled: !!row.enabled,
+  schedule: row.schedule,
+  source: row.source as SourceId | null,
+  createdAt: row.created_at,
+});
+
+const traderFromUrl = (profileUrl: string) =>
+  extractTraderName(profileUrl) || extractWalletAddress(profileUrl) || profileUrl;
+
+export async function listWatchlist(): Promise<WatchlistEntry[]> {
+  const db = await getDb();
+  return queryAll<WatchlistRow>(db, 'SELECT * FROM watchlist ORDER BY group_name, id').map(toEntry);
+}
+
+export async function getWatchlistEntry(id: number): Promise<WatchlistEntry | null> {
+  const db = await getDb();
+  const row = queryOne<WatchlistRow>(db, 'SELECT * FROM watchlist WHERE id = ?', [id]);
+  return row ? toEntry(row) : null;
+}
+
+export async function findWatchlistEntry(profileUrl: string): Promise<WatchlistEntry | null> {
+  const db = await getDb();
+  const row = queryOne<WatchlistRow>(db, 'SELECT * FROM watchlist WHERE profile_url = ?', [profileUrl]);
+  return row ? toEntry(row) : null;
+}
+
+// Entry of a trader under either of its profile URLs, by username or by wallet
+export async function findWatchlistEntryForTrader({ username, wallet }: TraderIdentity): Promise<WatchlistEntry | null> {
+  const urls = [
+    username ? traderProfileUrl({ username, wallet: null }) : null,
+    wallet ? traderProfileUrl({ username: null, wallet }) : null,
+  ];
+  for (const url of urls) {
+    const entry = url ? await findWatchlistEntry(url) : null;
+    if (entry) return entry;
+  }
+  return null;
+}
+
+export async function createWatchlistEntry(
+  entry: WatchlistInput & Pick<WatchlistEntry, 'profileUrl'>
+): Promise<WatchlistEntry> {
+  const db = await getDb();
+  db.run(
+    `INSERT INTO watchlist (profile_url, trader, label, tags, group_name, enabled, schedule, source, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      entry.profileUrl,
+      traderFromUrl(entry.profileUrl),
+      entry.label ?? null,
+      JSON.stringify(entry.tags ?? []),
+      entry.group ?? null,
+      entry.enabled === false ? 0 : 1,
+      entry.schedule ?? null,
+      entry.source ?? null,
+      new Date().toISOString(),
+    ]
+  );
+  const id = lastInsertId(db);
+  await saveDb(db);
+  return (await getWatchlistEntry(id))!;
+}
+
+export async function updateWatchlistEntry(id: number, changes: WatchlistInput): Promise<WatchlistEntry | null> {
+  const existing = await getWatchlistEntry(id);
+  if (!existing) return null;
+
+  const entry = { ...existing, ...changes };
+  entry.trader = traderFromUrl(entry.profileUrl);
+
+  const db = await getDb();
+  db.run(
+    `UPDATE watchlist SET profile_url = ?, trader = ?, label = ?, tags = ?, group_name = ?, enabled = ?,
+       schedule = ?, source = ? WHERE id = ?`,
+    [
+      entry.profileUrl,
+      entry.trader,
+      entry.label,
+      JSON.stringify(entry.tags),
+      entry.group,
+      entry.enabled ? 1 : 0,
+      entry.schedule,
+      entry.source,
+      id,
+    ]
+  );
+  await saveDb(db);
+  return entry;
+}
+
+export async function deleteWatchlistEntry(id: number): Promise<boolean> {
+  const db = await getDb();
+  db.run('DELETE FROM watchlist WHERE id = ?', [id]);
+  const deleted = db.getRowsModified() > 0;
+  await saveDb(db);
+  return deleted;
+}
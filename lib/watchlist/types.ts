@@ -0,0 +1,16 @@
+import type { SourceId } from '@/lib/sources/types';
+
+export interface WatchlistEntry {
+  id: number;
+  profileUrl: string;       // Canonical profile URL the entry is scraped from
+  trader: string;           // Username or wallet address taken from the URL
+  label: string | null;
+  tags: string[];           // e.g. "whales", "sports"
+  group: string | null;
+  enabled: boolean;         // Disabled entries are skipped by batch scrapes and the watcher
+  schedule: string | null;  // Background watcher schedule ("10m", cron); null = manual only
+  source: SourceId | null;  // null = default source
+  createdAt: string;
+}
+
+export type WatchlistInput = Partial<Omit<WatchlistEntry, 'id' | 'trader' | 'createdAt'>>;
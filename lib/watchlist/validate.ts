@@ -0,0 +1,69 @@
+import { envInt } from '@/lib/env';
+import { isSourceId } from '@/lib/sources';
+import { parseTraderInput, traderProfileUrl } from '@/lib/trader';
+import { minimumGapMs, parseSchedule, Schedule } from '@/lib/watcher/schedule';
+import { WatchlistInput } from './types';
+
+// Watchlist entries are watched no more often than this
+export const MIN_SCHEDULE_MINUTES = envInt('WATCHLIST_MIN_SCHEDULE_MINUTES', 5);
+
+export function checkWatchlistSchedule(schedule: Schedule): void {
+  if (minimumGapMs(schedule) < MIN_SCHEDULE_MINUTES * 60 * 1000) {
+    throw new Error(`Watchlist schedules must be at least ${MIN_SCHEDULE_MINUTES} minutes apart`);
+  }
+}
+
+const optionalText = (value: unknown, field: string): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') throw new Error(`${field} must be a string`);
+  return value.trim() || null;
+};
+
+// Tags as an array or a comma-separated string; trimmed, lowercased, unique
+function parseTags(value: unknown): string[] {
+  const items = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(items) || items.some((tag) => typeof tag !== 'string')) {
+    throw new Error('tags must be an array of strings or a comma-separated string');
+  }
+  return Array.from(new Set(items.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+// Validate a watchlist entry received from the API. The trader can be given
+// as `input` (profile URL, @username or wallet address) or `profileUrl`.
+// With partial, missing fields are allowed.
+export function parseWatchlistInput(input: any, partial = false): WatchlistInput {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Invalid request body');
+  }
+
+  const result: WatchlistInput = {};
+
+  const trader = input.input ?? input.profileUrl;
+  if (trader !== undefined || !partial) {
+    if (typeof trader !== 'string') {
+      throw new Error('input must be a profile URL, @username or wallet address');
+    }
+    result.profileUrl = traderProfileUrl(parseTraderInput(trader));
+  }
+
+  if (input.label !== undefined) result.label = optionalText(input.label, 'label');
+  if (input.group !== undefined) result.group = optionalText(input.group, 'group');
+  if (input.tags !== undefined) result.tags = input.tags === null ? [] : parseTags(input.tags);
+  if (typeof input.enabled === 'boolean') result.enabled = input.enabled;
+
+  if (input.schedule !== undefined) {
+    const schedule = optionalText(input.schedule, 'schedule');
+    if (schedule) checkWatchlistSchedule(parseSchedule(schedule));
+    result.schedule = schedule;
+  }
+
+  if (input.source !== undefined) {
+    const source = optionalText(input.source, 'source');
+    if (source && !isSourceId(source)) {
+      throw new Error(`Unknown source: ${source}`);
+    }
+    result.source = source as WatchlistInput['source'];
+  }
+
+  return result;
+}
@@ -4,6 +4,10 @@ const nextConfig = {
     serverActions: {
       bodySizeLimit: '10mb',
     },
+    // Loaded from node_modules at runtime so sql.js can find its .wasm file
+    serverComponentsExternalPackages: ['sql.js'],
+    // Starts the background watcher (instrumentation.ts)
+    instrumentationHook: true,
   },
   // Increase API route timeout
   api: {
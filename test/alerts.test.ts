@@ -0,0 +1,229 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { evaluateRules } from '@/lib/alerts/engine';
+import { AlertCondition, AlertMatch, AlertRule, Webhook, WebhookFormat } from '@/lib/alerts/types';
+import { deliverAlert } from '@/lib/alerts/webhooks';
+import { Position } from '@/lib/position';
+
+const position = (overrides: Partial<Position> = {}): Position => ({
+  trader: 'FirstOrder',
+  marketName: 'Fed decision in December?',
+  marketUrl: 'https://polymarket.com/event/fed-decision-in-december',
+  outcome: 'Yes 1,250 shares at 40¢',
+  currentPrice: '52¢',
+  value: '$650.00',
+  side: 'Yes',
+  shares: 1250,
+  avgPrice: 0.4,
+  price: 0.52,
+  currentValue: 650,
+  costBasis: 500,
+  unrealizedPnl: 150,
+  ...overrides,
+});
+
+const rule = (condition: AlertCondition, overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: 1,
+  name: 'Test rule',
+  enabled: true,
+  condition,
+  createdAt: '2025-10-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('evaluateRules', () => {
+  const held = position();
+  const opened = position({
+    marketName: 'Presidential election winner 2028',
+    marketUrl: 'https://polymarket.com/event/presidential-election-winner-2028',
+    outcome: 'No 12,000 shares at 45¢',
+    side: 'No',
+    shares: 12000,
+    avgPrice: 0.45,
+    price: 0.48,
+    currentValue: 5760,
+  });
+
+  test('position-opened fires for new positions over minValue', () => {
+    const matches = evaluateRules([rule({ type: 'position-opened', minValue: 5000 })], [held], [held, opened]);
+
+    assert.equal(matches.length, 1);
+    assert.equal(matches[0].position, opened);
+    assert.equal(matches[0].trader, 'FirstOrder');
+    assert.equal(matches[0].message, 'FirstOrder opened No on "Presidential election winner 2028" ($5,760.00)');
+
+    assert.equal(evaluateRules([rule({ type: 'position-opened', minValue: 10000 })], [held], [held, opened]).length, 0);
+    // Positions held before don't count
+    assert.equal(evaluateRules([rule({ type: 'position-opened' })], [held, opened], [held, opened]).length, 0);
+  });
+
+  test('position-opened filters by trader, ignoring @ and case', () => {
+    const rules = (trader: string) => [rule({ type: 'position-opened', trader })];
+
+    assert.equal(evaluateRules(rules('@firstorder'), [], [opened]).length, 1);
+    assert.equal(evaluateRules(rules('SomeoneElse'), [], [opened]).length, 0);
+  });
+
+  test('market-match matches the market name by regex or substring', () => {
+    assert.equal(evaluateRules([rule({ type: 'market-match', pattern: 'election' })], [held], [held, opened]).length, 1);
+    assert.equal(evaluateRules([rule({ type: 'market-match', pattern: '^presidential.*20\\d\\d$' })], [], [opened]).length, 1);
+    // Not a valid regex: matched as plain text
+    assert.equal(evaluateRules([rule({ type: 'market-match', pattern: 'winner 2028 (' })], [], [opened]).length, 0);
+    assert.equal(evaluateRules([rule({ type: 'market-match', pattern: 'December?' })], [], [held]).length, 1);
+    assert.equal(evaluateRules([rule({ type: 'market-match', pattern: 'bitcoin' })], [held], [held, opened]).length, 0);
+  });
+
+  test('price-cross fires when the price crosses upwards', () => {
+    const before = position({ price: 0.85 });
+    const after = position({ price: 0.91 });
+    const matches = evaluateRules([rule({ type: 'price-cross', threshold: 0.9, direction: 'above' })], [before], [after]);
+
+    assert.equal(matches.length, 1);
+    assert.equal(matches[0].message, 'Yes on "Fed decision in December?" ($650.00) held by FirstOrder crossed above 90¢ (now 91¢)');
+    // Reaching the threshold counts; staying above it doesn't fire again
+    assert.equal(
+      evaluateRules([rule({ type: 'price-cross', threshold: 0.9, direction: 'above' })], [before], [position({ price: 0.9 })]).length,
+      1
+    );
+    assert.equal(evaluateRules([rule({ type: 'price-cross', threshold: 0.9, direction: 'above' })], [after], [after]).length, 0);
+    // Wrong direction
+    assert.equal(evaluateRules([rule({ type: 'price-cross', threshold: 0.9, direction: 'below' })], [before], [after]).length, 0);
+  });
+
+  test('price-cross fires when the price crosses downwards', () => {
+    const before = position({ price: 0.12 });
+    const after = position({ price: 0.08 });
+    const matches = evaluateRules([rule({ type: 'price-cross', threshold: 0.1, direction: 'below' })], [before], [after]);
+
+    assert.equal(matches.length, 1);
+    assert.match(matches[0].message, /crossed below 10¢ \(now 8¢\)$/);
+    assert.equal(evaluateRules([rule({ type: 'price-cross', threshold: 0.1, direction: 'above' })], [before], [after]).length, 0);
+    assert.equal(evaluateRules([rule({ type: 'price-cross', threshold: 0.1, direction: 'below' })], [after], [after]).length, 0);
+  });
+
+  test('price-cross needs a previous price and honours the market filter', () => {
+    const condition: AlertCondition = { type: 'price-cross', threshold: 0.5, direction: 'above', market: 'fed' };
+    const before = position({ price: 0.45 });
+    const after = position({ price: 0.55 });
+
+    assert.equal(evaluateRules([rule(condition)], [before], [after]).length, 1);
+    assert.equal(evaluateRules([rule({ ...condition, market: 'bitcoin' })], [before], [after]).length, 0);
+    // Newly opened, or no parsed price before
+    assert.equal(evaluateRules([rule(condition)], [], [after]).length, 0);
+    assert.equal(evaluateRules([rule(condition)], [position({ price: null })], [after]).length, 0);
+  });
+
+  test('disabled rules are skipped', () => {
+    assert.equal(evaluateRules([rule({ type: 'position-opened' }, { enabled: false })], [], [opened]).length, 0);
+  });
+});
+
+// Requests received by the stand-in webhook server
+interface ReceivedRequest {
+  path: string;
+  contentType: string | undefined;
+  body: any;
+}
+
+describe('deliverAlert', () => {
+  let received: ReceivedRequest[] = [];
+  let onSlowRequest = () => {};
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      received.push({ path: req.url!, contentType: req.headers['content-type'], body: JSON.parse(body) });
+      if (req.url === '/slow') {
+        onSlowRequest();   // Never answered
+      } else {
+        res.writeHead(req.url === '/fail' ? 500 : 200);
+        res.end();
+      }
+    });
+  });
+  let baseUrl = '';
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  const TRIGGERED_AT = '2025-10-09T08:53:20.000Z';
+  const match: AlertMatch = {
+    ruleId: 7,
+    ruleName: 'Big bets',
+    trader: 'FirstOrder',
+    message: 'FirstOrder opened Yes on "Fed decision in December?" ($650.00)',
+    position: position(),
+  };
+  const TEXT = '🔔 Big bets: FirstOrder opened Yes on "Fed decision in December?" ($650.00)\nhttps://polymarket.com/event/fed-decision-in-december';
+
+  const webhook = (format: WebhookFormat, path = '/ok', overrides: Partial<Webhook> = {}): Webhook => ({
+    id: 1,
+    name: `${format} hook`,
+    url: `${baseUrl}${path}`,
+    format,
+    chatId: null,
+    enabled: true,
+    createdAt: '2025-10-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  test('generic webhooks get the whole match as JSON', async () => {
+    assert.equal(await deliverAlert(webhook('generic'), match, TRIGGERED_AT), null);
+
+    assert.equal(received.length, 1);
+    assert.equal(received[0].contentType, 'application/json');
+    assert.deepEqual(received[0].body, {
+      rule: { id: 7, name: 'Big bets' },
+      trader: 'FirstOrder',
+      message: match.message,
+      position: match.position,
+      triggeredAt: TRIGGERED_AT,
+    });
+  });
+
+  test('slack, discord and telegram get their own message format', async () => {
+    assert.equal(await deliverAlert(webhook('slack'), match, TRIGGERED_AT), null);
+    assert.equal(await deliverAlert(webhook('discord'), match, TRIGGERED_AT), null);
+    assert.equal(await deliverAlert(webhook('telegram', '/ok', { chatId: '-100123' }), match, TRIGGERED_AT), null);
+
+    assert.deepEqual(received.map((request) => request.body), [
+      { text: TEXT },
+      { content: TEXT },
+      { chat_id: '-100123', text: TEXT, disable_web_page_preview: true },
+    ]);
+  });
+
+  test('a non-2xx response is reported as an error', async () => {
+    assert.equal(await deliverAlert(webhook('slack', '/fail'), match, TRIGGERED_AT), 'slack hook: HTTP 500');
+    assert.equal(received.length, 1);
+  });
+
+  test('a webhook that does not answer times out', async (t) => {
+    t.mock.timers.enable({ apis: ['setTimeout'] });
+    const requested = new Promise<void>((resolve) => { onSlowRequest = resolve; });
+
+    const delivery = deliverAlert(webhook('discord', '/slow'), match, TRIGGERED_AT);
+    await requested;
+    t.mock.timers.tick(10000);
+
+    assert.equal(await delivery, 'discord hook: timed out');
+  });
+
+  test('an unreachable webhook is reported as an error', async () => {
+    const error = await deliverAlert(webhook('generic', '/ok', { url: 'http://127.0.0.1:1/hook' }), match, TRIGGERED_AT);
+    assert.match(error!, /^generic hook: /);
+  });
+});
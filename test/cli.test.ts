@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, test } from 'node:test';
+import { EXIT_EMPTY, EXIT_OK } from '@/cli/errors';
+import type { Position } from '@/lib/position';
+
+// The CLI runs in a child process against a throwaway data directory
+const DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'newparcer-cli-'));
+const WALLET = '0x6a72f61820b26b1fe4d956e17b6dc2a1ea3033ee';
+
+const position = (overrides: Partial<Position> = {}): Position => ({
+  trader: 'FirstOrder',
+  marketName: 'Fed decision in December?',
+  marketUrl: 'https://polymarket.com/event/fed-decision-in-december',
+  outcome: 'Yes 1,250 shares at 40¢',
+  currentPrice: '52¢',
+  value: '$650.00',
+  side: 'Yes',
+  shares: 1250,
+  avgPrice: 0.4,
+  price: 0.52,
+  currentValue: 650,
+  costBasis: 500,
+  unrealizedPnl: 150,
+  ...overrides,
+});
+
+const cli = (...args: string[]) => {
+  const result = spawnSync(
+    path.join(__dirname, '../node_modules/.bin/tsx'),
+    [path.join(__dirname, '../cli/index.ts'), ...args],
+    { env: { ...process.env, DATA_DIR }, encoding: 'utf8', timeout: 60000 }
+  );
+  return { status: result.status, stdout: result.stdout };
+};
+
+before(async () => {
+  // Read when lib/db is first loaded, so set before importing the store
+  process.env.DATA_DIR = DATA_DIR;
+  const { recordSnapshot } = await import('@/lib/history/store');
+  const profileUrl = 'https://polymarket.com/@FirstOrder?tab=positions';
+  await recordSnapshot('FirstOrder', profileUrl, 'puppeteer', [position()]);
+  await recordSnapshot('FirstOrder', profileUrl, 'puppeteer', [position({ shares: 2000 })]);
+  await recordSnapshot(WALLET, `https://polymarket.com/profile/${WALLET}?tab=positions`, 'puppeteer', [position({ trader: WALLET })]);
+});
+
+after(() => {
+  fs.rmSync(DATA_DIR, { recursive: true, force: true });
+});
+
+describe('newparcer diff', () => {
+  test('finds snapshots by profile URL', () => {
+    const { status, stdout } = cli('diff', 'https://polymarket.com/@FirstOrder?tab=positions', '--format', 'json');
+
+    assert.equal(status, EXIT_OK);
+    const { from, to, diff } = JSON.parse(stdout);
+    assert.equal(to.trader, 'FirstOrder');
+    assert.equal(from.id, to.id - 1);
+    assert.equal(diff.increased.length, 1);
+  });
+
+  test('finds wallet-only traders by wallet profile URL', () => {
+    const { status, stdout } = cli('diff', `https://polymarket.com/profile/${WALLET}`, '--format', 'json');
+
+    assert.equal(status, EXIT_OK);
+    assert.equal(JSON.parse(stdout).to.trader, WALLET);
+  });
+
+  test('reports an unknown trader', () => {
+    assert.equal(cli('diff', '@SomeoneElse').status, EXIT_EMPTY);
+  });
+});
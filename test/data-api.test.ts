@@ -0,0 +1,221 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import type { LoadReport, PositionSource } from '@/lib/sources/types';
+
+// Recorded data API responses, served by a local stand-in for the data and gamma APIs
+const WALLET = '0x6a72f61820b26b1fe4d956e17b6dc2a1ea3033ee';
+const PROFILE_URL = `https://polymarket.com/profile/${WALLET}?tab=positions`;
+const fixture = (name: string) =>
+  JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures/data-api', name), 'utf8')) as Record<string, any>[];
+
+// Records the stand-in serves per endpoint, paged by limit/offset like the real API
+let records: Record<string, Record<string, any>[]> = {};
+let requests: URL[] = [];
+let failWith: number | null = null;
+
+// count copies of the recorded positions, numbered so each is distinct
+const manyPositions = (count: number) => {
+  const recorded = fixture('positions.json');
+  return Array.from({ length: count }, (_, i) => ({ ...recorded[i % recorded.length], title: `Market ${i + 1}` }));
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url!, 'http://localhost');
+  requests.push(url);
+  if (failWith) {
+    res.writeHead(failWith, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'upstream failure' }));
+    return;
+  }
+
+  let body: unknown;
+  if (url.pathname === '/public-search') {
+    body = { profiles: [{ name: 'FirstOrder', pseudonym: 'Gentle-Sampling', proxyWallet: WALLET }] };
+  } else {
+    const limit = Number(url.searchParams.get('limit'));
+    const offset = Number(url.searchParams.get('offset'));
+    body = (records[url.pathname] || []).slice(offset, offset + limit);
+  }
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+});
+
+let source: PositionSource;
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  // Read when lib/polymarket-api is first loaded, so set before importing the source
+  process.env.POLYMARKET_DATA_API_URL = base;
+  process.env.POLYMARKET_GAMMA_API_URL = base;
+  ({ dataApiSource: source } = await import('@/lib/sources/data-api'));
+});
+
+after(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  records = {
+    '/positions': fixture('positions.json'),
+    '/activity': fixture('activity.json'),
+    '/closed-positions': fixture('closed-positions.json'),
+  };
+  requests = [];
+  failWith = null;
+});
+
+const fetchPositions = async (profileUrl = PROFILE_URL) => {
+  let report: LoadReport | null = null;
+  const positions = await source.fetchPositions(profileUrl, { onLoadReport: (r) => { report = r; } });
+  return { positions, report: report as LoadReport | null };
+};
+
+describe('data API source', () => {
+  test('maps recorded positions', async () => {
+    const { positions, report } = await fetchPositions();
+
+    assert.equal(positions.length, 3);
+    assert.deepEqual(positions[0], {
+      trader: WALLET,
+      marketName: 'Fed decision in December?',
+      marketUrl: 'https://polymarket.com/event/fed-decision-in-december/fed-decreases-interest-rates-by-25-bps-after-december-2025-meeting',
+      outcome: 'Yes 1,250 shares at 40¢',
+      currentPrice: '52¢',
+      value: '$650.00',
+      side: 'Yes',
+      shares: 1250,
+      avgPrice: 0.4,
+      price: 0.52,
+      currentValue: 650,
+      costBasis: 500,
+      unrealizedPnl: 150,
+    });
+    // Same event and market slug: a single path segment
+    assert.equal(positions[1].marketUrl, 'https://polymarket.com/event/bitcoin-above-100k-on-march-31');
+    assert.equal(positions[1].currentPrice, '57.9¢');
+    assert.equal(positions[1].value, '$2,222.65');
+    assert.equal(positions[1].unrealizedPnl, -24.63);
+    // Dust position without a title or event slug
+    assert.equal(positions[2].marketName, 'Unknown Market');
+    assert.equal(positions[2].marketUrl, 'https://polymarket.com/event/will-it-snow-in-new-york-on-christmas');
+    assert.equal(positions[2].outcome, 'Yes 0 shares at 12¢');
+
+    assert.deepEqual(report, { complete: true, stopReason: 'end', steps: 1, loadMoreClicks: 0, virtualized: false });
+    assert.equal(requests.length, 1);
+    assert.equal(requests[0].pathname, '/positions');
+    assert.deepEqual(Object.fromEntries(requests[0].searchParams), {
+      user: WALLET, limit: '500', offset: '0', sizeThreshold: '0',
+    });
+  });
+
+  test('pages through long position lists', async () => {
+    records['/positions'] = manyPositions(1234);
+    const { positions, report } = await fetchPositions();
+
+    assert.equal(positions.length, 1234);
+    assert.equal(positions[1233].marketName, 'Market 1234');
+    assert.deepEqual(requests.map((url) => url.searchParams.get('offset')), ['0', '500', '1000']);
+    assert.deepEqual(report, { complete: true, stopReason: 'end', steps: 3, loadMoreClicks: 0, virtualized: false });
+  });
+
+  test('fetches one more page when the list ends on a page boundary', async () => {
+    records['/positions'] = manyPositions(1000);
+    const { positions, report } = await fetchPositions();
+
+    assert.equal(positions.length, 1000);
+    assert.equal(requests.length, 3);
+    assert.equal(report?.complete, true);
+    assert.equal(report?.steps, 3);
+  });
+
+  test('reports an incomplete list when the page limit is reached', async () => {
+    records['/positions'] = manyPositions(20 * 500 + 1);
+    const { positions, report } = await fetchPositions();
+
+    assert.equal(positions.length, 20 * 500);
+    assert.equal(requests.length, 20);
+    assert.deepEqual(report, { complete: false, stopReason: 'max-pages', steps: 20, loadMoreClicks: 0, virtualized: false });
+  });
+
+  test('resolves a username to its wallet first', async () => {
+    const { positions } = await fetchPositions('https://polymarket.com/@FirstOrder?tab=positions');
+
+    assert.equal(positions.length, 3);
+    assert.equal(positions[0].trader, 'FirstOrder');
+    assert.deepEqual(requests.map((url) => url.pathname), ['/public-search', '/positions']);
+    assert.equal(requests[1].searchParams.get('user'), WALLET);
+  });
+
+  test('fails with UPSTREAM_ERROR on a non-2xx response', async () => {
+    failWith = 502;
+    await assert.rejects(source.fetchPositions(PROFILE_URL), (error: any) => {
+      assert.equal(error.code, 'UPSTREAM_ERROR');
+      assert.match(error.message, /\/positions failed with status 502/);
+      return true;
+    });
+  });
+
+  test('maps recorded activity', async () => {
+    const trades = await source.fetchActivity!(PROFILE_URL);
+
+    assert.equal(trades.length, 4);
+    assert.deepEqual(trades[0], {
+      trader: WALLET,
+      type: 'trade',
+      action: 'buy',
+      marketName: 'Fed decision in December?',
+      marketUrl: 'https://polymarket.com/event/fed-decision-in-december/fed-decreases-interest-rates-by-25-bps-after-december-2025-meeting',
+      side: 'Yes',
+      shares: 250,
+      price: 0.42,
+      usdValue: 105,
+      timestamp: '2025-10-09T08:53:20.000Z',
+      transactionHash: '0x9f1c3bde0a6f0ac0e6f5c1b6a3bb2f0e8d7c6b5a4f3e2d1c0b9a8f7e6d5c4b3a',
+    });
+    assert.equal(trades[1].action, 'sell');
+    // Only trades have a direction and a price
+    assert.equal(trades[2].type, 'redeem');
+    assert.equal(trades[2].action, null);
+    assert.equal(trades[2].price, null);
+    assert.equal(trades[3].type, 'other');
+    assert.equal(trades[3].transactionHash, null);
+
+    assert.equal(requests.length, 1);
+    assert.deepEqual(Object.fromEntries(requests[0].searchParams), { user: WALLET, limit: '500', offset: '0' });
+  });
+
+  test('maps and pages closed positions', async () => {
+    const closed = await source.fetchClosedPositions!(PROFILE_URL);
+
+    assert.equal(closed.length, 2);
+    assert.deepEqual(closed[0], {
+      trader: WALLET,
+      marketName: 'Lakers vs. Celtics',
+      marketUrl: 'https://polymarket.com/event/nba-lal-bos-2025-10-01',
+      side: 'Lakers',
+      shares: 300,
+      avgPrice: 0.35,
+      exitPrice: 1,
+      realizedPnl: 195,
+      closedAt: '2025-10-07T01:20:00.000Z',
+      resolved: true,
+    });
+    // Sold before the market resolved
+    assert.equal(closed[1].resolved, false);
+
+    // /closed-positions pages 50 records at a time
+    const recorded = fixture('closed-positions.json');
+    records['/closed-positions'] = Array.from({ length: 120 }, (_, i) => recorded[i % recorded.length]);
+    requests = [];
+    assert.equal((await source.fetchClosedPositions!(PROFILE_URL)).length, 120);
+    assert.deepEqual(
+      requests.map((url) => [url.searchParams.get('limit'), url.searchParams.get('offset')]),
+      [['50', '0'], ['50', '50'], ['50', '100']]
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { describe, test } from 'node:test';
+import { extractPositionsFromHtml } from '@/lib/extraction/html';
+import { DEFAULT_SELECTOR_PROFILES } from '@/lib/extraction/selectors';
+
+// Saved profile pages, run through the same extractor as the live page (via jsdom)
+const PAGE_URL = 'https://polymarket.com/@FirstOrder?tab=positions';
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, 'fixtures/profiles', name), 'utf8');
+const extract = (name: string) => extractPositionsFromHtml(fixture(name), PAGE_URL);
+
+// The extractor logs the first rows it parses
+console.log = () => {};
+
+describe('extractPositions on saved profile pages', () => {
+  test('table layout', () => {
+    const positions = extract('table-layout.html');
+
+    assert.equal(positions.length, 2);
+    assert.deepEqual(
+      positions.map(({ trader, marketName, marketUrl, side, shares, avgPrice, price, currentValue }) => ({
+        trader, marketName, marketUrl, side, shares, avgPrice, price, currentValue,
+      })),
+      [
+        {
+          trader: 'FirstOrder',
+          marketName: 'Fed decision in December?',
+          marketUrl: 'https://polymarket.com/event/fed-decision-in-december',
+          side: 'Yes',
+          shares: 1250,
+          avgPrice: 0.4,
+          price: 0.52,
+          currentValue: 650,
+        },
+        {
+          trader: 'FirstOrder',
+          marketName: 'Bitcoin above 100k on March 31?',
+          marketUrl: 'https://polymarket.com/event/bitcoin-above-100k-on-march-31',
+          side: 'No',
+          shares: 3799.4,
+          avgPrice: 0.61,
+          price: 0.585,
+          currentValue: 2222.65,
+        },
+      ]
+    );
+    positions.forEach((position) => {
+      assert.equal(position.extraction?.container.strategy, 'table-row');
+      assert.equal(position.extraction?.profile, DEFAULT_SELECTOR_PROFILES[0].version);
+    });
+    assert.equal(positions[0].unrealizedPnl, 150);
+  });
+
+  test('div layout', () => {
+    const positions = extract('div-layout.html');
+
+    assert.deepEqual(
+      positions.map((position) => [position.side, position.shares, position.avgPrice, position.price, position.currentValue]),
+      [
+        ['Yes', 500, 0.22, 0.31, 155],
+        ['No', 1200, 0.8, 0.85, 1020],
+        ['Yes', 10000, 0.05, 0.01, 100],
+      ]
+    );
+    // The current price is never the "shares at" average price of the row
+    positions.forEach((position) => {
+      assert.equal(position.extraction?.container.strategy, 'row-div');
+      assert.notEqual(position.price, position.avgPrice);
+    });
+    assert.equal(positions[0].marketUrl, 'https://polymarket.com/event/super-bowl-champion-2025/chiefs');
+  });
+
+  test('multi-outcome market keeps one row per outcome', () => {
+    const positions = extract('multi-outcome.html');
+
+    // The repeated Harris row is a duplicate; Trump and Harris are separate positions
+    assert.deepEqual(
+      positions.map((position) => [position.side, position.shares, position.price]),
+      [
+        ['Trump', 2000, 0.55],
+        ['Harris', 1500, 0.44],
+      ]
+    );
+    assert.equal(new Set(positions.map((position) => position.marketUrl)).size, 1);
+  });
+
+  test('wallet-only profile URL', () => {
+    const wallet = '0x6a72f61820b26b1fe4d956e17b6dc2a1ea3033ee';
+    const positions = extractPositionsFromHtml(
+      fixture('table-layout.html'),
+      `https://polymarket.com/profile/${wallet.toUpperCase().replace('0X', '0x')}?tab=positions`
+    );
+
+    // Without a username the wallet address is the trader, so position keys stay per trader
+    assert.equal(positions.length, 2);
+    positions.forEach((position) => assert.equal(position.trader, wallet));
+  });
+
+  test('empty profile', () => {
+    const html = fixture('empty-profile.html');
+
+    assert.deepEqual(extractPositionsFromHtml(html, PAGE_URL), []);
+    // What the Puppeteer source checks to report EMPTY_PORTFOLIO
+    assert.match(html, new RegExp(DEFAULT_SELECTOR_PROFILES[0].emptyStateText, 'i'));
+  });
+});
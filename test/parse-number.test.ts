@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { parseNumber, parsePrice, parseShares, parseUsd } from '@/lib/parse-number';
+
+describe('parseNumber', () => {
+  test('reads grouping and decimal separators of any locale', () => {
+    assert.equal(parseNumber('1.234,56'), 1234.56);
+    assert.equal(parseNumber('1 234,56'), 1234.56);
+    assert.equal(parseNumber('1,234.56'), 1234.56);
+    // Non-breaking, narrow no-break and thin spaces, apostrophes
+    assert.equal(parseNumber('1 234,56'), 1234.56);
+    assert.equal(parseNumber('1 234,56'), 1234.56);
+    assert.equal(parseNumber('3 799,4'), 3799.4);
+    assert.equal(parseNumber("1'234.5"), 1234.5);
+    // Only one kind of separator
+    assert.equal(parseNumber('1,234,567'), 1234567);
+    assert.equal(parseNumber('1.234.567'), 1234567);
+    assert.equal(parseNumber('3799,4'), 3799.4);
+  });
+
+  test('uses the decimal option for "1,234" and "1.234"', () => {
+    assert.equal(parseNumber('1,234'), 1234);
+    assert.equal(parseNumber('1.234'), 1.234);
+    assert.equal(parseNumber('1,234', { decimal: ',' }), 1.234);
+    assert.equal(parseNumber('1.234', { decimal: ',' }), 1234);
+    // Not ambiguous: the option doesn't matter
+    assert.equal(parseNumber('1,234.56', { decimal: ',' }), 1234.56);
+  });
+
+  test('negative values', () => {
+    assert.equal(parseNumber('-$310.50'), -310.5);
+    assert.equal(parseNumber('($310.50)'), -310.5);
+    assert.equal(parseNumber('−1 234,5'), -1234.5);
+    assert.equal(parseNumber('–12'), -12);
+    assert.equal(parseNumber('-1.2k'), -1200);
+  });
+
+  test('bare decimals', () => {
+    assert.equal(parseNumber('0.5'), 0.5);
+    assert.equal(parseNumber('.5'), 0.5);
+    assert.equal(parseNumber(',5'), 0.5);
+    assert.equal(parseNumber('-.25'), -0.25);
+    assert.equal(parseNumber('$.61'), 0.61);
+    // A separator right after a word is not a decimal point
+    assert.equal(parseNumber('Avg.5'), 5);
+  });
+
+  test('K/M/B suffixes', () => {
+    assert.equal(parseNumber('1.2K'), 1200);
+    assert.equal(parseNumber('3,5M'), 3500000);
+    assert.equal(parseNumber('2b'), 2e9);
+    // Only a suffix on its own, not the start of a word
+    assert.equal(parseNumber('12 markets'), 12);
+  });
+
+  test('no number', () => {
+    assert.equal(parseNumber(''), null);
+    assert.equal(parseNumber('—'), null);
+    assert.equal(parseNumber('$'), null);
+  });
+});
+
+describe('parsePrice', () => {
+  test('cents and dollars', () => {
+    assert.equal(parsePrice('12¢'), 0.12);
+    assert.equal(parsePrice('61c'), 0.61);
+    assert.equal(parsePrice('57,9¢'), 0.579);
+    assert.equal(parsePrice('$0.61'), 0.61);
+    assert.equal(parsePrice('0.61'), 0.61);
+    // Above 1 without a dollar sign can only be cents
+    assert.equal(parsePrice('61'), 0.61);
+    assert.equal(parsePrice('.5'), 0.5);
+  });
+});
+
+describe('parseUsd and parseShares', () => {
+  test('abbreviated and locale-formatted amounts', () => {
+    assert.equal(parseUsd('$1.2k'), 1200);
+    assert.equal(parseUsd('$1.2M'), 1200000);
+    assert.equal(parseUsd('$2,222.65'), 2222.65);
+    assert.equal(parseUsd('2.222,65 $'), 2222.65);
+    assert.equal(parseShares('3 799,4'), 3799.4);
+    assert.equal(parseShares('1.2K'), 1200);
+  });
+});